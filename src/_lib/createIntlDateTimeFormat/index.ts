@@ -0,0 +1,29 @@
+export type Locale = Intl.ResolvedDateTimeFormatOptions['locale'];
+export type FormatOptions = Intl.DateTimeFormatOptions;
+export type LocaleOptions = { locale: Locale | Locale[] };
+
+function isFormatOptions(
+	opts: LocaleOptions | FormatOptions | undefined,
+): opts is FormatOptions {
+	return opts !== undefined && !('locale' in opts);
+}
+
+/**
+ * Creates the `Intl.DateTimeFormat` from the arguments of `intlFormat`
+ * and `intlFormatToParts`, where the format options may be omitted
+ * and the locale options passed in their place.
+ */
+export default function createIntlDateTimeFormat(
+	formatOrLocale?: FormatOptions | LocaleOptions,
+	localeOptions?: LocaleOptions,
+): Intl.DateTimeFormat {
+	let formatOptions: FormatOptions | undefined;
+
+	if (isFormatOptions(formatOrLocale)) {
+		formatOptions = formatOrLocale;
+	} else {
+		localeOptions = formatOrLocale;
+	}
+
+	return new Intl.DateTimeFormat(localeOptions?.locale, formatOptions);
+}
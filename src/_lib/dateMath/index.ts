@@ -0,0 +1,122 @@
+import safeParseISO from '../../safeParseISO/index';
+import type { Duration, ParseError } from '../../types';
+
+/**
+ * The unit of a date math operation as written, e.g. `M` for months.
+ */
+export type DateMathUnit = 'y' | 'M' | 'w' | 'd' | 'h' | 'H' | 'm' | 's';
+
+/**
+ * The operation of a date math expression: `+1d`, `-1d` or `/d`.
+ */
+export type DateMathOperation =
+	| { type: 'add'; amount: number; unit: DateMathUnit }
+	| { type: 'round'; unit: DateMathUnit };
+
+/**
+ * The parsed date math expression. The anchor is `null` for `now`.
+ */
+export interface DateMathExpression {
+	anchor: Date | null;
+	operations: DateMathOperation[];
+}
+
+/**
+ * The keys of the duration by the units.
+ */
+export const dateMathDurationKeys: Record<DateMathUnit, keyof Duration> = {
+	y: 'years',
+	M: 'months',
+	w: 'weeks',
+	d: 'days',
+	h: 'hours',
+	H: 'hours',
+	m: 'minutes',
+	s: 'seconds',
+};
+
+const anchorSeparator = '||';
+const numberRegExp = /^\d+/;
+const expectedUnit = 'y, M, w, d, h, H, m or s';
+
+function isDateMathUnit(
+	character: string | undefined,
+): character is DateMathUnit {
+	return character !== undefined && character in dateMathDurationKeys;
+}
+
+function buildError(index: number, expected: string): ParseError {
+	return { code: 'invalidFormat', index, expected };
+}
+
+/**
+ * Parses `now` or `<ISO 8601 date>||` followed by the operations.
+ * Returns the error with its position for the invalid expressions.
+ */
+export function parseDateMath(
+	expression: string,
+): DateMathExpression | ParseError {
+	let anchor: Date | null = null;
+	let index: number;
+
+	if (expression.indexOf('now') === 0) {
+		index = 'now'.length;
+	} else {
+		const separatorIndex = expression.indexOf(anchorSeparator);
+		if (separatorIndex <= 0) {
+			return buildError(0, '`now` or a date followed by `||`');
+		}
+		const result = safeParseISO(expression.slice(0, separatorIndex));
+		if (!result.ok) {
+			return result.error;
+		}
+		anchor = result.date;
+		index = separatorIndex + anchorSeparator.length;
+	}
+
+	const operations: DateMathOperation[] = [];
+	while (index < expression.length) {
+		const operator = expression[index];
+		index++;
+
+		if (operator === '/') {
+			const unit = expression[index];
+			if (!isDateMathUnit(unit)) {
+				return buildError(index, expectedUnit);
+			}
+			operations.push({ type: 'round', unit });
+			index++;
+		} else if (operator === '+' || operator === '-') {
+			const matched = expression.slice(index).match(numberRegExp);
+			if (!matched) {
+				return buildError(index, 'a number');
+			}
+			index += matched[0].length;
+
+			const unit = expression[index];
+			if (!isDateMathUnit(unit)) {
+				return buildError(index, expectedUnit);
+			}
+			const amount = parseInt(matched[0], 10);
+			operations.push({
+				type: 'add',
+				amount: operator === '-' ? -amount : amount,
+				unit,
+			});
+			index++;
+		} else {
+			return buildError(index - 1, '+, - or /');
+		}
+	}
+
+	return { anchor, operations };
+}
+
+/**
+ * Checks if the result of {@link parseDateMath} is an error.
+ */
+export function isDateMathError(
+	result: DateMathExpression | ParseError,
+): result is ParseError {
+	return 'code' in result;
+}
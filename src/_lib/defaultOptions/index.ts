@@ -1,12 +1,14 @@
 import type {
 	FirstWeekContainsDateOptions,
 	LocaleOptions,
+	NumberingSystemOptions,
 	WeekStartOptions,
 } from '../../types';
 
 export type DefaultOptions = LocaleOptions &
 	WeekStartOptions &
-	FirstWeekContainsDateOptions;
+	FirstWeekContainsDateOptions &
+	NumberingSystemOptions;
 
 let defaultOptions: DefaultOptions = {};
 
@@ -0,0 +1,283 @@
+import type { FormatOptions } from '../../../format/index';
+import type { Locale } from '../../../locale/types';
+import type {
+	CustomTokenFormatter,
+	Day,
+	FirstWeekContainsDate,
+} from '../../../types';
+import defaultLocale from '../../defaultLocale/index';
+import { getDefaultOptions } from '../../defaultOptions/index';
+import getTimeZoneId from '../../getTimeZoneId/index';
+import { getOptionsLocale } from '../../localeRegistry/index';
+import { getNumeralFn } from '../../numerals/index';
+import type { NumeralFn } from '../../numerals/index';
+import {
+	isProtectedDayOfYearToken,
+	isProtectedMillisecondsInDayToken,
+	isProtectedWeekOfMonthToken,
+	isProtectedWeekYearToken,
+	throwProtectedError,
+} from '../../protectedTokens/index';
+import formatters from '../formatters/index';
+import type { Formatter } from '../formatters/index';
+import longFormatters from '../longFormatters/index';
+
+// This RegExp consists of three parts separated by `|`:
+// - [yYQqMLwIdDecihHKkms]o matches any available ordinal number token
+//   (one of the certain letters followed by `o`)
+// - (\w)\1* matches any sequences of the same letter
+// - '' matches two quote characters in a row
+// - '(''|[^'])+('|$) matches anything surrounded by two quote characters ('),
+//   except a single quote symbol, which ends the sequence.
+//   Two quote characters do not end the sequence.
+//   If there is no matching single quote
+//   then the sequence will continue until the end of the string.
+// - . matches any single character unmatched by previous parts of the RegExps
+const formattingTokensRegExp = /[yYQqMLwIdDecihHKkms]o|(\w)\1*|''|'(''|[^'])+('|$)|./g;
+
+// This RegExp catches symbols escaped by quotes, and also
+// sequences of symbols P, p, and the combinations like `PPPPPPPppppp`
+const longFormattingTokensRegExp = /P+p+|P+|p+|''|'(''|[^'])+('|$)|./g;
+
+const escapedStringRegExp = /^'([^]*?)'?$/;
+const doubleQuoteRegExp = /''/g;
+const unescapedLatinCharacterRegExp = /[a-zA-Z]/;
+const customTokenLetterRegExp = /^[a-zA-Z]$/;
+const timeZoneTokenRegExp = /^[zvV]/;
+
+/**
+ * The format options resolved against the default options and the locale.
+ */
+export interface ResolvedFormatOptions {
+	locale: Locale;
+	firstWeekContainsDate: FirstWeekContainsDate;
+	weekStartsOn: Day;
+	numberingSystem: string | undefined;
+	numeral: NumeralFn;
+	useAdditionalWeekYearTokens: boolean;
+	useAdditionalDayOfYearTokens: boolean;
+	useAdditionalMillisecondsInDayTokens: boolean;
+	useAdditionalWeekOfMonthTokens: boolean;
+	customFormatters: { [letter: string]: CustomTokenFormatter } | undefined;
+}
+
+/**
+ * The token of the compiled format: the literal text or the formatted token
+ * with its formatter. `token` is the source of the literal text.
+ */
+export type CompiledToken =
+	| { token: string; value: string }
+	| { token: string; formatter: Formatter; custom: boolean };
+
+function cleanEscapedString(input: string): string {
+	const matched = input.match(escapedStringRegExp);
+
+	if (!matched) {
+		return input;
+	}
+
+	return matched[1].replace(doubleQuoteRegExp, "'");
+}
+
+function validateCustomFormatters(customFormatters: {
+	[letter: string]: CustomTokenFormatter;
+}): void {
+	Object.keys(customFormatters).forEach((letter) => {
+		if (!customTokenLetterRegExp.test(letter)) {
+			throw new RangeError(
+				`Custom format token \`${letter}\` must be a single latin letter`,
+			);
+		}
+		// `p` and `P` are expanded into the long localized formats first
+		if (formatters[letter] || letter === 'p' || letter === 'P') {
+			throw new RangeError(
+				`Custom format token \`${letter}\` is already used by \`format\``,
+			);
+		}
+	});
+}
+
+/**
+ * Resolves the locale, the week settings and the numbering system
+ * of `format` and `compileFormat`.
+ */
+export function resolveFormatOptions(
+	options: FormatOptions | undefined,
+): ResolvedFormatOptions {
+	const defaultOptions = getDefaultOptions();
+	const optionsLocale = getOptionsLocale(options?.locale);
+	const locale = optionsLocale ?? defaultOptions.locale ?? defaultLocale;
+
+	const firstWeekContainsDate =
+		options?.firstWeekContainsDate ??
+		optionsLocale?.options?.firstWeekContainsDate ??
+		defaultOptions.firstWeekContainsDate ??
+		defaultOptions.locale?.options?.firstWeekContainsDate ??
+		1;
+
+	const weekStartsOn =
+		options?.weekStartsOn ??
+		optionsLocale?.options?.weekStartsOn ??
+		defaultOptions.weekStartsOn ??
+		defaultOptions.locale?.options?.weekStartsOn ??
+		0;
+
+	if (!locale.localize) {
+		throw new RangeError('locale must contain localize property');
+	}
+
+	if (!locale.formatLong) {
+		throw new RangeError('locale must contain formatLong property');
+	}
+
+	const numberingSystem =
+		options?.numberingSystem ?? defaultOptions.numberingSystem;
+
+	const customFormatters = options?.formatters;
+	if (customFormatters) {
+		validateCustomFormatters(customFormatters);
+	}
+
+	return {
+		locale,
+		firstWeekContainsDate,
+		weekStartsOn,
+		numberingSystem,
+		numeral: getNumeralFn(locale, numberingSystem),
+		useAdditionalWeekYearTokens: !!options?.useAdditionalWeekYearTokens,
+		useAdditionalDayOfYearTokens: !!options?.useAdditionalDayOfYearTokens,
+		useAdditionalMillisecondsInDayTokens: !!options?.useAdditionalMillisecondsInDayTokens,
+		useAdditionalWeekOfMonthTokens: !!options?.useAdditionalWeekOfMonthTokens,
+		customFormatters,
+	};
+}
+
+/**
+ * Tokenizes and validates the format string. `input` is the date mentioned
+ * in the protected token errors.
+ */
+export function compileTokens(
+	formatStr: string,
+	resolved: ResolvedFormatOptions,
+	input?: string,
+): CompiledToken[] {
+	return formatStr
+		.match(longFormattingTokensRegExp)!
+		.map(function (substring) {
+			const firstCharacter = substring[0];
+			if (firstCharacter === 'p' || firstCharacter === 'P') {
+				const longFormatter = longFormatters[firstCharacter];
+				return longFormatter(substring, resolved.locale.formatLong);
+			}
+			return substring;
+		})
+		.join('')
+		.match(formattingTokensRegExp)!
+		.map(function (substring): CompiledToken {
+			// Replace two single quote characters with one single quote character
+			if (substring === "''") {
+				return { token: substring, value: "'" };
+			}
+
+			const firstCharacter = substring[0];
+			if (firstCharacter === "'") {
+				return { token: substring, value: cleanEscapedString(substring) };
+			}
+
+			const formatter = formatters[firstCharacter] as Formatter | undefined;
+			if (formatter) {
+				if (
+					!resolved.useAdditionalWeekYearTokens &&
+					isProtectedWeekYearToken(substring)
+				) {
+					throwProtectedError(substring, formatStr, input);
+				}
+				if (
+					!resolved.useAdditionalDayOfYearTokens &&
+					isProtectedDayOfYearToken(substring)
+				) {
+					throwProtectedError(substring, formatStr, input);
+				}
+				if (
+					!resolved.useAdditionalMillisecondsInDayTokens &&
+					isProtectedMillisecondsInDayToken(substring)
+				) {
+					throwProtectedError(substring, formatStr, input);
+				}
+				if (
+					!resolved.useAdditionalWeekOfMonthTokens &&
+					isProtectedWeekOfMonthToken(substring)
+				) {
+					throwProtectedError(substring, formatStr, input);
+				}
+				return { token: substring, formatter, custom: false };
+			}
+
+			const customFormatter = resolved.customFormatters?.[firstCharacter];
+			if (customFormatter) {
+				return { token: substring, formatter: customFormatter, custom: true };
+			}
+
+			if (firstCharacter.match(unescapedLatinCharacterRegExp)) {
+				throw new RangeError(
+					'Format string contains an unescaped latin alphabet character `' +
+						firstCharacter +
+						'`',
+				);
+			}
+
+			return { token: substring, value: substring };
+		});
+}
+
+function isTimeZoneToken(compiledToken: CompiledToken): boolean {
+	return (
+		'formatter' in compiledToken &&
+		timeZoneTokenRegExp.test(compiledToken.token)
+	);
+}
+
+/**
+ * Returns the formatted values of the compiled tokens for the valid date.
+ */
+export function formatTokens(
+	tokens: CompiledToken[],
+	date: Date,
+	resolved: ResolvedFormatOptions,
+): string[] {
+	const { locale, numeral } = resolved;
+	const formatterOptions = {
+		firstWeekContainsDate: resolved.firstWeekContainsDate,
+		weekStartsOn: resolved.weekStartsOn,
+		locale,
+		_originalDate: date,
+		// The runtime time zone is looked up once per call, if any token needs it
+		_timeZoneId: tokens.some(isTimeZoneToken) ? getTimeZoneId() : undefined,
+	};
+
+	return tokens.map((compiledToken) =>
+		'formatter' in compiledToken
+			? numeral(
+					compiledToken.formatter(
+						date,
+						compiledToken.token,
+						locale.localize,
+						formatterOptions,
+					),
+			  )
+			: compiledToken.value,
+	);
+}
+
+/**
+ * Tokenizes and validates the format string once and returns the function
+ * that formats the valid dates.
+ */
+export function compileFormatter(
+	formatStr: string,
+	resolved: ResolvedFormatOptions,
+	input?: string,
+): (date: Date) => string {
+	const tokens = compileTokens(formatStr, resolved, input);
+	return (date) => formatTokens(tokens, date, resolved).join('');
+}
@@ -2,7 +2,9 @@ import getDayOfYear from '../../../getDayOfYear/index';
 import getISOWeek from '../../../getISOWeek/index';
 import getISOWeekYear from '../../../getISOWeekYear/index';
 import getWeek from '../../../getWeek/index';
+import getWeekOfMonth from '../../../getWeekOfMonth/index';
 import getWeekYear from '../../../getWeekYear/index';
+import { millisecondsInDay } from '../../../constants/index';
 import type { LocaleDayPeriod, Localize } from '../../../locale/types';
 import type {
 	Day,
@@ -16,6 +18,9 @@ import type {
 import addLeadingZeros from '../../addLeadingZeros/index';
 import lightFormatters from '../lightFormatters/index';
 
+// The modified Julian day of 1 January 1970
+const unixEpochModifiedJulianDay = 40587;
+
 const dayPeriodEnum = {
 	am: 'am',
 	pm: 'pm',
@@ -27,7 +32,7 @@ const dayPeriodEnum = {
 	night: 'night',
 } as const;
 
-type Formatter = (
+export type Formatter = (
 	date: Date,
 	token: string,
 	localize: Localize,
@@ -35,19 +40,56 @@ type Formatter = (
 		LocaleOptions & WeekStartOptions & FirstWeekContainsDateOptions
 	> & {
 		_originalDate: Date;
+		// The IANA time zone ID of the runtime, resolved once per formatting
+		_timeZoneId: string | undefined;
 	},
 ) => string;
 
+type TimeZoneNameStyle = 'short' | 'long' | 'shortGeneric' | 'longGeneric';
+
+// The formats of the time zone names by the time zone of the runtime,
+// the locale code and the style, `null` if the runtime doesn't support them.
+// The formats keep the time zone they are created in, so it's the part of the key.
+const timeZoneNameFormats: { [key: string]: Intl.DateTimeFormat | null } = {};
+
+// The time zone name of the runtime in the language of the locale, e.g. `PST`
+// or `Pacific Standard Time`. Returns undefined when the runtime lacks the data.
+function getTimeZoneName(
+	date: Date,
+	timeZoneId: string | undefined,
+	localeCode: string | undefined,
+	style: TimeZoneNameStyle,
+): string | undefined {
+	if (typeof Intl === 'undefined') {
+		return undefined;
+	}
+
+	const key = `${timeZoneId}|${localeCode}|${style}`;
+	if (!(key in timeZoneNameFormats)) {
+		try {
+			timeZoneNameFormats[key] = new Intl.DateTimeFormat(localeCode, {
+				timeZoneName: style,
+			} as Intl.DateTimeFormatOptions);
+		} catch (_) {
+			timeZoneNameFormats[key] = null;
+		}
+	}
+
+	return timeZoneNameFormats[key]
+		?.formatToParts(date)
+		.find((part) => part.type === 'timeZoneName')?.value;
+}
+
 /*
  * |     | Unit                           |     | Unit                           |
  * |-----|--------------------------------|-----|--------------------------------|
- * |  a  | AM, PM                         |  A* | Milliseconds in day            |
+ * |  a  | AM, PM                         |  A  | Milliseconds in day            |
  * |  b  | AM, PM, noon, midnight         |  B  | Flexible day period            |
  * |  c  | Stand-alone local day of week  |  C* | Localized hour w/ day period   |
  * |  d  | Day of month                   |  D  | Day of year                    |
  * |  e  | Local day of week              |  E  | Day of week                    |
- * |  f  |                                |  F* | Day of week in month           |
- * |  g* | Modified Julian day            |  G  | Era                            |
+ * |  f  |                                |  F  | Day of week in month           |
+ * |  g  | Modified Julian day            |  G  | Era                            |
  * |  h  | Hour [1-12]                    |  H  | Hour [0-23]                    |
  * |  i! | ISO day of week                |  I! | ISO week of year               |
  * |  j* | Localized hour w/ day period   |  J* | Localized hour w/o day period  |
@@ -58,15 +100,15 @@ type Formatter = (
  * |  o! | Ordinal number modifier        |  O  | Timezone (GMT)                 |
  * |  p! | Long localized time            |  P! | Long localized date            |
  * |  q  | Stand-alone quarter            |  Q  | Quarter                        |
- * |  r* | Related Gregorian year         |  R! | ISO week-numbering year        |
+ * |  r  | Related Gregorian year         |  R! | ISO week-numbering year        |
  * |  s  | Second                         |  S  | Fraction of second             |
  * |  t! | Seconds timestamp              |  T! | Milliseconds timestamp         |
- * |  u  | Extended year                  |  U* | Cyclic year                    |
- * |  v* | Timezone (generic non-locat.)  |  V* | Timezone (location)            |
- * |  w  | Local week of year             |  W* | Week of month                  |
+ * |  u  | Extended year                  |  U  | Cyclic year                    |
+ * |  v  | Timezone (generic non-locat.)  |  V  | Timezone (location)            |
+ * |  w  | Local week of year             |  W  | Week of month                  |
  * |  x  | Timezone (ISO-8601 w/o Z)      |  X  | Timezone (ISO-8601)            |
  * |  y  | Year (abs)                     |  Y  | Local week-numbering year      |
- * |  z  | Timezone (specific non-locat.) |  Z* | Timezone (aliases)             |
+ * |  z  | Timezone (specific non-locat.) |  Z  | Timezone (aliases)             |
  *
  * Letters marked by * are not implemented but reserved by Unicode standard.
  *
@@ -160,6 +202,19 @@ const formatters: { [token: string]: Formatter } = {
 		return addLeadingZeros(year, token.length);
 	},
 
+	// Cyclic year. The Gregorian calendar has no cyclic year names,
+	// so the numeric year is used like `y`
+	U (date, token) {
+		return lightFormatters.y(date, token.replace(/U/g, 'y'));
+	},
+
+	// Related Gregorian year. It's the same as the extended year
+	// in the Gregorian calendar
+	r (date, token) {
+		const year = date.getFullYear();
+		return addLeadingZeros(year, token.length);
+	},
+
 	// Quarter
 	Q (date, token, localize) {
 		const quarter = Math.ceil((date.getMonth() + 1) / 3) as Quarter;
@@ -313,6 +368,13 @@ const formatters: { [token: string]: Formatter } = {
 		return addLeadingZeros(isoWeek, token.length);
 	},
 
+	// Week of month
+	W (date, token, _localize, options) {
+		// `getWeekOfMonth` changes the given date
+		const weekOfMonth = getWeekOfMonth(new Date(date.getTime()), options);
+		return addLeadingZeros(weekOfMonth, token.length);
+	},
+
 	// Day of the month
 	d (date, token, localize) {
 		if (token === 'do') {
@@ -333,6 +395,21 @@ const formatters: { [token: string]: Formatter } = {
 		return addLeadingZeros(dayOfYear, token.length);
 	},
 
+	// Day of week in month, e.g. 2 for the second Wednesday of July
+	F (date, token) {
+		const dayOfWeekInMonth = Math.floor((date.getDate() - 1) / 7) + 1;
+		return addLeadingZeros(dayOfWeekInMonth, token.length);
+	},
+
+	// Modified Julian day, the number of days since 17 November 1858
+	g (date, token) {
+		const utcDate = new Date(0);
+		utcDate.setUTCFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+		const modifiedJulianDay =
+			utcDate.getTime() / millisecondsInDay + unixEpochModifiedJulianDay;
+		return addLeadingZeros(modifiedJulianDay, token.length);
+	},
+
 	// Day of week
 	E (date, token, localize) {
 		const dayOfWeek = date.getDay() as Day;
@@ -666,6 +743,15 @@ const formatters: { [token: string]: Formatter } = {
 		return lightFormatters.S(date, token);
 	},
 
+	// Milliseconds in day
+	A (date, token) {
+		const milliseconds =
+			((date.getHours() * 60 + date.getMinutes()) * 60 + date.getSeconds()) *
+				1000 +
+			date.getMilliseconds();
+		return addLeadingZeros(milliseconds, token.length);
+	},
+
 	// Timezone (ISO-8601. If offset is 0, output is always `'Z'`)
 	X (date, token, _localize, options) {
 		const originalDate = options._originalDate || date;
@@ -743,23 +829,104 @@ const formatters: { [token: string]: Formatter } = {
 	},
 
 	// Timezone (specific non-location)
+	// The names come from `Intl`, the GMT formats are the fallbacks
 	z (date, token, _localize, options) {
 		const originalDate = options._originalDate || date;
 		const timezoneOffset = originalDate.getTimezoneOffset();
+		const localeCode = options.locale.code;
+		const timeZoneId = options._timeZoneId;
 
 		switch (token) {
 			// Short
 			case 'z':
 			case 'zz':
 			case 'zzz':
-				return 'GMT' + formatTimezoneShort(timezoneOffset, ':');
+				return (
+					getTimeZoneName(originalDate, timeZoneId, localeCode, 'short') ??
+					'GMT' + formatTimezoneShort(timezoneOffset, ':')
+				);
 			// Long
 			case 'zzzz':
+			default:
+				return (
+					getTimeZoneName(originalDate, timeZoneId, localeCode, 'long') ??
+					'GMT' + formatTimezone(timezoneOffset, ':')
+				);
+		}
+	},
+
+	// Timezone (generic non-location)
+	// The names come from `Intl`, the GMT formats are the fallbacks
+	v (date, token, _localize, options) {
+		const originalDate = options._originalDate || date;
+		const timezoneOffset = originalDate.getTimezoneOffset();
+		const localeCode = options.locale.code;
+		const timeZoneId = options._timeZoneId;
+
+		switch (token) {
+			// Short
+			case 'v':
+				return (
+					getTimeZoneName(originalDate, timeZoneId, localeCode, 'shortGeneric') ??
+					'GMT' + formatTimezoneShort(timezoneOffset, ':')
+				);
+			// Long
+			case 'vvvv':
+			default:
+				return (
+					getTimeZoneName(originalDate, timeZoneId, localeCode, 'longGeneric') ??
+					'GMT' + formatTimezone(timezoneOffset, ':')
+				);
+		}
+	},
+
+	// Timezone (location)
+	V (date, token, _localize, options) {
+		const originalDate = options._originalDate || date;
+		const timezoneOffset = originalDate.getTimezoneOffset();
+		const timeZoneId = options._timeZoneId;
+
+		switch (token) {
+			// Short time zone ID. The BCP 47 IDs are not available
+			case 'V':
+				return 'unk';
+			// Long time zone ID, e.g. America/Los_Angeles
+			case 'VV':
+				return timeZoneId ?? 'GMT' + formatTimezone(timezoneOffset, ':');
+			// Exemplar city, e.g. Los Angeles
+			case 'VVV':
+				return timeZoneId?.includes('/')
+					? timeZoneId.split('/').pop()!.replace(/_/g, ' ')
+					: 'Unknown City';
+			// Generic location format. The names are not available,
+			// so it falls back to the GMT format
+			case 'VVVV':
 			default:
 				return 'GMT' + formatTimezone(timezoneOffset, ':');
 		}
 	},
 
+	// Timezone (ISO-8601 basic, GMT or ISO-8601 extended)
+	Z (date, token, _localize, options) {
+		const originalDate = options._originalDate || date;
+		const timezoneOffset = originalDate.getTimezoneOffset();
+
+		switch (token) {
+			// Long localized GMT format
+			case 'ZZZZ':
+				return 'GMT' + formatTimezone(timezoneOffset, ':');
+			// ISO-8601 extended format. If offset is 0, output is `'Z'`
+			case 'ZZZZZ':
+				return timezoneOffset === 0 ? 'Z' : formatTimezone(timezoneOffset, ':');
+			// ISO-8601 basic format
+			case 'Z':
+			case 'ZZ':
+			case 'ZZZ':
+			default:
+				return formatTimezone(timezoneOffset);
+		}
+	},
+
 	// Seconds timestamp
 	t (date, token, _localize, options) {
 		const originalDate = options._originalDate || date;
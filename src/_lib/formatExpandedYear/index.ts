@@ -0,0 +1,21 @@
+import addLeadingZeros from '../addLeadingZeros/index';
+
+/**
+ * Formats the signed ISO 8601 expanded year, e.g. `+002024` or `-000044`
+ * for 2 additional digits. The year 0 is `+000000`.
+ */
+export default function formatExpandedYear(
+	year: number,
+	additionalDigits: number,
+): string {
+	const digits = 4 + additionalDigits;
+	const absoluteYear = Math.abs(year);
+
+	if (absoluteYear >= Math.pow(10, digits)) {
+		throw new RangeError(
+			`The year ${year} doesn't fit in ${digits} digits of the expanded year`,
+		);
+	}
+
+	return (year < 0 ? '-' : '+') + addLeadingZeros(absoluteYear, digits);
+}
@@ -0,0 +1,43 @@
+import type {
+	Day,
+	FirstWeekContainsDateOptions,
+	WeekStartOptions,
+} from '../../types';
+
+interface IntlWeekInfo {
+	firstDay: number;
+	minimalDays: number;
+}
+
+type IntlLocaleWithWeekInfo = Intl.Locale & {
+	weekInfo?: IntlWeekInfo;
+	getWeekInfo?: () => IntlWeekInfo;
+};
+
+/**
+ * Reads the week settings of the given locale tag from `Intl.Locale`
+ * week info. Returns an empty object when the runtime doesn't expose it.
+ */
+export default function getIntlWeekInfo(
+	tag: string,
+): WeekStartOptions & FirstWeekContainsDateOptions {
+	if (typeof Intl === 'undefined' || typeof Intl.Locale !== 'function') {
+		return {};
+	}
+
+	const locale = new Intl.Locale(tag) as IntlLocaleWithWeekInfo;
+	const weekInfo =
+		typeof locale.getWeekInfo === 'function'
+			? locale.getWeekInfo()
+			: locale.weekInfo;
+
+	if (!weekInfo) {
+		return {};
+	}
+
+	return {
+		// `Intl` week days are 1 (Monday) to 7 (Sunday)
+		weekStartsOn: (weekInfo.firstDay % 7) as Day,
+		firstWeekContainsDate: weekInfo.minimalDays >= 4 ? 4 : 1,
+	};
+}
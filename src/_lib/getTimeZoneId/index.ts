@@ -0,0 +1,28 @@
+// Resolving the time zone creates an `Intl.DateTimeFormat`, which is slow,
+// so the ID is cached until the offsets of the runtime time zone change
+const januaryDate = new Date(Date.UTC(2000, 0, 1));
+const julyDate = new Date(Date.UTC(2000, 6, 1));
+let cachedOffsets: string | undefined;
+let cachedTimeZoneId: string | undefined;
+
+/**
+ * Returns the IANA time zone ID of the runtime, e.g. `America/Los_Angeles`,
+ * or undefined when the runtime doesn't expose it.
+ *
+ * The ID is looked up again only when the winter or the summer offset
+ * of the runtime changes, so switching between the time zones
+ * with the same offsets isn't noticed.
+ */
+export default function getTimeZoneId(): string | undefined {
+	if (typeof Intl === 'undefined') {
+		return undefined;
+	}
+
+	const offsets = `${januaryDate.getTimezoneOffset()}|${julyDate.getTimezoneOffset()}`;
+	if (offsets !== cachedOffsets) {
+		cachedOffsets = offsets;
+		cachedTimeZoneId =
+			Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+	}
+	return cachedTimeZoneId;
+}
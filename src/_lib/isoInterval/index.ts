@@ -0,0 +1,132 @@
+import { add } from '../../add-functions';
+import parseISO from '../../parseISO/index';
+import type { ParseISOOptions } from '../../parseISO/index';
+import parseISODuration from '../../parseISODuration/index';
+import type { Duration, DurationUnit } from '../../types';
+
+/**
+ * The parts of an ISO 8601 interval as written: two of the start,
+ * the end and the duration.
+ */
+export interface ISOIntervalParts {
+	start?: Date;
+	end?: Date;
+	duration?: Duration;
+}
+
+// The interval designators: `/` and the alternative `--`
+const intervalSeparatorRegExp = /\/|--/;
+
+const timezoneRegExp = /(Z|[+-]\d{2}(?::?\d{2})?)$/i;
+
+export function throwInvalidInterval(intervalString: string): never {
+	throw new RangeError(`Invalid ISO 8601 interval \`${intervalString}\``);
+}
+
+/**
+ * Multiplies every component of the duration, e.g. by `-1` to subtract it.
+ */
+export function scaleDuration(duration: Duration, factor: number): Duration {
+	return (Object.keys(duration) as DurationUnit[]).reduce<Duration>(
+		(result, unit) => {
+			// Avoid -0 in the negated durations
+			result[unit] = (duration[unit] ?? 0) * factor || 0;
+			return result;
+		},
+		{},
+	);
+}
+
+/**
+ * Adds the duration to a copy of the date (`add` changes the date passed to it).
+ */
+export function addDuration(date: Date, duration: Duration): Date {
+	return add(new Date(date.getTime()), duration);
+}
+
+// Completes the abbreviated end (e.g. `15` or `03-01T12:00` or `17:00`)
+// with the higher order components of the start
+function completeEnd(startString: string, endString: string): string {
+	const [startDate, startTime = ''] = startString.split('T');
+	const isTimeOnly = endString.indexOf('T') === -1 && /:/.test(endString);
+	const [endDate, endTime] = isTimeOnly
+		? ['', endString]
+		: endString.split('T');
+
+	const date =
+		endDate.length < startDate.length
+			? startDate.slice(0, startDate.length - endDate.length) + endDate
+			: endDate;
+
+	if (endTime === undefined) {
+		return date;
+	}
+
+	// The end time is in the time zone of the start unless it has its own
+	const startTimezone = startTime.match(timezoneRegExp);
+	const time =
+		startTimezone && !timezoneRegExp.test(endTime)
+			? endTime + startTimezone[0]
+			: endTime;
+	return `${date}T${time}`;
+}
+
+function parseDate(
+	dateString: string,
+	intervalString: string,
+	options: ParseISOOptions | undefined,
+): Date {
+	const date = parseISO(dateString, options);
+	if (isNaN(date.getTime())) {
+		throwInvalidInterval(intervalString);
+	}
+	return date;
+}
+
+function parseDuration(durationString: string, intervalString: string) {
+	try {
+		return parseISODuration(durationString);
+	} catch (_) {
+		return throwInvalidInterval(intervalString);
+	}
+}
+
+const isDurationString = (value: string) => /^[-+]?P/.test(value);
+
+/**
+ * Parses `start/end`, `start/duration`, `duration/end` and the abbreviated
+ * `start/end` forms. Throws `RangeError` for the other strings.
+ */
+export function parseISOIntervalParts(
+	intervalString: string,
+	options?: ParseISOOptions,
+): ISOIntervalParts {
+	const parts = intervalString.split(intervalSeparatorRegExp);
+	if (parts.length !== 2 || !parts[0] || !parts[1]) {
+		throwInvalidInterval(intervalString);
+	}
+
+	const [first, second] = parts;
+	const isFirstDuration = isDurationString(first);
+	const isSecondDuration = isDurationString(second);
+
+	if (isFirstDuration && isSecondDuration) {
+		throwInvalidInterval(intervalString);
+	}
+	if (isFirstDuration) {
+		return {
+			duration: parseDuration(first, intervalString),
+			end: parseDate(second, intervalString, options),
+		};
+	}
+	if (isSecondDuration) {
+		return {
+			start: parseDate(first, intervalString, options),
+			duration: parseDuration(second, intervalString),
+		};
+	}
+	return {
+		start: parseDate(first, intervalString, options),
+		end: parseDate(completeEnd(first, second), intervalString, options),
+	};
+}
@@ -0,0 +1,132 @@
+import type { Locale } from '../../locale/types';
+import defaultLocale from '../defaultLocale/index';
+
+export type LocaleLoader = () => Promise<Locale | { default: Locale }>;
+
+interface LocaleRegistryEntry {
+	loader: LocaleLoader;
+	locale?: Locale;
+	promise?: Promise<Locale>;
+}
+
+let registry: { [tag: string]: LocaleRegistryEntry } = {};
+
+function getBaseName(tag: string): string {
+	return new Intl.Locale(tag).baseName;
+}
+
+// The tag and its prefixes without the trailing singletons,
+// e.g. `zh-Hant-TW`, `zh-Hant`, `zh`
+function getPrefixes(baseName: string): string[] {
+	const subtags = baseName.split('-');
+	return subtags
+		.map((_, index) => subtags.slice(0, subtags.length - index).join('-'))
+		.filter((prefix) => prefix.split('-').pop()!.length > 1);
+}
+
+/**
+ * Finds the registered tag that best fits the requested one: the tag itself
+ * or its prefix, then the prefix of its likely form (e.g. `zh-TW` matches
+ * `zh-Hant`), then any registered tag of the same language and script.
+ */
+export function matchRegisteredTag(tag: string): string | undefined {
+	const baseName = getBaseName(tag);
+	const maximized = new Intl.Locale(baseName).maximize();
+	const candidates = getPrefixes(baseName).concat(
+		getPrefixes(maximized.baseName),
+	);
+
+	const registeredTags = Object.keys(registry);
+	const exact = candidates.find((candidate) => registry[candidate]);
+	if (exact) {
+		return exact;
+	}
+
+	const sameScript = registeredTags.filter((registeredTag) => {
+		const registeredMaximized = new Intl.Locale(registeredTag).maximize();
+		return (
+			registeredMaximized.language === maximized.language &&
+			registeredMaximized.script === maximized.script
+		);
+	});
+	return (
+		sameScript.find(
+			(registeredTag) =>
+				new Intl.Locale(registeredTag).maximize().baseName ===
+				maximized.baseName,
+		) ?? sameScript[0]
+	);
+}
+
+export function registerLocaleLoader(
+	tag: string,
+	loader: LocaleLoader | Locale,
+): void {
+	registry[getBaseName(tag)] =
+		typeof loader === 'function'
+			? { loader }
+			: { loader: () => Promise.resolve(loader), locale: loader };
+}
+
+export function loadLocale(tag: string): Promise<Locale> {
+	const registeredTag = matchRegisteredTag(tag);
+	if (!registeredTag) {
+		return Promise.reject(
+			new RangeError(`No locale is registered for \`${tag}\``),
+		);
+	}
+
+	const entry = registry[registeredTag];
+	if (entry.locale) {
+		return Promise.resolve(entry.locale);
+	}
+
+	if (!entry.promise) {
+		entry.promise = entry.loader().then(
+			(module) => {
+				const locale =
+					(module as { default?: Locale }).default ?? (module as Locale);
+				entry.locale = locale;
+				return locale;
+			},
+			(error) => {
+				// Let the next call try again
+				entry.promise = undefined;
+				throw error;
+			},
+		);
+	}
+	return entry.promise;
+}
+
+export function getLoadedLocale(tag: string): Locale {
+	const registeredTag = matchRegisteredTag(tag);
+	const locale = registeredTag && registry[registeredTag].locale;
+	if (!locale) {
+		throw new RangeError(
+			`Locale \`${tag}\` is not loaded; load it with resolveLocale first`,
+		);
+	}
+	return locale;
+}
+
+/**
+ * Returns the locale object of the `locale` option, which is either
+ * the locale itself or the tag of a loaded registered locale.
+ */
+export function getOptionsLocale(
+	locale: Locale | string | undefined,
+): Locale | undefined {
+	return typeof locale === 'string' ? getLoadedLocale(locale) : locale;
+}
+
+export function resetLocaleRegistry(): void {
+	registry = {
+		[defaultLocale.code]: {
+			loader: () => Promise.resolve(defaultLocale),
+			locale: defaultLocale,
+		},
+	};
+}
+
+resetLocaleRegistry();
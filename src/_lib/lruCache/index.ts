@@ -0,0 +1,37 @@
+export interface LRUCache<Value> {
+	get(key: string): Value | undefined;
+	set(key: string, value: Value): void;
+	clear(): void;
+}
+
+/**
+ * Creates the cache that keeps the given number of the most recently used
+ * values. `Map` iterates in the insertion order, so the first key is always
+ * the least recently used one.
+ */
+export function createLRUCache<Value>(maxSize: number): LRUCache<Value> {
+	const entries = new Map<string, Value>();
+
+	return {
+		get(key) {
+			const value = entries.get(key);
+			if (value !== undefined) {
+				entries.delete(key);
+				entries.set(key, value);
+			}
+			return value;
+		},
+
+		set(key, value) {
+			entries.delete(key);
+			entries.set(key, value);
+			if (entries.size > maxSize) {
+				entries.delete(entries.keys().next().value);
+			}
+		},
+
+		clear() {
+			entries.clear();
+		},
+	};
+}
@@ -0,0 +1,52 @@
+import type { Locale } from '../../locale/types';
+
+export type NumeralFn = (value: string) => string;
+
+const asciiDigitRegExp = /[0-9]/g;
+
+const identity: NumeralFn = (value) => value;
+
+const numeralFns: { [numberingSystem: string]: NumeralFn } = {
+	latn: identity,
+};
+
+/**
+ * Builds the function that replaces the ASCII digits of a string with
+ * the digits of the given Unicode numbering system (e.g. `arab`, `deva`).
+ */
+export function buildNumeralFn(numberingSystem: string): NumeralFn {
+	const cached = numeralFns[numberingSystem];
+	if (cached) {
+		return cached;
+	}
+
+	const numberFormat = new Intl.NumberFormat('en-u-nu-' + numberingSystem, {
+		useGrouping: false,
+	});
+	if (numberFormat.resolvedOptions().numberingSystem !== numberingSystem) {
+		throw new RangeError(`Invalid numbering system \`${numberingSystem}\``);
+	}
+
+	const digits = Array.from({ length: 10 }, (_, digit) =>
+		numberFormat.format(digit),
+	);
+	const numeralFn: NumeralFn = (value) =>
+		value.replace(asciiDigitRegExp, (digit) => digits[Number(digit)]);
+
+	numeralFns[numberingSystem] = numeralFn;
+	return numeralFn;
+}
+
+/**
+ * Returns the function applied to the numbers in the formatted output:
+ * the explicit numbering system takes priority over `locale.localize.numeral`.
+ */
+export function getNumeralFn(
+	locale: Locale,
+	numberingSystem: string | undefined,
+): NumeralFn {
+	if (numberingSystem) {
+		return buildNumeralFn(numberingSystem);
+	}
+	return locale.localize?.numeral ?? identity;
+}
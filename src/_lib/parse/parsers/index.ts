@@ -0,0 +1,1091 @@
+import constructFrom from '../../../constructFrom/index';
+import {
+	millisecondsInHour,
+	millisecondsInMinute,
+	millisecondsInSecond,
+} from '../../../constants/index';
+import getISOWeek from '../../../getISOWeek/index';
+import getWeek from '../../../getWeek/index';
+import getWeekYear from '../../../getWeekYear/index';
+import isLeapYear from '../../../isLeapYear/index';
+import type {
+	LocaleDayPeriod,
+	Match,
+	MatchResult,
+} from '../../../locale/types';
+import startOfISOWeek from '../../../startOfISOWeek/index';
+import startOfWeek from '../../../startOfWeek/index';
+import type {
+	Day,
+	Era,
+	FirstWeekContainsDateOptions,
+	LocaleOptions,
+	WeekStartOptions,
+} from '../../../types';
+import getTimezoneOffsetInMilliseconds from '../../getTimezoneOffsetInMilliseconds/index';
+
+export type ParserOptions = Required<
+	LocaleOptions & WeekStartOptions & FirstWeekContainsDateOptions
+>;
+
+export interface ParseFlags {
+	timestampIsSet?: boolean;
+	era?: number;
+}
+
+export type ParseResult<Value> = MatchResult<Value> | null;
+
+export interface Parser<Value> {
+	/** The setters are applied from the highest priority to the lowest */
+	priority: number;
+	/** Decides which setter of the same priority is applied */
+	subPriority?: number;
+	/** The tokens that can't be used together with this one, `*` for all */
+	incompatibleTokens: string[] | '*';
+	parse(
+		dateString: string,
+		token: string,
+		match: Match,
+		options: ParserOptions,
+	): ParseResult<Value>;
+	validate?(date: Date, value: Value, options: ParserOptions): boolean;
+	set(
+		date: Date,
+		flags: ParseFlags,
+		value: Value,
+		options: ParserOptions,
+	): Date | [Date, ParseFlags];
+}
+
+interface YearValue {
+	year: number;
+	isTwoDigitYear: boolean;
+}
+
+const numericPatterns = {
+	month: /^(1[0-2]|0?\d)/, // 0 to 12
+	date: /^(3[0-1]|[0-2]?\d)/, // 0 to 31
+	dayOfYear: /^(36[0-6]|3[0-5]\d|[0-2]?\d?\d)/, // 0 to 366
+	week: /^(5[0-3]|[0-4]?\d)/, // 0 to 53
+	hour23h: /^(2[0-3]|[0-1]?\d)/, // 0 to 23
+	hour24h: /^(2[0-4]|[0-1]?\d)/, // 0 to 24
+	hour11h: /^(1[0-1]|0?\d)/, // 0 to 11
+	hour12h: /^(1[0-2]|0?\d)/, // 0 to 12
+	minute: /^[0-5]?\d/, // 0 to 59
+	second: /^[0-5]?\d/, // 0 to 59
+
+	singleDigit: /^\d/, // 0 to 9
+	twoDigits: /^\d{1,2}/, // 0 to 99
+	threeDigits: /^\d{1,3}/, // 0 to 999
+	fourDigits: /^\d{1,4}/, // 0 to 9999
+
+	anyDigitsSigned: /^-?\d+/,
+	singleDigitSigned: /^-?\d/, // 0 to 9, -0 to -9
+	twoDigitsSigned: /^-?\d{1,2}/, // 0 to 99, -0 to -99
+	threeDigitsSigned: /^-?\d{1,3}/, // 0 to 999, -0 to -999
+	fourDigitsSigned: /^-?\d{1,4}/, // 0 to 9999, -0 to -9999
+};
+
+const timezonePatterns = {
+	basicOptionalMinutes: /^([+-])(\d{2})(\d{2})?|Z/,
+	basic: /^([+-])(\d{2})(\d{2})|Z/,
+	basicOptionalSeconds: /^([+-])(\d{2})(\d{2})((\d{2}))?|Z/,
+	extended: /^([+-])(\d{2}):(\d{2})|Z/,
+	extendedOptionalSeconds: /^([+-])(\d{2}):(\d{2})(:(\d{2}))?|Z/,
+};
+
+const daysInMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const daysInMonthLeapYear = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function mapValue<Value, Result>(
+	parseResult: ParseResult<Value>,
+	mapFn: (value: Value) => Result,
+): ParseResult<Result> {
+	if (!parseResult) {
+		return parseResult;
+	}
+	return { value: mapFn(parseResult.value), rest: parseResult.rest };
+}
+
+function parseNumericPattern(
+	pattern: RegExp,
+	dateString: string,
+): ParseResult<number> {
+	const matchResult = dateString.match(pattern);
+	if (!matchResult) {
+		return null;
+	}
+	return {
+		value: parseInt(matchResult[0], 10),
+		rest: dateString.slice(matchResult[0].length),
+	};
+}
+
+function parseTimezonePattern(
+	pattern: RegExp,
+	dateString: string,
+): ParseResult<number> {
+	const matchResult = dateString.match(pattern);
+	if (!matchResult) {
+		return null;
+	}
+
+	// Input is 'Z'
+	if (matchResult[0] === 'Z') {
+		return { value: 0, rest: dateString.slice(1) };
+	}
+
+	const sign = matchResult[1] === '+' ? 1 : -1;
+	const hours = matchResult[2] ? parseInt(matchResult[2], 10) : 0;
+	const minutes = matchResult[3] ? parseInt(matchResult[3], 10) : 0;
+	const seconds = matchResult[5] ? parseInt(matchResult[5], 10) : 0;
+
+	return {
+		value:
+			sign *
+			(hours * millisecondsInHour +
+				minutes * millisecondsInMinute +
+				seconds * millisecondsInSecond),
+		rest: dateString.slice(matchResult[0].length),
+	};
+}
+
+function parseNDigits(n: number, dateString: string): ParseResult<number> {
+	switch (n) {
+		case 1:
+			return parseNumericPattern(numericPatterns.singleDigit, dateString);
+		case 2:
+			return parseNumericPattern(numericPatterns.twoDigits, dateString);
+		case 3:
+			return parseNumericPattern(numericPatterns.threeDigits, dateString);
+		case 4:
+			return parseNumericPattern(numericPatterns.fourDigits, dateString);
+		default:
+			return parseNumericPattern(new RegExp('^\\d{1,' + n + '}'), dateString);
+	}
+}
+
+function parseNDigitsSigned(
+	n: number,
+	dateString: string,
+): ParseResult<number> {
+	switch (n) {
+		case 1:
+			return parseNumericPattern(numericPatterns.singleDigitSigned, dateString);
+		case 2:
+			return parseNumericPattern(numericPatterns.twoDigitsSigned, dateString);
+		case 3:
+			return parseNumericPattern(numericPatterns.threeDigitsSigned, dateString);
+		case 4:
+			return parseNumericPattern(numericPatterns.fourDigitsSigned, dateString);
+		default:
+			return parseNumericPattern(new RegExp('^-?\\d{1,' + n + '}'), dateString);
+	}
+}
+
+function dayPeriodEnumToHours(dayPeriod: LocaleDayPeriod): number {
+	switch (dayPeriod) {
+		case 'morning':
+			return 4;
+		case 'evening':
+			return 17;
+		case 'pm':
+		case 'noon':
+		case 'afternoon':
+			return 12;
+		case 'am':
+		case 'midnight':
+		case 'night':
+		default:
+			return 0;
+	}
+}
+
+// Picks the year of the century closest to the current year,
+// e.g. `30` is 2030 and `80` is 1980 if the current year is 2017
+function normalizeTwoDigitYear(
+	twoDigitYear: number,
+	currentYear: number,
+): number {
+	const isCommonEra = currentYear > 0;
+	// Absolute number of the current year:
+	// 1 -> 1 AC
+	// 0 -> 1 BC
+	// -1 -> 2 BC
+	const absCurrentYear = isCommonEra ? currentYear : 1 - currentYear;
+
+	let result;
+	if (absCurrentYear <= 50) {
+		result = twoDigitYear || 100;
+	} else {
+		const rangeEnd = absCurrentYear + 50;
+		const rangeEndCentury = Math.trunc(rangeEnd / 100) * 100;
+		const isPreviousCentury = twoDigitYear >= rangeEnd % 100;
+		result = twoDigitYear + rangeEndCentury - (isPreviousCentury ? 100 : 0);
+	}
+
+	return isCommonEra ? result : 1 - result;
+}
+
+// The week helpers change the date passed to them, so they get a copy
+const cloneDate = (date: Date) => constructFrom(date, date.getTime());
+
+function setLocalDay(date: Date, day: number, weekStartsOn: Day): Date {
+	const currentDay = date.getDay();
+	const dayIndex = ((day % 7) + 7) % 7;
+	const delta = 7 - weekStartsOn;
+	const diff =
+		day < 0 || day > 6
+			? day - ((currentDay + delta) % 7)
+			: ((dayIndex + delta) % 7) - ((currentDay + delta) % 7);
+	date.setDate(date.getDate() + diff);
+	return date;
+}
+
+function setStartOfDay(date: Date): Date {
+	date.setHours(0, 0, 0, 0);
+	return date;
+}
+
+function parseYear(
+	dateString: string,
+	token: string,
+	match: Match,
+): ParseResult<YearValue> {
+	const valueCallback = (year: number) => ({
+		year,
+		isTwoDigitYear: token === 'yy' || token === 'YY',
+	});
+
+	switch (token) {
+		case 'y':
+		case 'Y':
+			return mapValue(parseNDigits(4, dateString), valueCallback);
+		case 'yo':
+		case 'Yo':
+			return mapValue(match.ordinalNumber(dateString), valueCallback);
+		default:
+			return mapValue(parseNDigits(token.length, dateString), valueCallback);
+	}
+}
+
+function parseQuarter(
+	dateString: string,
+	token: string,
+	match: Match,
+): ParseResult<number> {
+	switch (token.length) {
+		// 1, 2, 3, 4
+		case 1:
+		case 2:
+			return parseNDigits(token.length, dateString);
+		// Q1, Q2, Q3, Q4
+		case 3:
+			return (
+				match.quarter(dateString, { width: 'abbreviated' }) ||
+				match.quarter(dateString, { width: 'narrow' })
+			);
+		// 1, 2, 3, 4 (narrow quarter; could be not numerical)
+		case 5:
+			return match.quarter(dateString, { width: 'narrow' });
+		// 1st quarter, 2nd quarter, ...
+		case 4:
+		default:
+			return (
+				match.quarter(dateString, { width: 'wide' }) ||
+				match.quarter(dateString, { width: 'abbreviated' }) ||
+				match.quarter(dateString, { width: 'narrow' })
+			);
+	}
+}
+
+function parseMonth(
+	dateString: string,
+	token: string,
+	match: Match,
+): ParseResult<number> {
+	const valueCallback = (value: number) => value - 1;
+
+	switch (token.length) {
+		// 1, 2, ..., 12
+		case 1:
+			return mapValue(
+				parseNumericPattern(numericPatterns.month, dateString),
+				valueCallback,
+			);
+		// 01, 02, ..., 12
+		case 2:
+			return mapValue(parseNDigits(2, dateString), valueCallback);
+		// Jan, Feb, ..., Dec
+		case 3:
+			return (
+				match.month(dateString, { width: 'abbreviated' }) ||
+				match.month(dateString, { width: 'narrow' })
+			);
+		// J, F, ..., D
+		case 5:
+			return match.month(dateString, { width: 'narrow' });
+		// January, February, ..., December
+		case 4:
+		default:
+			return (
+				match.month(dateString, { width: 'wide' }) ||
+				match.month(dateString, { width: 'abbreviated' }) ||
+				match.month(dateString, { width: 'narrow' })
+			);
+	}
+}
+
+function parseDayName(
+	dateString: string,
+	token: string,
+	match: Match,
+): ParseResult<number> {
+	switch (token.length) {
+		// Tue
+		case 3:
+			return (
+				match.day(dateString, { width: 'abbreviated' }) ||
+				match.day(dateString, { width: 'short' }) ||
+				match.day(dateString, { width: 'narrow' })
+			);
+		// T
+		case 5:
+			return match.day(dateString, { width: 'narrow' });
+		// Tu
+		case 6:
+			return (
+				match.day(dateString, { width: 'short' }) ||
+				match.day(dateString, { width: 'narrow' })
+			);
+		// Tuesday
+		case 4:
+		default:
+			return (
+				match.day(dateString, { width: 'wide' }) ||
+				match.day(dateString, { width: 'abbreviated' }) ||
+				match.day(dateString, { width: 'short' }) ||
+				match.day(dateString, { width: 'narrow' })
+			);
+	}
+}
+
+function parseDayPeriod(
+	dateString: string,
+	token: string,
+	match: Match,
+): ParseResult<LocaleDayPeriod> {
+	switch (token.length) {
+		case 5:
+			return match.dayPeriod(dateString, { width: 'narrow' });
+		case 4:
+			return (
+				match.dayPeriod(dateString, { width: 'wide' }) ||
+				match.dayPeriod(dateString, { width: 'abbreviated' }) ||
+				match.dayPeriod(dateString, { width: 'narrow' })
+			);
+		default:
+			return (
+				match.dayPeriod(dateString, { width: 'abbreviated' }) ||
+				match.dayPeriod(dateString, { width: 'narrow' })
+			);
+	}
+}
+
+function parseNumber(
+	dateString: string,
+	token: string,
+	match: Match,
+	pattern: RegExp,
+): ParseResult<number> {
+	if (token.length === 2 && token[1] === 'o') {
+		return match.ordinalNumber(dateString);
+	}
+	if (token.length === 1) {
+		return parseNumericPattern(pattern, dateString);
+	}
+	return parseNDigits(token.length, dateString);
+}
+
+function parseTimezone(dateString: string, token: string): ParseResult<number> {
+	switch (token.length) {
+		// Hours and optional minutes
+		case 1:
+			return parseTimezonePattern(
+				timezonePatterns.basicOptionalMinutes,
+				dateString,
+			);
+		// Hours, minutes and optional seconds without `:` delimiter
+		case 2:
+			return parseTimezonePattern(timezonePatterns.basic, dateString);
+		case 4:
+			return parseTimezonePattern(
+				timezonePatterns.basicOptionalSeconds,
+				dateString,
+			);
+		// Hours, minutes and optional seconds with `:` delimiter
+		case 5:
+			return parseTimezonePattern(
+				timezonePatterns.extendedOptionalSeconds,
+				dateString,
+			);
+		// Hours and minutes with `:` delimiter
+		case 3:
+		default:
+			return parseTimezonePattern(timezonePatterns.extended, dateString);
+	}
+}
+
+const isBetween = (value: number, min: number, max: number) =>
+	value >= min && value <= max;
+
+const eraParser: Parser<Era> = {
+	priority: 140,
+	incompatibleTokens: ['R', 'u', 't', 'T'],
+	parse(dateString, token, match) {
+		switch (token) {
+			// AD, BC
+			case 'G':
+			case 'GG':
+			case 'GGG':
+				return (
+					match.era(dateString, { width: 'abbreviated' }) ||
+					match.era(dateString, { width: 'narrow' })
+				);
+			// A, B
+			case 'GGGGG':
+				return match.era(dateString, { width: 'narrow' });
+			// Anno Domini, Before Christ
+			case 'GGGG':
+			default:
+				return (
+					match.era(dateString, { width: 'wide' }) ||
+					match.era(dateString, { width: 'abbreviated' }) ||
+					match.era(dateString, { width: 'narrow' })
+				);
+		}
+	},
+	set(date, flags, value) {
+		flags.era = value;
+		date.setFullYear(value, 0, 1);
+		return setStartOfDay(date);
+	},
+};
+
+const yearParser: Parser<YearValue> = {
+	priority: 130,
+	incompatibleTokens: ['Y', 'R', 'u', 'w', 'I', 'i', 'e', 'c', 't', 'T'],
+	parse: parseYear,
+	validate: (_date, value) => value.isTwoDigitYear || value.year > 0,
+	set(date, flags, value) {
+		const currentYear = date.getFullYear();
+
+		if (value.isTwoDigitYear) {
+			date.setFullYear(normalizeTwoDigitYear(value.year, currentYear), 0, 1);
+			return setStartOfDay(date);
+		}
+
+		const year =
+			!('era' in flags) || flags.era === 1 ? value.year : 1 - value.year;
+		date.setFullYear(year, 0, 1);
+		return setStartOfDay(date);
+	},
+};
+
+const localWeekYearParser: Parser<YearValue> = {
+	priority: 130,
+	incompatibleTokens: [
+		'y',
+		'R',
+		'u',
+		'Q',
+		'q',
+		'M',
+		'L',
+		'I',
+		'd',
+		'D',
+		'i',
+		't',
+		'T',
+	],
+	parse: parseYear,
+	validate: (_date, value) => value.isTwoDigitYear || value.year > 0,
+	set(date, flags, value, options) {
+		const currentYear = getWeekYear(cloneDate(date), options);
+
+		if (value.isTwoDigitYear) {
+			date.setFullYear(
+				normalizeTwoDigitYear(value.year, currentYear),
+				0,
+				options.firstWeekContainsDate,
+			);
+			return startOfWeek(setStartOfDay(date), options);
+		}
+
+		const year =
+			!('era' in flags) || flags.era === 1 ? value.year : 1 - value.year;
+		date.setFullYear(year, 0, options.firstWeekContainsDate);
+		return startOfWeek(setStartOfDay(date), options);
+	},
+};
+
+const isoWeekYearParser: Parser<number> = {
+	priority: 130,
+	incompatibleTokens: [
+		'G',
+		'y',
+		'Y',
+		'u',
+		'Q',
+		'q',
+		'M',
+		'L',
+		'w',
+		'd',
+		'D',
+		'e',
+		'c',
+		't',
+		'T',
+	],
+	parse: (dateString, token) =>
+		parseNDigitsSigned(token === 'R' ? 4 : token.length, dateString),
+	set(date, _flags, value) {
+		date.setFullYear(value, 0, 4);
+		return startOfISOWeek(setStartOfDay(date));
+	},
+};
+
+const extendedYearParser: Parser<number> = {
+	priority: 130,
+	incompatibleTokens: ['G', 'y', 'Y', 'R', 'w', 'I', 'i', 'e', 'c', 't', 'T'],
+	parse: (dateString, token) =>
+		parseNDigitsSigned(token === 'u' ? 4 : token.length, dateString),
+	set(date, _flags, value) {
+		date.setFullYear(value, 0, 1);
+		return setStartOfDay(date);
+	},
+};
+
+const quarterParser = (incompatibleTokens: string[]): Parser<number> => ({
+	priority: 120,
+	incompatibleTokens,
+	parse(dateString, token, match) {
+		if (token.length === 2 && token[1] === 'o') {
+			return match.ordinalNumber(dateString);
+		}
+		return parseQuarter(dateString, token, match);
+	},
+	validate: (_date, value) => isBetween(value, 1, 4),
+	set(date, _flags, value) {
+		date.setMonth((value - 1) * 3, 1);
+		return setStartOfDay(date);
+	},
+});
+
+const monthParser = (incompatibleTokens: string[]): Parser<number> => ({
+	priority: 110,
+	incompatibleTokens,
+	parse(dateString, token, match) {
+		if (token.length === 2 && token[1] === 'o') {
+			return mapValue(match.ordinalNumber(dateString), (value) => value - 1);
+		}
+		return parseMonth(dateString, token, match);
+	},
+	validate: (_date, value) => isBetween(value, 0, 11),
+	set(date, _flags, value) {
+		date.setMonth(value, 1);
+		return setStartOfDay(date);
+	},
+});
+
+const localWeekParser: Parser<number> = {
+	priority: 100,
+	incompatibleTokens: [
+		'y',
+		'R',
+		'u',
+		'q',
+		'Q',
+		'M',
+		'L',
+		'I',
+		'd',
+		'D',
+		'i',
+		't',
+		'T',
+	],
+	parse: (dateString, token, match) =>
+		parseNumber(dateString, token, match, numericPatterns.week),
+	validate: (_date, value) => isBetween(value, 1, 53),
+	set(date, _flags, value, options) {
+		const diff = getWeek(cloneDate(date), options) - value;
+		date.setDate(date.getDate() - diff * 7);
+		return startOfWeek(date, options);
+	},
+};
+
+const isoWeekParser: Parser<number> = {
+	priority: 100,
+	incompatibleTokens: [
+		'y',
+		'Y',
+		'u',
+		'q',
+		'Q',
+		'M',
+		'L',
+		'w',
+		'd',
+		'D',
+		'e',
+		'c',
+		't',
+		'T',
+	],
+	parse: (dateString, token, match) =>
+		parseNumber(dateString, token, match, numericPatterns.week),
+	validate: (_date, value) => isBetween(value, 1, 53),
+	set(date, _flags, value) {
+		const diff = getISOWeek(cloneDate(date)) - value;
+		date.setDate(date.getDate() - diff * 7);
+		return startOfISOWeek(date);
+	},
+};
+
+const dateParser: Parser<number> = {
+	priority: 90,
+	subPriority: 1,
+	incompatibleTokens: [
+		'Y',
+		'R',
+		'q',
+		'Q',
+		'w',
+		'I',
+		'D',
+		'i',
+		'e',
+		'c',
+		't',
+		'T',
+	],
+	parse: (dateString, token, match) =>
+		parseNumber(dateString, token, match, numericPatterns.date),
+	validate(date, value) {
+		const days = isLeapYear(date) ? daysInMonthLeapYear : daysInMonth;
+		return isBetween(value, 1, days[date.getMonth()]);
+	},
+	set(date, _flags, value) {
+		date.setDate(value);
+		return setStartOfDay(date);
+	},
+};
+
+const dayOfYearParser: Parser<number> = {
+	priority: 90,
+	subPriority: 1,
+	incompatibleTokens: [
+		'Y',
+		'R',
+		'q',
+		'Q',
+		'M',
+		'L',
+		'w',
+		'I',
+		'd',
+		'E',
+		'i',
+		'e',
+		'c',
+		't',
+		'T',
+	],
+	parse: (dateString, token, match) =>
+		parseNumber(
+			dateString,
+			token.length === 2 && token !== 'Do' ? 'D' : token,
+			match,
+			numericPatterns.dayOfYear,
+		),
+	validate: (date, value) => isBetween(value, 1, isLeapYear(date) ? 366 : 365),
+	set(date, _flags, value) {
+		date.setMonth(0, value);
+		return setStartOfDay(date);
+	},
+};
+
+const dayParser: Parser<number> = {
+	priority: 90,
+	incompatibleTokens: ['D', 'i', 'e', 'c', 't', 'T'],
+	parse: (dateString, token, match) => parseDayName(dateString, token, match),
+	validate: (_date, value) => isBetween(value, 0, 6),
+	set(date, _flags, value, options) {
+		return setStartOfDay(setLocalDay(date, value, options.weekStartsOn));
+	},
+};
+
+const localDayParser = (incompatibleTokens: string[]): Parser<number> => ({
+	priority: 90,
+	incompatibleTokens,
+	parse(dateString, token, match, options) {
+		// The local day of week number (1 is the first day of the week)
+		// to the day of week (0 is Sunday)
+		const valueCallback = (value: number) => {
+			const wholeWeekDays = Math.floor((value - 1) / 7) * 7;
+			return ((value + options.weekStartsOn + 6) % 7) + wholeWeekDays;
+		};
+
+		switch (token) {
+			// 3
+			case 'e':
+			case 'ee':
+			case 'c':
+			case 'cc':
+				return mapValue(parseNDigits(token.length, dateString), valueCallback);
+			// 3rd
+			case 'eo':
+			case 'co':
+				return mapValue(match.ordinalNumber(dateString), valueCallback);
+			default:
+				return parseDayName(dateString, token, match);
+		}
+	},
+	validate: (_date, value) => isBetween(value, 0, 6),
+	set(date, _flags, value, options) {
+		return setStartOfDay(setLocalDay(date, value, options.weekStartsOn));
+	},
+});
+
+const isoDayParser: Parser<number> = {
+	priority: 90,
+	incompatibleTokens: [
+		'y',
+		'Y',
+		'u',
+		'q',
+		'Q',
+		'M',
+		'L',
+		'w',
+		'd',
+		'D',
+		'E',
+		'e',
+		'c',
+		't',
+		'T',
+	],
+	parse(dateString, token, match) {
+		switch (token) {
+			// 2
+			case 'i':
+			case 'ii':
+				return parseNDigits(token.length, dateString);
+			// 2nd
+			case 'io':
+				return match.ordinalNumber(dateString);
+			// Sunday is 7
+			default:
+				return mapValue(parseDayName(dateString, token, match), (value) =>
+					value === 0 ? 7 : value,
+				);
+		}
+	},
+	validate: (_date, value) => isBetween(value, 1, 7),
+	set(date, _flags, value) {
+		// ISO weeks start on Monday
+		return setStartOfDay(setLocalDay(date, value % 7, 1));
+	},
+};
+
+const dayPeriodParser = (
+	incompatibleTokens: string[],
+): Parser<LocaleDayPeriod> => ({
+	priority: 80,
+	incompatibleTokens,
+	parse: parseDayPeriod,
+	set(date, _flags, value) {
+		date.setHours(dayPeriodEnumToHours(value), 0, 0, 0);
+		return date;
+	},
+});
+
+const hourParser = (
+	pattern: RegExp,
+	min: number,
+	max: number,
+	incompatibleTokens: string[],
+	toHours: (value: number, isPM: boolean) => number,
+): Parser<number> => ({
+	priority: 70,
+	incompatibleTokens,
+	parse: (dateString, token, match) =>
+		parseNumber(dateString, token, match, pattern),
+	validate: (_date, value) => isBetween(value, min, max),
+	set(date, _flags, value) {
+		date.setHours(toHours(value, date.getHours() >= 12), 0, 0, 0);
+		return date;
+	},
+});
+
+const minuteParser: Parser<number> = {
+	priority: 60,
+	incompatibleTokens: ['t', 'T'],
+	parse: (dateString, token, match) =>
+		parseNumber(dateString, token, match, numericPatterns.minute),
+	validate: (_date, value) => isBetween(value, 0, 59),
+	set(date, _flags, value) {
+		date.setMinutes(value, 0, 0);
+		return date;
+	},
+};
+
+const secondParser: Parser<number> = {
+	priority: 50,
+	incompatibleTokens: ['t', 'T'],
+	parse: (dateString, token, match) =>
+		parseNumber(dateString, token, match, numericPatterns.second),
+	validate: (_date, value) => isBetween(value, 0, 59),
+	set(date, _flags, value) {
+		date.setSeconds(value, 0);
+		return date;
+	},
+};
+
+const fractionOfSecondParser: Parser<number> = {
+	priority: 30,
+	incompatibleTokens: ['t', 'T'],
+	parse: (dateString, token) =>
+		mapValue(parseNDigits(token.length, dateString), (value) =>
+			Math.trunc(value * Math.pow(10, -token.length + 3)),
+		),
+	set(date, _flags, value) {
+		date.setMilliseconds(value);
+		return date;
+	},
+};
+
+const timezoneParser = (incompatibleTokens: string[]): Parser<number> => ({
+	priority: 10,
+	incompatibleTokens,
+	parse: parseTimezone,
+	set(date, flags, value) {
+		if (flags.timestampIsSet) {
+			return date;
+		}
+		// The parsed fields are the wall clock time in the parsed time zone
+		return constructFrom(
+			date,
+			date.getTime() - getTimezoneOffsetInMilliseconds(date) - value,
+		);
+	},
+});
+
+const timestampParser = (
+	priority: number,
+	multiplier: number,
+): Parser<number> => ({
+	priority,
+	incompatibleTokens: '*',
+	parse: (dateString) =>
+		parseNumericPattern(numericPatterns.anyDigitsSigned, dateString),
+	set: (date, _flags, value) => [
+		constructFrom(date, value * multiplier),
+		{ timestampIsSet: true },
+	],
+});
+
+/*
+ * |     | Unit                           |     | Unit                           |
+ * |-----|--------------------------------|-----|--------------------------------|
+ * |  a  | AM, PM                         |  A* | Milliseconds in day            |
+ * |  b  | AM, PM, noon, midnight         |  B  | Flexible day period            |
+ * |  c  | Stand-alone local day of week  |  C* | Localized hour w/ day period   |
+ * |  d  | Day of month                   |  D  | Day of year                    |
+ * |  e  | Local day of week              |  E  | Day of week                    |
+ * |  f  |                                |  F* | Day of week in month           |
+ * |  g* | Modified Julian day            |  G  | Era                            |
+ * |  h  | Hour [1-12]                    |  H  | Hour [0-23]                    |
+ * |  i! | ISO day of week                |  I! | ISO week of year               |
+ * |  j* | Localized hour w/ day period   |  J* | Localized hour w/o day period  |
+ * |  k  | Hour [1-24]                    |  K  | Hour [0-11]                    |
+ * |  l* | (deprecated)                   |  L  | Stand-alone month              |
+ * |  m  | Minute                         |  M  | Month                          |
+ * |  n  |                                |  N  |                                |
+ * |  o! | Ordinal number modifier        |  O* | Timezone (GMT)                 |
+ * |  p  |                                |  P  |                                |
+ * |  q  | Stand-alone quarter            |  Q  | Quarter                        |
+ * |  r* | Related Gregorian year         |  R! | ISO week-numbering year        |
+ * |  s  | Second                         |  S  | Fraction of second             |
+ * |  t! | Seconds timestamp              |  T! | Milliseconds timestamp         |
+ * |  u  | Extended year                  |  U* | Cyclic year                    |
+ * |  v* | Timezone (generic non-locat.)  |  V* | Timezone (location)            |
+ * |  w  | Local week of year             |  W* | Week of month                  |
+ * |  x  | Timezone (ISO-8601 w/o Z)      |  X  | Timezone (ISO-8601)            |
+ * |  y  | Year (abs)                     |  Y  | Local week-numbering year      |
+ * |  z* | Timezone (specific non-locat.) |  Z* | Timezone (aliases)             |
+ *
+ * Letters marked by * are not implemented but reserved by Unicode standard.
+ *
+ * Letters marked by ! are non-standard, but implemented by date-fns
+ * (see the `formatters` table). `P` and `p` are expanded by `parse`
+ * into the long localized formats before the parsers are used.
+ */
+const parsers: { [token: string]: Parser<unknown> } = {
+	G: eraParser,
+	y: yearParser,
+	Y: localWeekYearParser,
+	R: isoWeekYearParser,
+	u: extendedYearParser,
+	Q: quarterParser([
+		'Y',
+		'R',
+		'q',
+		'M',
+		'L',
+		'w',
+		'I',
+		'd',
+		'D',
+		'i',
+		'e',
+		'c',
+		't',
+		'T',
+	]),
+	q: quarterParser([
+		'Y',
+		'R',
+		'Q',
+		'M',
+		'L',
+		'w',
+		'I',
+		'd',
+		'D',
+		'i',
+		'e',
+		'c',
+		't',
+		'T',
+	]),
+	M: monthParser([
+		'Y',
+		'R',
+		'q',
+		'Q',
+		'L',
+		'w',
+		'I',
+		'D',
+		'i',
+		'e',
+		'c',
+		't',
+		'T',
+	]),
+	L: monthParser([
+		'Y',
+		'R',
+		'q',
+		'Q',
+		'M',
+		'w',
+		'I',
+		'D',
+		'i',
+		'e',
+		'c',
+		't',
+		'T',
+	]),
+	w: localWeekParser,
+	I: isoWeekParser,
+	d: dateParser,
+	D: dayOfYearParser,
+	E: dayParser,
+	e: localDayParser([
+		'y',
+		'R',
+		'u',
+		'q',
+		'Q',
+		'M',
+		'L',
+		'I',
+		'd',
+		'D',
+		'E',
+		'i',
+		'c',
+		't',
+		'T',
+	]),
+	c: localDayParser([
+		'y',
+		'R',
+		'u',
+		'q',
+		'Q',
+		'M',
+		'L',
+		'I',
+		'd',
+		'D',
+		'E',
+		'i',
+		'e',
+		't',
+		'T',
+	]),
+	i: isoDayParser,
+	a: dayPeriodParser(['b', 'B', 'H', 'k', 't', 'T']),
+	b: dayPeriodParser(['a', 'B', 'H', 'k', 't', 'T']),
+	B: dayPeriodParser(['a', 'b', 't', 'T']),
+	h: hourParser(
+		numericPatterns.hour12h,
+		1,
+		12,
+		['H', 'K', 'k', 't', 'T'],
+		(value, isPM) => {
+			if (isPM && value < 12) {
+				return value + 12;
+			}
+			return !isPM && value === 12 ? 0 : value;
+		},
+	),
+	H: hourParser(
+		numericPatterns.hour23h,
+		0,
+		23,
+		['a', 'b', 'h', 'K', 'k', 't', 'T'],
+		(value) => value,
+	),
+	K: hourParser(
+		numericPatterns.hour11h,
+		0,
+		11,
+		['h', 'H', 'k', 't', 'T'],
+		(value, isPM) => (isPM ? value + 12 : value),
+	),
+	k: hourParser(
+		numericPatterns.hour24h,
+		1,
+		24,
+		['a', 'b', 'h', 'H', 'K', 't', 'T'],
+		(value) => value % 24,
+	),
+	m: minuteParser,
+	s: secondParser,
+	S: fractionOfSecondParser,
+	X: timezoneParser(['t', 'T', 'x']),
+	x: timezoneParser(['t', 'T', 'X']),
+	t: timestampParser(40, 1000),
+	T: timestampParser(20, 1),
+};
+
+export default parsers;
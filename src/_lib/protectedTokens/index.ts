@@ -1,5 +1,7 @@
 const protectedDayOfYearTokens = ['D', 'DD'];
 const protectedWeekYearTokens = ['YY', 'YYYY'];
+const protectedMillisecondsInDayTokens = ['A'];
+const protectedWeekOfMonthTokens = ['W', 'WW'];
 
 export function isProtectedDayOfYearToken(token: string): boolean {
 	return protectedDayOfYearTokens.indexOf(token) !== -1;
@@ -9,26 +11,47 @@ export function isProtectedWeekYearToken(token: string): boolean {
 	return protectedWeekYearTokens.indexOf(token) !== -1;
 }
 
+export function isProtectedMillisecondsInDayToken(token: string): boolean {
+	return protectedMillisecondsInDayTokens.indexOf(token) !== -1;
+}
+
+export function isProtectedWeekOfMonthToken(token: string): boolean {
+	return protectedWeekOfMonthTokens.indexOf(token) !== -1;
+}
+
 export function throwProtectedError(
 	token: string,
 	format: string,
-	input: string,
+	input?: string,
 ): void {
+	const inputSuffix = input === undefined ? '' : ` to the input \`${input}\``;
 	if (token === 'YYYY') {
 		throw new RangeError(
-			`Use \`yyyy\` instead of \`YYYY\` (in \`${format}\`) for formatting years to the input \`${input}\`; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
+			`Use \`yyyy\` instead of \`YYYY\` (in \`${format}\`) for formatting years${inputSuffix}; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
 		);
 	} else if (token === 'YY') {
 		throw new RangeError(
-			`Use \`yy\` instead of \`YY\` (in \`${format}\`) for formatting years to the input \`${input}\`; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
+			`Use \`yy\` instead of \`YY\` (in \`${format}\`) for formatting years${inputSuffix}; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
 		);
 	} else if (token === 'D') {
 		throw new RangeError(
-			`Use \`d\` instead of \`D\` (in \`${format}\`) for formatting days of the month to the input \`${input}\`; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
+			`Use \`d\` instead of \`D\` (in \`${format}\`) for formatting days of the month${inputSuffix}; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
 		);
 	} else if (token === 'DD') {
 		throw new RangeError(
-			`Use \`dd\` instead of \`DD\` (in \`${format}\`) for formatting days of the month to the input \`${input}\`; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
+			`Use \`dd\` instead of \`DD\` (in \`${format}\`) for formatting days of the month${inputSuffix}; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
+		);
+	} else if (token === 'A') {
+		throw new RangeError(
+			`Use \`a\` instead of \`A\` (in \`${format}\`) for formatting AM/PM${inputSuffix}; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
+		);
+	} else if (token === 'W') {
+		throw new RangeError(
+			`Use \`I\` instead of \`W\` (in \`${format}\`) for formatting ISO weeks of the year${inputSuffix}; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
+		);
+	} else if (token === 'WW') {
+		throw new RangeError(
+			`Use \`II\` instead of \`WW\` (in \`${format}\`) for formatting ISO weeks of the year${inputSuffix}; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md`,
 		);
 	}
 }
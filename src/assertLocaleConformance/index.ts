@@ -0,0 +1,364 @@
+import format from '../format/index';
+import type {
+	FormatDistanceFnOptions,
+	FormatDistanceToken,
+	FormatLongWidth,
+	FormatRelativeToken,
+	Locale,
+	LocaleContext,
+	LocaleDayPeriod,
+	LocalePatternWidth,
+	LocalizeFn,
+	MatchFn,
+} from '../locale/types';
+import type { Unit } from '../types';
+import formatters from '../_lib/format/formatters/index';
+
+const formatDistanceTokens: FormatDistanceToken[] = [
+	'lessThanXSeconds',
+	'xSeconds',
+	'halfAMinute',
+	'lessThanXMinutes',
+	'xMinutes',
+	'aboutXHours',
+	'xHours',
+	'xDays',
+	'aboutXWeeks',
+	'xWeeks',
+	'aboutXMonths',
+	'xMonths',
+	'aboutXYears',
+	'xYears',
+	'overXYears',
+	'almostXYears',
+];
+
+const formatRelativeTokens: FormatRelativeToken[] = [
+	'lastWeek',
+	'yesterday',
+	'today',
+	'tomorrow',
+	'nextWeek',
+	'other',
+];
+
+const formatDistanceOptions: Array<FormatDistanceFnOptions | undefined> = [
+	undefined,
+	{ addSuffix: true, comparison: -1 },
+	{ addSuffix: true, comparison: 1 },
+];
+
+const ordinalUnits: Unit[] = [
+	'year',
+	'quarter',
+	'month',
+	'week',
+	'date',
+	'dayOfYear',
+	'day',
+	'hour',
+	'minute',
+	'second',
+];
+
+const dayPeriods: LocaleDayPeriod[] = [
+	'am',
+	'pm',
+	'midnight',
+	'noon',
+	'morning',
+	'afternoon',
+	'evening',
+	'night',
+];
+
+const widths: LocalePatternWidth[] = ['narrow', 'abbreviated', 'wide'];
+const dayWidths: LocalePatternWidth[] = [...widths, 'short'];
+const contexts: LocaleContext[] = ['formatting', 'standalone'];
+const formatLongWidths: FormatLongWidth[] = ['full', 'long', 'medium', 'short'];
+const ordinalNumbers = [0, 1, 2, 3, 4, 11, 12, 13, 21, 22, 23, 101, 111];
+const distanceCounts = [1, 2, 5, 21];
+
+// The letters of `format` tokens that accept the ordinal modifier `o`
+const ordinalTokenLetters = 'yYQqMLwIdDecihHKkms';
+
+const range = (from: number, to: number) =>
+	Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+// A morning and an evening date, so both halves of the day are exercised
+const sampleDates = () => [
+	new Date(2017, 1 /* Feb */, 3, 4, 5, 6, 7),
+	new Date(2017, 8 /* Sep */, 23, 16, 17, 18, 19),
+];
+
+function describeValue(value: unknown): string {
+	return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+/**
+ * @name assertLocaleConformance
+ * @category Common Helpers
+ * @summary Check that the locale provides everything the library asks of it.
+ *
+ * @description
+ * Exercise every part of the locale used by `format`, `formatDistance`,
+ * `formatDistanceStrict`, `formatDuration` and `formatRelative`:
+ *
+ * - every `localize` function with every value, width and context;
+ * - every `format` token (`formatters` and the long `P`/`p` formats);
+ * - every `formatDistance` token with singular, plural and suffix cases;
+ * - every `formatRelative` token;
+ * - the round trip of every localized value through `match`.
+ *
+ * All the gaps are collected and reported at once in the error message.
+ *
+ * Narrow values (e.g. `J` for January, June and July) are often ambiguous,
+ * so the `match` round trip is only checked for the values that are unique
+ * within their width and context, and never for the narrow width.
+ * Day periods are only checked in the formatting context.
+ *
+ * @param locale - the locale to check
+ * @throws {RangeError} the locale must conform; the message lists every gap
+ *
+ * @example
+ * // Check a custom locale in a test:
+ * assertLocaleConformance(myLocale)
+ */
+export default function assertLocaleConformance(locale: Locale): void {
+	const problems: string[] = [];
+
+	const check = (
+		description: string,
+		fn: () => unknown,
+		validate: (result: unknown) => boolean = (result) =>
+			typeof result === 'string' && result.length > 0,
+	): unknown => {
+		try {
+			const result = fn();
+			if (!validate(result)) {
+				problems.push(`${description} returned ${describeValue(result)}`);
+			}
+			return result;
+		} catch (error) {
+			problems.push(
+				`${description} threw ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+			return undefined;
+		}
+	};
+
+	if (typeof locale.code !== 'string' || !locale.code) {
+		problems.push('`code` must be a non-empty string');
+	}
+
+	const properties: Array<keyof Locale> = [
+		'localize',
+		'formatLong',
+		'formatDistance',
+		'formatRelative',
+		'match',
+	];
+	properties.forEach((property) => {
+		if (!locale[property]) {
+			problems.push(`\`${property}\` is missing`);
+		}
+	});
+
+	const { localize, formatLong, match } = locale;
+
+	// Localize
+	const localizeChecks: Array<{
+		name: 'era' | 'quarter' | 'month' | 'day' | 'dayPeriod';
+		values: Array<number | string>;
+		widths: LocalePatternWidth[];
+	}> = [
+		{ name: 'era', values: [0, 1], widths },
+		{ name: 'quarter', values: range(1, 4), widths },
+		{ name: 'month', values: range(0, 11), widths },
+		{ name: 'day', values: range(0, 6), widths: dayWidths },
+		{ name: 'dayPeriod', values: dayPeriods, widths },
+	];
+
+	if (localize) {
+		ordinalUnits.forEach((unit) => {
+			ordinalNumbers.forEach((number) => {
+				const localized = check(
+					`localize.ordinalNumber(${number}, { unit: '${unit}' })`,
+					() => localize.ordinalNumber(number, { unit }),
+				);
+
+				if (match?.ordinalNumber && typeof localized === 'string') {
+					check(
+						`match.ordinalNumber('${localized}')`,
+						() => match.ordinalNumber(localized),
+						(result) =>
+							(result as ReturnType<MatchFn<number>>)?.value === number,
+					);
+				}
+			});
+		});
+
+		localizeChecks.forEach(({ name, values, widths: valueWidths }) => {
+			const localizeFn = localize[name] as LocalizeFn<number | string>;
+			const matchFn = match?.[name] as MatchFn<number | string> | undefined;
+
+			if (!localizeFn) {
+				problems.push(`\`localize.${name}\` is missing`);
+				return;
+			}
+
+			valueWidths.forEach((width) => {
+				contexts.forEach((context) => {
+					const localizedValues = values.map((value) =>
+						check(
+							`localize.${name}(${describeValue(
+								value,
+							)}, { width: '${width}', context: '${context}' })`,
+							() => localizeFn(value, { width, context }),
+						),
+					);
+
+					// Day periods are only parsed in the formatting context
+					if (
+						!matchFn ||
+						width === 'narrow' ||
+						(name === 'dayPeriod' && context === 'standalone')
+					) {
+						return;
+					}
+
+					localizedValues.forEach((localized, index) => {
+						const isUnique =
+							localizedValues.indexOf(localized) ===
+							localizedValues.lastIndexOf(localized);
+						if (typeof localized !== 'string' || !isUnique) {
+							return;
+						}
+
+						check(
+							`match.${name}('${localized}', { width: '${width}' })`,
+							() => matchFn(localized, { width }),
+							(result) =>
+								(result as ReturnType<MatchFn<number | string>>)?.value ===
+								values[index],
+						);
+					});
+				});
+			});
+		});
+	}
+
+	if (match) {
+		(['ordinalNumber', ...localizeChecks.map(({ name }) => name)] as const)
+			.filter((name) => !match[name])
+			.forEach((name) => problems.push(`\`match.${name}\` is missing`));
+	}
+
+	// Format long
+	if (formatLong) {
+		formatLongWidths.forEach((width) => {
+			(['date', 'time'] as const).forEach((name) => {
+				check(`formatLong.${name}({ width: '${width}' })`, () =>
+					formatLong[name]({ width }),
+				);
+			});
+
+			check(
+				`formatLong.dateTime({ width: '${width}' })`,
+				() => formatLong.dateTime({ width }),
+				(result) =>
+					typeof result === 'string' &&
+					result.indexOf('{{date}}') !== -1 &&
+					result.indexOf('{{time}}') !== -1,
+			);
+		});
+	}
+
+	// Format
+	if (localize && formatLong) {
+		const tokens = Object.keys(formatters)
+			.reduce<string[]>(
+				(acc, letter) =>
+					acc.concat(range(1, 6).map((length) => letter.repeat(length))),
+				[],
+			)
+			.concat(ordinalTokenLetters.split('').map((letter) => letter + 'o'))
+			.concat(
+				range(1, 4).reduce<string[]>(
+					(acc, length) =>
+						acc.concat(
+							'P'.repeat(length),
+							'p'.repeat(length),
+							'P'.repeat(length) + 'p'.repeat(length),
+						),
+					[],
+				),
+			);
+
+		sampleDates().forEach((date) => {
+			tokens.forEach((token) => {
+				check(
+					`format(${date.toISOString()}, '${token}')`,
+					() =>
+						format(new Date(date.getTime()), token, {
+							locale,
+							useAdditionalWeekYearTokens: true,
+							useAdditionalDayOfYearTokens: true,
+							useAdditionalMillisecondsInDayTokens: true,
+							useAdditionalWeekOfMonthTokens: true,
+						}),
+					(result) =>
+						typeof result === 'string' &&
+						result.length > 0 &&
+						result.indexOf('undefined') === -1,
+				);
+			});
+		});
+	}
+
+	// Format distance
+	if (locale.formatDistance) {
+		formatDistanceTokens.forEach((token) => {
+			distanceCounts.forEach((count) => {
+				formatDistanceOptions.forEach((options) => {
+					check(
+						`formatDistance('${token}', ${count}${
+							options ? `, ${JSON.stringify(options)}` : ''
+						})`,
+						() => locale.formatDistance(token, count, options),
+						(result) =>
+							typeof result === 'string' &&
+							result.length > 0 &&
+							result.indexOf('{{') === -1,
+					);
+				});
+			});
+		});
+	}
+
+	// Format relative
+	if (locale.formatRelative && localize && formatLong) {
+		const [date, baseDate] = sampleDates();
+		formatRelativeTokens.forEach((token) => {
+			const formatStr = check(`formatRelative('${token}')`, () =>
+				locale.formatRelative(token, date, baseDate, { locale }),
+			);
+
+			if (typeof formatStr === 'string') {
+				check(`format(date, formatRelative('${token}'))`, () =>
+					format(new Date(date.getTime()), formatStr, { locale }),
+				);
+			}
+		});
+	}
+
+	if (problems.length) {
+		throw new RangeError(
+			`Locale \`${locale.code}\` does not conform (${
+				problems.length
+			} problems):\n- ${problems.join('\n- ')}`,
+		);
+	}
+}
@@ -0,0 +1,71 @@
+import isValid from '../isValid/index';
+import toDate from '../toDate/index';
+import type { FormatOptions } from '../format/index';
+import {
+	compileFormatter,
+	resolveFormatOptions,
+} from '../_lib/format/compile/index';
+
+/**
+ * The {@link compileFormat} function options.
+ */
+export interface CompileFormatOptions extends FormatOptions {}
+
+/**
+ * @name compileFormat
+ * @category Common Helpers
+ * @summary Compile the format string into the formatting function.
+ *
+ * @description
+ * Tokenize and validate the format string once and return the function
+ * that formats the given dates like `format` with the same format string
+ * and options. Use it to format many dates, e.g. the rows of a table.
+ *
+ * The options, including the default options and the locale, are resolved
+ * at compile time, so `setDefaultOptions` doesn't affect the compiled function.
+ * The same goes for the long formats and the numerals of the locale:
+ * compile the function again after changing the locale object.
+ *
+ * See `format` for the accepted tokens.
+ *
+ * @param format - the string of tokens
+ * @param options - an object with options.
+ * @returns the function that formats the date
+ *
+ * @throws {RangeError} `options.locale` must contain `localize` property
+ * @throws {RangeError} `options.locale` must contain `formatLong` property
+ * @throws {RangeError} `options.locale` tag must be registered and loaded with `resolveLocale`
+ * @throws {RangeError} use `yyyy` instead of `YYYY` for formatting years using [format provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `yy` instead of `YY` for formatting years using [format provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `d` instead of `D` for formatting days of the month using [format provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `dd` instead of `DD` for formatting days of the month using [format provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `a` instead of `A` for formatting AM/PM using [format provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `I` instead of `W` for formatting ISO weeks of the year using [format provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `II` instead of `WW` for formatting ISO weeks of the year using [format provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} format string contains an unescaped latin alphabet character
+ * @throws {RangeError} `options.numberingSystem` must be supported by `Intl`
+ * @throws {RangeError} `options.formatters` keys must be single latin letters unused by `format`
+ * @throws {RangeError} the compiled function throws if `date` is Invalid Date
+ *
+ * @example
+ * // Format the dates in middle-endian format:
+ * const formatDate = compileFormat('MM/dd/yyyy')
+ * const result = [new Date(2014, 1, 11), new Date(2014, 6, 2)].map(formatDate)
+ * //=> ['02/11/2014', '07/02/2014']
+ */
+export default function compileFormat(
+	formatStr: string,
+	options?: CompileFormatOptions,
+): (date: Date | number) => string {
+	const formatDate = compileFormatter(formatStr, resolveFormatOptions(options));
+
+	return (dirtyDate) => {
+		const date = toDate(dirtyDate);
+
+		if (!isValid(date)) {
+			throw new RangeError('Invalid time value');
+		}
+
+		return formatDate(date);
+	};
+}
@@ -0,0 +1,671 @@
+import type {
+	FormatDistanceFn,
+	FormatDistanceToken,
+	FormatLongWidth,
+	FormatRelativeFn,
+	FormatRelativeToken,
+	Locale,
+	LocaleDayPeriod,
+	Localize,
+	Match,
+} from '../locale/types';
+import buildFormatLongFn from '../locale/_lib/buildFormatLongFn/index';
+import buildLocalizeFn from '../locale/_lib/buildLocalizeFn/index';
+import buildMatchFn from '../locale/_lib/buildMatchFn/index';
+import buildMatchPatternFn from '../locale/_lib/buildMatchPatternFn/index';
+import type { Day, Era, Month, Quarter } from '../types';
+import defaultLocale from '../_lib/defaultLocale/index';
+import getIntlWeekInfo from '../_lib/getIntlWeekInfo/index';
+import { buildNumeralFn } from '../_lib/numerals/index';
+
+/**
+ * The {@link createIntlLocale} function options.
+ */
+export interface CreateIntlLocaleOptions {
+	/** Ordinal suffixes by `Intl.PluralRules` ordinal category, e.g. `{ one: 'st', two: 'nd', few: 'rd', other: 'th' }` */
+	ordinalSuffixes?: Partial<Record<Intl.LDMLPluralRule, string>>;
+}
+
+type NameWidth = 'narrow' | 'abbreviated' | 'wide';
+
+type Names = Record<NameWidth, string[]>;
+
+const nameWidths: NameWidth[] = ['narrow', 'abbreviated', 'wide'];
+
+const intlNameWidths = {
+	narrow: 'narrow',
+	abbreviated: 'short',
+	wide: 'long',
+} as const;
+
+const formatLongWidths: FormatLongWidth[] = ['full', 'long', 'medium', 'short'];
+
+const dayPeriods: LocaleDayPeriod[] = [
+	'am',
+	'pm',
+	'midnight',
+	'noon',
+	'morning',
+	'afternoon',
+	'evening',
+	'night',
+];
+
+// Hours (UTC) that fall into each flexible day period in every CLDR locale
+const dayPeriodHours: Record<LocaleDayPeriod, number> = {
+	am: 1,
+	pm: 13,
+	midnight: 0,
+	noon: 12,
+	morning: 9,
+	afternoon: 15,
+	evening: 19,
+	night: 23,
+};
+
+// Ordinal suffixes of the languages that `Intl` can't format ordinals for,
+// indexed by the `Intl.PluralRules` ordinal category
+const defaultOrdinalSuffixes: Record<
+	string,
+	Partial<Record<Intl.LDMLPluralRule, string>>
+> = {
+	en: { one: 'st', two: 'nd', few: 'rd', other: 'th' },
+	es: { other: 'º' },
+	fr: { one: 'er', other: 'e' },
+	it: { other: 'º' },
+	nl: { other: 'e' },
+	pt: { other: 'º' },
+	sv: { one: ':a', other: ':e' },
+};
+
+const distanceUnits: Record<
+	FormatDistanceToken,
+	Intl.RelativeTimeFormatUnit
+> = {
+	lessThanXSeconds: 'second',
+	xSeconds: 'second',
+	halfAMinute: 'second',
+	lessThanXMinutes: 'minute',
+	xMinutes: 'minute',
+	aboutXHours: 'hour',
+	xHours: 'hour',
+	xDays: 'day',
+	aboutXWeeks: 'week',
+	xWeeks: 'week',
+	aboutXMonths: 'month',
+	xMonths: 'month',
+	aboutXYears: 'year',
+	xYears: 'year',
+	overXYears: 'year',
+	almostXYears: 'year',
+};
+
+// Saturday, 3 February 2001, 04:05:06 UTC: every field has a distinct value
+// so it's possible to tell the tokens apart in the formatted string
+const sampleDate = new Date(Date.UTC(2001, 1, 3, 4, 5, 6));
+
+// date-fns computes the Gregorian fields, so the names and the patterns
+// must not come from the default calendar of the tag (e.g. Buddhist in `th`)
+const gregorianUTCOptions = {
+	calendar: 'gregory',
+	timeZone: 'UTC',
+} as const;
+
+const hourTokens = {
+	h11: 'K',
+	h12: 'h',
+	h23: 'H',
+	h24: 'k',
+} as const;
+
+function escapeRegExp(string: string): string {
+	return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Quotes every word of the literal that contains latin letters or quotes,
+// so quoted literals are never adjacent (`''` is an escaped quote in patterns)
+function quoteLiteral(string: string): string {
+	return string.replace(/\S+/g, (word) =>
+		/[a-zA-Z']/.test(word) ? "'" + word.replace(/'/g, "''") + "'" : word,
+	);
+}
+
+// `Intl.Locale`, the `dayPeriod` option and the `dateTimeField` display names
+// are newer than the rest of `Intl`, so they are checked before use
+
+function getLanguage(code: string): string {
+	if (typeof Intl.Locale !== 'function') {
+		return code.split('-')[0];
+	}
+	return new Intl.Locale(code).language;
+}
+
+// The runtimes that don't know the option ignore it
+function supportsDayPeriod(): boolean {
+	const { dayPeriod } = new Intl.DateTimeFormat('en', {
+		hour: 'numeric',
+		dayPeriod: 'long',
+	}).resolvedOptions() as Intl.ResolvedDateTimeFormatOptions & {
+		dayPeriod?: string;
+	};
+	return dayPeriod !== undefined;
+}
+
+function getQuarterName(code: string): string | undefined {
+	if (typeof Intl.DisplayNames !== 'function') {
+		return undefined;
+	}
+	try {
+		return new Intl.DisplayNames(code, { type: 'dateTimeField' }).of('quarter');
+	} catch (_) {
+		// The runtimes before `dateTimeField` throw on the unknown type
+		return undefined;
+	}
+}
+
+function getPart(
+	formatter: Intl.DateTimeFormat,
+	date: Date,
+	type: Intl.DateTimeFormatPartTypes,
+): string {
+	const part = formatter.formatToParts(date).find((p) => p.type === type);
+	return part ? part.value : '';
+}
+
+// When `type` is omitted, the whole formatted string is used as the name
+// (e.g. "7月" in Japanese, where the month part is just "7")
+function getNames(
+	tag: string,
+	dates: Date[],
+	type: Intl.DateTimeFormatPartTypes | undefined,
+	options: (width: NameWidth) => Intl.DateTimeFormatOptions,
+): Names {
+	const names = {} as Names;
+	nameWidths.forEach((width) => {
+		const formatter = new Intl.DateTimeFormat(tag, {
+			...options(width),
+			...gregorianUTCOptions,
+		});
+		names[width] = dates.map((date) =>
+			type ? getPart(formatter, date, type) : formatter.format(date),
+		);
+	});
+	return names;
+}
+
+function partsToPattern(
+	parts: Intl.DateTimeFormatPart[],
+	hourCycle: keyof typeof hourTokens,
+	width: FormatLongWidth,
+	months: Names,
+	days: Names,
+	eras: Names,
+): string {
+	return parts
+		.map(({ type, value }) => {
+			switch (type) {
+				case 'era':
+					return value === eras.wide[1] ? 'GGGG' : 'G';
+				case 'year':
+					return value.length === 2 ? 'yy' : 'y';
+				case 'month':
+					if (/^\p{Nd}+$/u.test(value)) return value.length === 2 ? 'MM' : 'M';
+					return value === months.wide[1] ? 'MMMM' : 'MMM';
+				case 'day':
+					return value.length === 2 ? 'dd' : 'd';
+				case 'weekday':
+					return value === days.wide[6] ? 'EEEE' : 'EEE';
+				case 'dayPeriod':
+					return 'a';
+				case 'hour':
+					return hourTokens[hourCycle].repeat(value.length);
+				case 'minute':
+					return 'mm';
+				case 'second':
+					return 'ss';
+				case 'timeZoneName':
+					return width === 'full' ? 'zzzz' : 'z';
+				default:
+					return quoteLiteral(value);
+			}
+		})
+		.join('');
+}
+
+function buildFormatLong(
+	tag: string,
+	months: Names,
+	days: Names,
+	eras: Names,
+): Locale['formatLong'] {
+	const dateFormats = {} as Record<FormatLongWidth, string>;
+	const timeFormats = {} as Record<FormatLongWidth, string>;
+	const dateTimeFormats = {} as Record<FormatLongWidth, string>;
+
+	formatLongWidths.forEach((width) => {
+		const dateFormatter = new Intl.DateTimeFormat(tag, {
+			dateStyle: width,
+			...gregorianUTCOptions,
+		});
+		const timeFormatter = new Intl.DateTimeFormat(tag, {
+			timeStyle: width,
+			...gregorianUTCOptions,
+		});
+		const {
+			hourCycle = 'h23',
+		} = timeFormatter.resolvedOptions() as Intl.ResolvedDateTimeFormatOptions & {
+			hourCycle?: keyof typeof hourTokens;
+		};
+
+		dateFormats[width] = partsToPattern(
+			dateFormatter.formatToParts(sampleDate),
+			hourCycle,
+			width,
+			months,
+			days,
+			eras,
+		);
+		timeFormats[width] = partsToPattern(
+			timeFormatter.formatToParts(sampleDate),
+			hourCycle,
+			width,
+			months,
+			days,
+			eras,
+		);
+
+		const date = dateFormatter.format(sampleDate);
+		const time = timeFormatter.format(sampleDate);
+		const dateTime = new Intl.DateTimeFormat(tag, {
+			dateStyle: width,
+			timeStyle: width,
+			...gregorianUTCOptions,
+		}).format(sampleDate);
+		const dateIndex = dateTime.indexOf(date);
+		const timeIndex = dateTime.indexOf(time);
+
+		if (
+			dateIndex !== -1 &&
+			timeIndex !== -1 &&
+			(dateIndex + date.length <= timeIndex ||
+				timeIndex + time.length <= dateIndex)
+		) {
+			const placeholders = [
+				{ index: dateIndex, length: date.length, value: '{{date}}' },
+				{ index: timeIndex, length: time.length, value: '{{time}}' },
+			].sort((a, b) => a.index - b.index);
+
+			let pattern = '';
+			let lastIndex = 0;
+			placeholders.forEach(({ index, length, value }) => {
+				pattern += quoteLiteral(dateTime.slice(lastIndex, index)) + value;
+				lastIndex = index + length;
+			});
+			dateTimeFormats[width] =
+				pattern + quoteLiteral(dateTime.slice(lastIndex));
+		} else {
+			dateTimeFormats[width] = '{{date}} {{time}}';
+		}
+	});
+
+	return {
+		date: buildFormatLongFn({ formats: dateFormats, defaultWidth: 'full' }),
+		time: buildFormatLongFn({ formats: timeFormats, defaultWidth: 'full' }),
+		dateTime: buildFormatLongFn({
+			formats: dateTimeFormats,
+			defaultWidth: 'full',
+		}),
+	};
+}
+
+function buildNamesMatchFn<Value>(
+	names: Names[],
+	valueCallback: (index: number) => Value,
+) {
+	const count = names[0].wide.length;
+	const namesOf = (widths: NameWidth[], index: number) =>
+		names
+			.reduce<string[]>(
+				(acc, widthNames) =>
+					acc.concat(widths.map((width) => widthNames[width][index])),
+				[],
+			)
+			.filter((name) => name);
+	const buildPatterns = (widths: NameWidth[]) => {
+		const all = Array.from({ length: count }, (_, index) =>
+			namesOf(widths, index),
+		)
+			.reduce((acc, indexNames) => acc.concat(indexNames), [])
+			.sort((a, b) => b.length - a.length)
+			.map(escapeRegExp);
+		return new RegExp('^(' + all.join('|') + ')', 'i');
+	};
+	const buildParsePatterns = (widths: NameWidth[]) =>
+		Array.from(
+			{ length: count },
+			(_, index) =>
+				new RegExp(
+					'^(' + namesOf(widths, index).map(escapeRegExp).join('|') + ')$',
+					'i',
+				),
+		);
+
+	return buildMatchFn<Value>({
+		matchPatterns: {
+			narrow: buildPatterns(['narrow']),
+			// Intl has no separate short weekdays, see `localize.day`
+			short: buildPatterns(['abbreviated']),
+			abbreviated: buildPatterns(['abbreviated']),
+			wide: buildPatterns(['wide']),
+			any: buildPatterns(nameWidths),
+		},
+		defaultMatchWidth: 'wide',
+		parsePatterns: {
+			narrow: buildParsePatterns(['narrow']),
+			abbreviated: buildParsePatterns(['abbreviated']),
+			wide: buildParsePatterns(['wide']),
+			any: buildParsePatterns(nameWidths),
+		},
+		defaultParseWidth: 'any',
+		valueCallback: (index) => valueCallback(index as number),
+	});
+}
+
+/**
+ * @name createIntlLocale
+ * @category Common Helpers
+ * @summary Create a locale from `Intl` for the given BCP 47 language tag.
+ *
+ * @description
+ * Create a locale object accepted by `format`, `formatDistance`,
+ * `formatRelative` and the rest of the locale-aware functions
+ * from the data of the runtime's `Intl` API:
+ *
+ * - era, month, day of week and day period names are taken from `Intl.DateTimeFormat#formatToParts`;
+ * - the long localized formats (`P` and `p` tokens) are derived from `dateStyle` and `timeStyle`;
+ * - ordinal numbers use the `Intl.PluralRules` ordinal categories;
+ * - numbers are written with the digits of the locale's default numbering system (e.g. `arab` for `ar-EG`);
+ * - distances are formatted with `Intl.RelativeTimeFormat` and `Intl.NumberFormat`;
+ * - `weekStartsOn` and `firstWeekContainsDate` are taken from the `Intl.Locale` week info if the runtime supports it.
+ *
+ * `Intl` doesn't have the approximate distance phrases, so the `aboutX*`,
+ * `overXYears` and `almostXYears` tokens are formatted as exact distances:
+ * `formatDistance` returns "1 hour" where `enUS` returns "about 1 hour".
+ * Use `extendLocale` to provide the phrases for these tokens.
+ *
+ * The flexible day periods (e.g. "in the morning") need the `dayPeriod` option
+ * of `Intl.DateTimeFormat`, otherwise AM/PM is used. Without `Intl.DisplayNames`
+ * with the `dateTimeField` type the wide quarters are taken from `enUS`.
+ *
+ * Ordinal suffixes are only known for a few languages, for the rest
+ * the number is followed by a period (e.g. "3."). Use `options.ordinalSuffixes`
+ * to override them.
+ *
+ * The locale is computed once, so it's better to create it once and reuse it.
+ *
+ * @param tag - the BCP 47 language tag, e.g. `'sv-FI'`
+ * @param options - an object with options.
+ * @returns the locale object
+ * @throws {RangeError} `tag` must be a valid BCP 47 language tag
+ *
+ * @example
+ * // Represent 2 July 2014 in Swedish (Finland):
+ * const svFI = createIntlLocale('sv-FI')
+ * const result = format(new Date(2014, 6, 2), 'EEEE d MMMM yyyy', {
+ *   locale: svFI
+ * })
+ * //=> 'onsdag 2 juli 2014'
+ *
+ * @example
+ * // Provide the approximate distance phrases:
+ * const de = extendLocale(createIntlLocale('de'), {
+ *   formatDistance: {
+ *     aboutXHours: { one: 'etwa 1 Stunde', other: 'etwa {{count}} Stunden' }
+ *   }
+ * })
+ * const result = formatDistance(new Date(2014, 6, 2, 15), new Date(2014, 6, 2, 16), {
+ *   locale: de
+ * })
+ * //=> 'etwa 1 Stunde'
+ */
+export default function createIntlLocale(
+	tag: string,
+	options?: CreateIntlLocaleOptions,
+): Locale {
+	// The `calendar` option drops the `-u-ca-` extension from the resolved tag
+	const code = new Intl.DateTimeFormat(tag, {
+		calendar: 'gregory',
+	}).resolvedOptions().locale;
+	const language = getLanguage(code);
+
+	const eraDates = [
+		new Date(Date.UTC(-1, 0, 1)),
+		new Date(Date.UTC(2001, 0, 1)),
+	];
+	// 1 January 2017 is Sunday
+	const dayDates = Array.from(
+		{ length: 7 },
+		(_, day) => new Date(Date.UTC(2017, 0, 1 + day)),
+	);
+	const monthDates = Array.from(
+		{ length: 12 },
+		(_, month) => new Date(Date.UTC(2017, month, 15)),
+	);
+
+	const eras = getNames(tag, eraDates, 'era', (width) => ({
+		era: intlNameWidths[width],
+		year: 'numeric',
+	}));
+	const months = getNames(tag, monthDates, undefined, (width) => ({
+		month: intlNameWidths[width],
+	}));
+	const formattingMonths = getNames(tag, monthDates, 'month', (width) => ({
+		month: intlNameWidths[width],
+		day: 'numeric',
+	}));
+	const days = getNames(tag, dayDates, undefined, (width) => ({
+		weekday: intlNameWidths[width],
+	}));
+
+	const hasFlexibleDayPeriods = supportsDayPeriod();
+	const periods = {} as Record<NameWidth, Record<LocaleDayPeriod, string>>;
+	nameWidths.forEach((width) => {
+		const amPmFormatter = new Intl.DateTimeFormat(tag, {
+			hour: 'numeric',
+			hourCycle: 'h12',
+			...gregorianUTCOptions,
+		});
+		const flexibleFormatter = new Intl.DateTimeFormat(tag, {
+			hour: 'numeric',
+			dayPeriod: intlNameWidths[width],
+			...gregorianUTCOptions,
+		});
+		periods[width] = {} as Record<LocaleDayPeriod, string>;
+		dayPeriods.forEach((period) => {
+			const date = new Date(Date.UTC(2017, 0, 1, dayPeriodHours[period]));
+			const flexiblePeriod =
+				period === 'am' || period === 'pm' || !hasFlexibleDayPeriods
+					? ''
+					: getPart(flexibleFormatter, date, 'dayPeriod');
+			// Not every locale or runtime has flexible day periods,
+			// so fall back to AM/PM
+			periods[width][period] =
+				flexiblePeriod ||
+				getPart(amPmFormatter, date, 'dayPeriod') ||
+				period.toUpperCase();
+		});
+	});
+
+	const ordinalRules = new Intl.PluralRules(code, { type: 'ordinal' });
+	const ordinalSuffixes = options?.ordinalSuffixes ??
+		defaultOrdinalSuffixes[language] ?? { other: '.' };
+	const ordinalNumber: Localize['ordinalNumber'] = (number) => {
+		const suffix =
+			ordinalSuffixes[ordinalRules.select(number)] ??
+			ordinalSuffixes.other ??
+			'';
+		return String(number) + suffix;
+	};
+
+	const quarterName = getQuarterName(code);
+	const quarters: Quarter[] = [1, 2, 3, 4];
+	const quarterValues = {
+		narrow: quarters.map(String),
+		abbreviated: quarters.map((quarter) => 'Q' + quarter),
+		wide: quarters.map((quarter) =>
+			quarterName
+				? ordinalNumber(quarter) + ' ' + quarterName
+				: defaultLocale.localize.quarter(quarter, { width: 'wide' }),
+		),
+	};
+
+	const localize: Localize = {
+		ordinalNumber,
+
+		era: buildLocalizeFn<Era>({
+			values: eras,
+			defaultWidth: 'wide',
+		}),
+
+		quarter: buildLocalizeFn<Quarter, number>({
+			values: quarterValues,
+			defaultWidth: 'wide',
+			argumentCallback: (quarter) => quarter - 1,
+		}),
+
+		month: buildLocalizeFn<Month>({
+			values: months,
+			defaultWidth: 'wide',
+			formattingValues: formattingMonths,
+			defaultFormattingWidth: 'wide',
+		}),
+
+		day: buildLocalizeFn<Day>({
+			values: { ...days, short: days.abbreviated },
+			defaultWidth: 'wide',
+		}),
+
+		dayPeriod: buildLocalizeFn<LocaleDayPeriod>({
+			values: periods,
+			defaultWidth: 'wide',
+		}),
+	};
+
+	const { numberingSystem } = new Intl.NumberFormat(code).resolvedOptions();
+	if (numberingSystem !== 'latn') {
+		localize.numeral = buildNumeralFn(numberingSystem);
+	}
+
+	const formatLong = buildFormatLong(code, formattingMonths, days, eras);
+
+	const relativeTimeFormat = new Intl.RelativeTimeFormat(code, {
+		numeric: 'always',
+	});
+	const unitFormats: Partial<
+		Record<Intl.RelativeTimeFormatUnit, Intl.NumberFormat>
+	> = {};
+	const formatDistance: FormatDistanceFn = (token, count, distanceOptions) => {
+		const unit = distanceUnits[token];
+		const value = token === 'halfAMinute' ? 30 : count;
+
+		if (distanceOptions?.addSuffix) {
+			return relativeTimeFormat.format(
+				distanceOptions.comparison && distanceOptions.comparison > 0
+					? value
+					: -value,
+				unit,
+			);
+		}
+
+		const unitFormat = (unitFormats[unit] =
+			unitFormats[unit] ??
+			new Intl.NumberFormat(code, {
+				style: 'unit',
+				unit,
+				unitDisplay: 'long',
+			}));
+		return unitFormat.format(value);
+	};
+
+	const autoRelativeTimeFormat = new Intl.RelativeTimeFormat(code, {
+		numeric: 'auto',
+	});
+	const relativeDateTime = (datePattern: string) =>
+		formatLong
+			.dateTime({ width: 'long' })
+			.replace('{{date}}', datePattern)
+			.replace('{{time}}', 'p');
+	const formatRelativeLocale: Record<FormatRelativeToken, string> = {
+		lastWeek: relativeDateTime('eeee'),
+		yesterday: relativeDateTime(
+			quoteLiteral(autoRelativeTimeFormat.format(-1, 'day')),
+		),
+		today: relativeDateTime(
+			quoteLiteral(autoRelativeTimeFormat.format(0, 'day')),
+		),
+		tomorrow: relativeDateTime(
+			quoteLiteral(autoRelativeTimeFormat.format(1, 'day')),
+		),
+		nextWeek: relativeDateTime('eeee'),
+		other: 'P',
+	};
+	const formatRelative: FormatRelativeFn = (token) =>
+		formatRelativeLocale[token];
+
+	const ordinalSuffixPattern = Object.keys(ordinalSuffixes)
+		.map((category) => ordinalSuffixes[category as Intl.LDMLPluralRule]!)
+		.filter((suffix) => suffix)
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExp)
+		.join('|');
+
+	const match: Match = {
+		ordinalNumber: buildMatchPatternFn({
+			matchPattern: new RegExp(
+				'^(\\d+)' + (ordinalSuffixPattern ? `(${ordinalSuffixPattern})?` : ''),
+				'i',
+			),
+			parsePattern: /\d+/,
+			valueCallback: (value) => parseInt(value, 10),
+		}),
+
+		era: buildNamesMatchFn([eras], (index) => index as Era),
+
+		quarter: buildNamesMatchFn(
+			[quarterValues],
+			(index) => (index + 1) as Quarter,
+		),
+
+		month: buildNamesMatchFn(
+			[months, formattingMonths],
+			(index) => index as Month,
+		),
+
+		day: buildNamesMatchFn([days], (index) => index as Day),
+
+		dayPeriod: buildNamesMatchFn(
+			[
+				{
+					narrow: dayPeriods.map((period) => periods.narrow[period]),
+					abbreviated: dayPeriods.map((period) => periods.abbreviated[period]),
+					wide: dayPeriods.map((period) => periods.wide[period]),
+				},
+			],
+			(index) => dayPeriods[index],
+		),
+	};
+
+	return {
+		code,
+		formatDistance,
+		formatRelative,
+		localize,
+		formatLong,
+		match,
+		options: {
+			weekStartsOn: 0,
+			firstWeekContainsDate: 1,
+			...getIntlWeekInfo(code),
+		},
+	};
+}
@@ -0,0 +1,83 @@
+import type { Day, FirstWeekContainsDate } from '../types';
+import getIntlWeekInfo from '../_lib/getIntlWeekInfo/index';
+
+/**
+ * The options detected by {@link detectDefaultOptions}.
+ */
+export interface DetectedDefaultOptions {
+	/** The BCP 47 language tag of the runtime's locale */
+	locale: string;
+	weekStartsOn: Day;
+	firstWeekContainsDate: FirstWeekContainsDate;
+}
+
+const fallbackTag = 'en-US';
+
+// The POSIX locale variables in the order of precedence
+const localeEnvironmentVariables = ['LC_ALL', 'LC_TIME', 'LANG'];
+
+// Converts a POSIX locale (e.g. `de_AT.UTF-8@euro`) to a BCP 47 tag
+function toLanguageTag(value: string | undefined): string | undefined {
+	const posixLocale = value?.split(/[.@]/)[0];
+	if (!posixLocale || posixLocale === 'C' || posixLocale === 'POSIX') {
+		return undefined;
+	}
+	try {
+		return new Intl.Locale(posixLocale.replace(/_/g, '-')).baseName;
+	} catch (_) {
+		return undefined;
+	}
+}
+
+function detectEnvironmentTag(): string | undefined {
+	if (typeof process === 'undefined' || !process.env) {
+		return undefined;
+	}
+	return localeEnvironmentVariables
+		.map((name) => toLanguageTag(process.env[name]))
+		.find((tag) => tag);
+}
+
+function detectIntlTag(): string | undefined {
+	if (typeof Intl === 'undefined' || !Intl.DateTimeFormat) {
+		return undefined;
+	}
+	return toLanguageTag(new Intl.DateTimeFormat().resolvedOptions().locale);
+}
+
+/**
+ * @name detectDefaultOptions
+ * @category Common Helpers
+ * @summary Detect the runtime's locale and week settings.
+ *
+ * @description
+ * Detect the locale of the runtime and its week settings, suitable for
+ * `setDefaultOptions`:
+ *
+ * - the locale tag is taken from the `LC_ALL`, `LC_TIME` or `LANG`
+ *   environment variables in Node.js, then from `Intl.DateTimeFormat`,
+ *   and falls back to `en-US`;
+ * - `weekStartsOn` and `firstWeekContainsDate` are taken from the `Intl.Locale`
+ *   week info of the tag, and fall back to `0` (Sunday) and `1`.
+ *
+ * The detected locale is a tag, so it must be registered with `registerLocale`
+ * and loaded with `resolveLocale` before it's passed to `setDefaultOptions`.
+ *
+ * @returns the detected locale tag and week settings
+ *
+ * @example
+ * // Use the runtime's locale and week settings by default:
+ * const detectedOptions = detectDefaultOptions()
+ * await resolveLocale(detectedOptions.locale)
+ * setDefaultOptions(detectedOptions)
+ */
+export default function detectDefaultOptions(): DetectedDefaultOptions {
+	const locale = detectEnvironmentTag() ?? detectIntlTag() ?? fallbackTag;
+
+	return {
+		locale,
+		weekStartsOn: 0,
+		firstWeekContainsDate: 1,
+		...getIntlWeekInfo(locale),
+	};
+}
@@ -0,0 +1,110 @@
+import type { ParseISOOptions } from '../parseISO/index';
+import parseISOInterval from '../parseISOInterval/index';
+import type { ParsedInterval } from '../parseISOInterval/index';
+import {
+	addDuration,
+	parseISOIntervalParts,
+	scaleDuration,
+	throwInvalidInterval,
+} from '../_lib/isoInterval/index';
+
+/**
+ * The {@link eachOccurrenceOfRepeatingInterval} function options.
+ */
+export interface EachOccurrenceOfRepeatingIntervalOptions
+	extends ParseISOOptions {}
+
+const repeatingIntervalRegExp = /^R(\d*)\/(.+)$/;
+
+/**
+ * @name eachOccurrenceOfRepeatingInterval
+ * @category Interval Helpers
+ * @summary Iterate over the occurrences of ISO 8601 repeating interval
+ *
+ * @description
+ * Parse the given ISO 8601 repeating interval (https://en.wikipedia.org/wiki/ISO_8601#Repeating_intervals),
+ * e.g. `R5/2024-01-01T00:00:00Z/P1M`, and return the iterator of its occurrences.
+ *
+ * The number after `R` is the number of the occurrences; without the number
+ * the interval repeats forever, so the iteration must be stopped by the caller.
+ * The interval may have any form accepted by `parseISOInterval`:
+ *
+ * - `start/duration`: every occurrence adds the duration to the start once more,
+ *   so the occurrences of `P1M` from January 31 end on the last days of the months;
+ * - `start/end`: the occurrences follow each other with the same length in milliseconds;
+ * - `duration/end`: the occurrences go back in time from the end.
+ *
+ * The string is validated when the function is called, not when the iteration starts.
+ *
+ * @param repeatingInterval - the ISO 8601 repeating interval string
+ * @param options - an object with options, see `parseISO`.
+ * @returns the iterator of the occurrence intervals
+ * @throws {RangeError} `repeatingInterval` must be a valid ISO 8601 repeating interval
+ * @throws {RangeError} the start of the interval cannot be after its end
+ *
+ * @example
+ * // Each month of the first quarter of 2024:
+ * const result = Array.from(
+ *   eachOccurrenceOfRepeatingInterval('R3/2024-01-01T00:00:00Z/P1M')
+ * )
+ * //=> [
+ * //   { start: Mon Jan 01 2024 00:00:00 GMT+0000, end: Thu Feb 01 2024 00:00:00 GMT+0000 },
+ * //   { start: Thu Feb 01 2024 00:00:00 GMT+0000, end: Fri Mar 01 2024 00:00:00 GMT+0000 },
+ * //   { start: Fri Mar 01 2024 00:00:00 GMT+0000, end: Mon Apr 01 2024 00:00:00 GMT+0000 }
+ * // ]
+ *
+ * @example
+ * // The first 10 weeks of the endlessly repeating interval:
+ * const weeks = []
+ * for (const week of eachOccurrenceOfRepeatingInterval('R/2024-01-01/P1W')) {
+ *   if (weeks.push(week) === 10) break
+ * }
+ */
+export default function eachOccurrenceOfRepeatingInterval(
+	repeatingInterval: string,
+	options?: EachOccurrenceOfRepeatingIntervalOptions,
+): IterableIterator<ParsedInterval> {
+	const matched = repeatingInterval.match(repeatingIntervalRegExp);
+	if (!matched) {
+		throwInvalidInterval(repeatingInterval);
+	}
+
+	const repetitions = matched[1] ? parseInt(matched[1], 10) : Infinity;
+	const intervalString = matched[2];
+
+	// Validate the first occurrence
+	const firstOccurrence = parseISOInterval(intervalString, options);
+	const { start, end, duration } = parseISOIntervalParts(
+		intervalString,
+		options,
+	);
+
+	const getOccurrence = (index: number): ParsedInterval => {
+		if (start && duration) {
+			return {
+				start: addDuration(start, scaleDuration(duration, index)),
+				end: addDuration(start, scaleDuration(duration, index + 1)),
+			};
+		}
+		if (duration && end) {
+			return {
+				start: addDuration(end, scaleDuration(duration, -index - 1)),
+				end: addDuration(end, scaleDuration(duration, -index)),
+			};
+		}
+		const length =
+			firstOccurrence.end.getTime() - firstOccurrence.start.getTime();
+		return {
+			start: new Date(firstOccurrence.start.getTime() + length * index),
+			end: new Date(firstOccurrence.end.getTime() + length * index),
+		};
+	};
+
+	function* generateOccurrences(): IterableIterator<ParsedInterval> {
+		for (let index = 0; index < repetitions; index++) {
+			yield getOccurrence(index);
+		}
+	}
+
+	return generateOccurrences();
+}
@@ -0,0 +1,138 @@
+import { add } from '../add-functions';
+import endOfDay from '../endOfDay/index';
+import endOfHour from '../endOfHour/index';
+import endOfMinute from '../endOfMinute/index';
+import endOfMonth from '../endOfMonth/index';
+import endOfSecond from '../endOfSecond/index';
+import endOfWeek from '../endOfWeek/index';
+import endOfYear from '../endOfYear/index';
+import startOfDay from '../startOfDay/index';
+import startOfHour from '../startOfHour/index';
+import startOfMinute from '../startOfMinute/index';
+import startOfMonth from '../startOfMonth/index';
+import startOfSecond from '../startOfSecond/index';
+import startOfWeek from '../startOfWeek/index';
+import startOfYear from '../startOfYear/index';
+import toDate from '../toDate/index';
+import type { Day, WeekStartOptions } from '../types';
+import {
+	dateMathDurationKeys,
+	isDateMathError,
+	parseDateMath,
+} from '../_lib/dateMath/index';
+import type { DateMathUnit } from '../_lib/dateMath/index';
+import { getDefaultOptions } from '../_lib/defaultOptions/index';
+
+/**
+ * The {@link evaluateDateMath} function options.
+ */
+export interface EvaluateDateMathOptions extends WeekStartOptions {
+	/** The date of `now`; the current date by default */
+	now?: Date | number;
+	/** Round to the end of the units instead of the start, as in the end of a range */
+	roundUp?: boolean;
+}
+
+// Rounds the copy of the date to the start or the end of the unit
+function roundDate(
+	date: Date,
+	unit: DateMathUnit,
+	roundUp: boolean,
+	weekStartsOn: Day,
+): Date {
+	const copy = new Date(date.getTime());
+	switch (unit) {
+		case 'y':
+			return roundUp ? endOfYear(copy) : startOfYear(copy);
+		case 'M':
+			return roundUp ? endOfMonth(copy) : startOfMonth(copy);
+		case 'w':
+			return roundUp
+				? endOfWeek(copy, { weekStartsOn })
+				: startOfWeek(copy, { weekStartsOn });
+		case 'd':
+			return roundUp ? endOfDay(copy) : startOfDay(copy);
+		case 'h':
+		case 'H':
+			return roundUp ? endOfHour(copy) : startOfHour(copy);
+		case 'm':
+			return roundUp ? endOfMinute(copy) : startOfMinute(copy);
+		case 's':
+			return roundUp ? endOfSecond(copy) : startOfSecond(copy);
+		default:
+			return copy;
+	}
+}
+
+/**
+ * @name evaluateDateMath
+ * @category Common Helpers
+ * @summary Evaluate the date math expression
+ *
+ * @description
+ * Evaluate the date math expression used by Elasticsearch and Grafana,
+ * e.g. `now-7d/d`, `now/M+1M-1s` or `2024-01-01||+1M/d`.
+ *
+ * The expression starts with `now` or an ISO 8601 date followed by `||`.
+ * The operations are applied from left to right:
+ *
+ * - `+1d` and `-1d` add and subtract the amount of the unit;
+ * - `/d` rounds the date down to the start of the unit,
+ *   or up to the end of the unit with `roundUp`, which is used
+ *   for the end of the ranges (e.g. `lte: now/d` includes the whole day).
+ *
+ * The units are `y` (years), `M` (months), `w` (weeks), `d` (days),
+ * `h` or `H` (hours), `m` (minutes) and `s` (seconds). The weeks start
+ * on `options.weekStartsOn`.
+ *
+ * Use `validateDateMath` to find out what's wrong with an invalid expression.
+ *
+ * @param expression - the date math expression
+ * @param options - an object with options.
+ * @returns the evaluated date
+ * @throws {RangeError} `expression` must be a valid date math expression
+ *
+ * @example
+ * // The start of the day 7 days ago (now is 15 March 2024 10:30):
+ * const result = evaluateDateMath('now-7d/d', { now: new Date(2024, 2, 15, 10, 30) })
+ * //=> Fri Mar 08 2024 00:00:00
+ *
+ * @example
+ * // The last second of the month:
+ * const result = evaluateDateMath('now/M+1M-1s', { now: new Date(2024, 2, 15, 10, 30) })
+ * //=> Sun Mar 31 2024 23:59:59
+ *
+ * @example
+ * // The end of the day a month after the date:
+ * const result = evaluateDateMath('2024-01-01||+1M/d', { roundUp: true })
+ * //=> Thu Feb 01 2024 23:59:59.999
+ */
+export default function evaluateDateMath(
+	expression: string,
+	options?: EvaluateDateMathOptions,
+): Date {
+	const parsed = parseDateMath(expression);
+	if (isDateMathError(parsed)) {
+		throw new RangeError(
+			`Invalid date math \`${expression}\`: expected ${parsed.expected} at ${parsed.index}`,
+		);
+	}
+
+	const defaultOptions = getDefaultOptions();
+	const weekStartsOn =
+		options?.weekStartsOn ??
+		defaultOptions.weekStartsOn ??
+		defaultOptions.locale?.options?.weekStartsOn ??
+		0;
+	const roundUp = options?.roundUp ?? false;
+
+	return parsed.operations.reduce(
+		(date, operation) =>
+			operation.type === 'round'
+				? roundDate(date, operation.unit, roundUp, weekStartsOn)
+				: add(new Date(date.getTime()), {
+						[dateMathDurationKeys[operation.unit]]: operation.amount,
+				  }),
+		parsed.anchor ?? new Date(toDate(options?.now ?? Date.now()).getTime()),
+	);
+}
@@ -0,0 +1,247 @@
+import type {
+	FormatDistanceFn,
+	FormatDistanceFnOptions,
+	FormatDistanceToken,
+	FormatLong,
+	FormatLongFn,
+	FormatLongWidth,
+	FormatRelativeFn,
+	FormatRelativeToken,
+	Locale,
+	Localize,
+	Match,
+	RelativeVocabulary,
+} from '../locale/types';
+import type { FirstWeekContainsDateOptions, WeekStartOptions } from '../types';
+import defaultLocale from '../_lib/defaultLocale/index';
+
+/**
+ * The localized distance of a {@link FormatDistanceToken}: a string,
+ * a pair of templates with the `{{count}}` placeholder or a function.
+ */
+export type LocaleOverridesDistance =
+	| string
+	| { one: string; other: string }
+	| ((count: number, options?: FormatDistanceFnOptions) => string);
+
+/**
+ * The format of a {@link FormatRelativeToken}: a format string or a function.
+ */
+export type LocaleOverridesRelative =
+	| string
+	| ((date: Date, baseDate: Date) => string);
+
+/**
+ * The long format: a function or the format strings by width.
+ */
+export type LocaleOverridesFormatLong =
+	| FormatLongFn
+	| Partial<Record<FormatLongWidth, string>>;
+
+/**
+ * The parts of a locale to replace. Every key is merged separately,
+ * so the missing keys are taken from the base locale.
+ */
+export interface LocaleOverrides {
+	code?: string;
+	localize?: Partial<Localize>;
+	formatLong?: Partial<Record<keyof FormatLong, LocaleOverridesFormatLong>>;
+	formatRelative?:
+		| FormatRelativeFn
+		| Partial<Record<FormatRelativeToken, LocaleOverridesRelative>>;
+	formatDistance?:
+		| FormatDistanceFn
+		| Partial<Record<FormatDistanceToken, LocaleOverridesDistance>>;
+	match?: Partial<Match>;
+	relative?: Partial<RelativeVocabulary>;
+	options?: WeekStartOptions & FirstWeekContainsDateOptions;
+}
+
+/**
+ * The locale fallback chain: the overrides from the most specific
+ * to the most generic, ending with a complete locale.
+ */
+export type LocaleFallbackChain = [...LocaleOverrides[], Locale];
+
+function assignDefined<Value extends object>(
+	target: Value,
+	source: Partial<Value> | undefined,
+): Value {
+	if (source) {
+		(Object.keys(source) as Array<keyof Value>).forEach((key) => {
+			if (source[key] !== undefined) {
+				target[key] = source[key]!;
+			}
+		});
+	}
+	return target;
+}
+
+function extendFormatLong(
+	base: FormatLong,
+	overrides: LocaleOverrides['formatLong'],
+): FormatLong {
+	const formatLong = { ...base };
+	if (overrides) {
+		(Object.keys(overrides) as Array<keyof FormatLong>).forEach((key) => {
+			const override = overrides[key];
+			if (typeof override === 'function') {
+				formatLong[key] = override;
+			} else if (override) {
+				formatLong[key] = (options) =>
+					(options?.width && override[options.width]) || base[key](options);
+			}
+		});
+	}
+	return formatLong;
+}
+
+function extendFormatRelative(
+	base: FormatRelativeFn,
+	overrides: LocaleOverrides['formatRelative'],
+): FormatRelativeFn {
+	if (!overrides) {
+		return base;
+	}
+	if (typeof overrides === 'function') {
+		return overrides;
+	}
+	return (token, date, baseDate, options) => {
+		const override = overrides[token];
+		if (typeof override === 'function') {
+			return override(date, baseDate);
+		}
+		return override ?? base(token, date, baseDate, options);
+	};
+}
+
+function extendFormatDistance(
+	base: FormatDistanceFn,
+	overrides: LocaleOverrides['formatDistance'],
+): FormatDistanceFn {
+	if (!overrides) {
+		return base;
+	}
+	if (typeof overrides === 'function') {
+		return overrides;
+	}
+	return (token, count, options) => {
+		const override = overrides[token];
+		if (override === undefined) {
+			return base(token, count, options);
+		}
+		if (typeof override === 'function') {
+			return override(count, options);
+		}
+
+		const result =
+			typeof override === 'string'
+				? override
+				: (count === 1 ? override.one : override.other).replace(
+						'{{count}}',
+						String(count),
+				  );
+		if (!options?.addSuffix) {
+			return result;
+		}
+
+		// Reuse the suffix of the base locale (e.g. "in X" or "X ago")
+		// by replacing its distance with the overridden one
+		const baseResult = base(token, count, { comparison: options.comparison });
+		const baseSuffixed = base(token, count, options);
+		return baseSuffixed.indexOf(baseResult) !== -1
+			? baseSuffixed.replace(baseResult, result)
+			: result;
+	};
+}
+
+function extendSingleLocale(base: Locale, overrides: LocaleOverrides): Locale {
+	const locale: Locale = {
+		code: overrides.code ?? base.code,
+		formatDistance: extendFormatDistance(
+			base.formatDistance,
+			overrides.formatDistance,
+		),
+		formatRelative: extendFormatRelative(
+			base.formatRelative,
+			overrides.formatRelative,
+		),
+		localize: assignDefined({ ...base.localize }, overrides.localize),
+		formatLong: extendFormatLong(base.formatLong, overrides.formatLong),
+		match: assignDefined({ ...base.match }, overrides.match),
+	};
+
+	if (base.options || overrides.options) {
+		locale.options = assignDefined({ ...base.options }, overrides.options);
+	}
+
+	if (base.relative || overrides.relative) {
+		// The locales without the vocabulary use the English one in `parseRelative`,
+		// so the overrides are applied on top of it
+		locale.relative = assignDefined(
+			{ ...(base.relative ?? defaultLocale.relative!) },
+			overrides.relative,
+		);
+	}
+
+	return locale;
+}
+
+/**
+ * @name extendLocale
+ * @category Common Helpers
+ * @summary Create a locale from another one with some parts replaced.
+ *
+ * @description
+ * Create a new locale from the base locale and the overrides.
+ * The base locale is not changed.
+ *
+ * Every key of `localize`, `formatLong`, `match`, `relative` and `options`
+ * is merged separately. `formatRelative` and `formatDistance` may be either
+ * functions, which replace the base ones, or objects by token:
+ *
+ * - `formatRelative` tokens take format strings (e.g. `"'yesterday,' p"`);
+ * - `formatDistance` tokens take strings, `{ one, other }` templates with
+ *   the `{{count}}` placeholder or functions. The suffix of the base locale
+ *   (e.g. "in X" or "X ago") is kept for the templates.
+ *
+ * The base may also be a fallback chain: the overrides of the most specific
+ * locale first, ending with a complete locale (e.g. `[ptBR, pt, enUS]`).
+ * The missing entries of every link are taken from the next one.
+ *
+ * The result can be passed to any function as `options.locale`
+ * or set as the default locale with `setDefaultOptions`.
+ *
+ * @param base - the locale or the fallback chain to extend
+ * @param overrides - the parts of the locale to replace
+ * @returns the new locale
+ *
+ * @example
+ * // English (United States) with weeks starting on Monday:
+ * const enMonday = extendLocale(enUS, {
+ *   formatRelative: { yesterday: "'the day before at' p" },
+ *   options: { weekStartsOn: 1 }
+ * })
+ * setDefaultOptions({ locale: enMonday })
+ * const result = startOfWeek(new Date(2014, 8, 2))
+ * //=> Mon Sep 01 2014 00:00:00
+ *
+ * @example
+ * // Fall back from Brazilian to European Portuguese, then to English:
+ * const ptBR = extendLocale([ptBROverrides, ptOverrides, enUS])
+ */
+export default function extendLocale(
+	base: Locale | LocaleFallbackChain,
+	overrides?: LocaleOverrides,
+): Locale {
+	const chain: LocaleOverrides[] = Array.isArray(base) ? base : [base];
+	const fallback = chain[chain.length - 1] as Locale;
+
+	// Apply the most generic overrides first, so the specific ones win
+	return (overrides ? [overrides] : [])
+		.concat(chain.slice(0, -1))
+		.reduceRight<Locale>(
+			(locale, localeOverrides) => extendSingleLocale(locale, localeOverrides),
+			extendSingleLocale(fallback, {}),
+		);
+}
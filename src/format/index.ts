@@ -1,52 +1,90 @@
 import isValid from '../isValid/index';
 import toDate from '../toDate/index';
 import type {
+	AdditionalFormatTokensOptions,
 	AdditionalTokensOptions,
-	Day,
-	FirstWeekContainsDate,
+	CustomTokensOptions,
 	FirstWeekContainsDateOptions,
-	LocaleOptions,
+	LocaleTagOptions,
+	NumberingSystemOptions,
 	WeekStartOptions,
 } from '../types';
-import defaultLocale from '../_lib/defaultLocale/index';
-import { getDefaultOptions } from '../_lib/defaultOptions/index';
-import formatters from '../_lib/format/formatters/index';
-import longFormatters from '../_lib/format/longFormatters/index';
 import {
-	isProtectedDayOfYearToken,
-	isProtectedWeekYearToken,
-	throwProtectedError,
-} from '../_lib/protectedTokens/index';
+	compileTokens,
+	formatTokens,
+	resolveFormatOptions,
+} from '../_lib/format/compile/index';
+import type {
+	CompiledToken,
+	ResolvedFormatOptions,
+} from '../_lib/format/compile/index';
+import { createLRUCache } from '../_lib/lruCache/index';
+
+// The compiled format strings, so the format strings used repeatedly
+// are tokenized and validated only once. The tokens are formatted
+// with the options resolved on every call, so only the long formats
+// of the locale are fixed at compile time
+const compiledFormats = createLRUCache<CompiledToken[]>(100);
 
-// This RegExp consists of three parts separated by `|`:
-// - [yYQqMLwIdDecihHKkms]o matches any available ordinal number token
-//   (one of the certain letters followed by `o`)
-// - (\w)\1* matches any sequences of the same letter
-// - '' matches two quote characters in a row
-// - '(''|[^'])+('|$) matches anything surrounded by two quote characters ('),
-//   except a single quote symbol, which ends the sequence.
-//   Two quote characters do not end the sequence.
-//   If there is no matching single quote
-//   then the sequence will continue until the end of the string.
-// - . matches any single character unmatched by previous parts of the RegExps
-const formattingTokensRegExp = /[yYQqMLwIdDecihHKkms]o|(\w)\1*|''|'(''|[^'])+('|$)|./g;
+// The long formats of the locale and the custom formatters are the part
+// of the cache key, so each of their functions gets an id
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 0;
 
-// This RegExp catches symbols escaped by quotes, and also
-// sequences of symbols P, p, and the combinations like `PPPPPPPppppp`
-const longFormattingTokensRegExp = /P+p+|P+|p+|''|'(''|[^'])+('|$)|./g;
+function getObjectId(object: object | undefined): number | '' {
+	if (!object) {
+		return '';
+	}
+	let id = objectIds.get(object);
+	if (id === undefined) {
+		id = nextObjectId++;
+		objectIds.set(object, id);
+	}
+	return id;
+}
+
+// The functions by letter rather than the object, so the replaced ones
+// are noticed and the new objects with the same functions share the key
+function getCustomFormattersKey(
+	customFormatters: ResolvedFormatOptions['customFormatters'],
+): string {
+	if (!customFormatters) {
+		return '';
+	}
+	return Object.keys(customFormatters)
+		.sort()
+		.map((letter) => letter + getObjectId(customFormatters[letter]))
+		.join(',');
+}
 
-const escapedStringRegExp = /^'([^]*?)'?$/;
-const doubleQuoteRegExp = /''/g;
-const unescapedLatinCharacterRegExp = /[a-zA-Z]/;
+function getCacheKey(formatStr: string, resolved: ResolvedFormatOptions) {
+	const { formatLong } = resolved.locale;
+	return [
+		// The functions rather than the locale, so the replaced ones are noticed
+		getObjectId(formatLong.date),
+		getObjectId(formatLong.time),
+		getObjectId(formatLong.dateTime),
+		getCustomFormattersKey(resolved.customFormatters),
+		+resolved.useAdditionalWeekYearTokens,
+		+resolved.useAdditionalDayOfYearTokens,
+		+resolved.useAdditionalMillisecondsInDayTokens,
+		+resolved.useAdditionalWeekOfMonthTokens,
+		// The format string goes last, so it may contain the separator
+		formatStr,
+	].join('|');
+}
 
 /**
  * The {@link format} function options.
  */
 export interface FormatOptions
-	extends LocaleOptions,
+	extends LocaleTagOptions,
 		WeekStartOptions,
 		FirstWeekContainsDateOptions,
-		AdditionalTokensOptions {}
+		AdditionalTokensOptions,
+		AdditionalFormatTokensOptions,
+		NumberingSystemOptions,
+		CustomTokensOptions {}
 
 /**
  * @name format
@@ -95,6 +133,13 @@ export interface FormatOptions
  * |                                 | uuu     | -043, 001, 1900, 2017             | 5     |
  * |                                 | uuuu    | -0043, 0001, 1900, 2017           | 5     |
  * |                                 | uuuuu   | ...                               | 3,5   |
+ * | Cyclic year                     | U       | 44, 1, 1900, 2017                 | 5,13  |
+ * |                                 | UU      | 44, 01, 00, 17                    | 5,13  |
+ * |                                 | UUU     | 044, 001, 1900, 2017              | 5,13  |
+ * |                                 | UUUU    | 0044, 0001, 1900, 2017            | 5,13  |
+ * | Related Gregorian year          | r       | -43, 0, 1, 1900, 2017             | 5     |
+ * |                                 | rr      | -43, 01, 1900, 2017               | 5     |
+ * |                                 | rrrr    | -0043, 0001, 1900, 2017           | 5     |
  * | Quarter (formatting)            | Q       | 1, 2, 3, 4                        |       |
  * |                                 | Qo      | 1st, 2nd, 3rd, 4th                | 7     |
  * |                                 | QQ      | 01, 02, 03, 04                    |       |
@@ -125,6 +170,8 @@ export interface FormatOptions
  * | ISO week of year                | I       | 1, 2, ..., 53                     | 7     |
  * |                                 | Io      | 1st, 2nd, ..., 53th               | 7     |
  * |                                 | II      | 01, 02, ..., 53                   | 7     |
+ * | Week of month                   | W       | 1, 2, ..., 6                      | 12    |
+ * | Day of week in month            | F       | 1, 2, ..., 5                      |       |
  * | Day of month                    | d       | 1, 2, ..., 31                     |       |
  * |                                 | do      | 1st, 2nd, ..., 31st               | 7     |
  * |                                 | dd      | 01, 02, ..., 31                   |       |
@@ -133,6 +180,8 @@ export interface FormatOptions
  * |                                 | DD      | 01, 02, ..., 365, 366             | 9     |
  * |                                 | DDD     | 001, 002, ..., 365, 366           |       |
  * |                                 | DDDD    | ...                               | 3     |
+ * | Modified Julian day             | g       | 46524, 51544, 58849               |       |
+ * |                                 | gg...   | ...                               | 3     |
  * | Day of week (formatting)        | E..EEE  | Mon, Tue, Wed, ..., Sun           |       |
  * |                                 | EEEE    | Monday, Tuesday, ..., Sunday      | 2     |
  * |                                 | EEEEE   | M, T, W, T, F, S, S               |       |
@@ -191,6 +240,8 @@ export interface FormatOptions
  * |                                 | SS      | 00, 01, ..., 99                   |       |
  * |                                 | SSS     | 000, 001, ..., 999                |       |
  * |                                 | SSSS    | ...                               | 3     |
+ * | Milliseconds in day             | A       | 0, 1, ..., 86399999               | 12    |
+ * |                                 | AA...   | ...                               | 3     |
  * | Timezone (ISO-8601 w/ Z)        | X       | -08, +0530, Z                     |       |
  * |                                 | XX      | -0800, +0530, Z                   |       |
  * |                                 | XXX     | -08:00, +05:30, Z                 |       |
@@ -203,8 +254,17 @@ export interface FormatOptions
  * |                                 | xxxxx   | -08:00, +05:30, +00:00, +12:34:56 |       |
  * | Timezone (GMT)                  | O...OOO | GMT-8, GMT+5:30, GMT+0            |       |
  * |                                 | OOOO    | GMT-08:00, GMT+05:30, GMT+00:00   | 2     |
- * | Timezone (specific non-locat.)  | z...zzz | GMT-8, GMT+5:30, GMT+0            | 6     |
- * |                                 | zzzz    | GMT-08:00, GMT+05:30, GMT+00:00   | 2,6   |
+ * | Timezone (specific non-locat.)  | z...zzz | PST, CEST, GMT+5:30               | 6     |
+ * |                                 | zzzz    | Pacific Standard Time, ...        | 2,6   |
+ * | Timezone (generic non-locat.)   | v       | PT, Germany Time, India Time      | 6     |
+ * |                                 | vvvv    | Pacific Time, ...                 | 2,6   |
+ * | Timezone (location)             | V       | unk                               | 6     |
+ * |                                 | VV      | America/Los_Angeles, Asia/Kolkata |       |
+ * |                                 | VVV     | Los Angeles, Kolkata              |       |
+ * |                                 | VVVV    | GMT-08:00, GMT+05:30, GMT+00:00   | 2,6   |
+ * | Timezone (ISO-8601 basic, GMT)  | Z..ZZZ  | -0800, +0530, +0000               |       |
+ * |                                 | ZZZZ    | GMT-08:00, GMT+05:30, GMT+00:00   | 2     |
+ * |                                 | ZZZZZ   | -08:00, +05:30, Z                 |       |
  * | Seconds timestamp               | t       | 512969520                         | 7     |
  * |                                 | tt      | ...                               | 3,7   |
  * | Milliseconds timestamp          | T       | 512969520900                      | 7     |
@@ -216,7 +276,7 @@ export interface FormatOptions
  * | Long localized time             | p       | 12:00 AM                          | 7     |
  * |                                 | pp      | 12:00:00 AM                       | 7     |
  * |                                 | ppp     | 12:00:00 AM GMT+2                 | 7     |
- * |                                 | pppp    | 12:00:00 AM GMT+02:00             | 2,7   |
+ * |                                 | pppp    | 12:00:00 AM Eastern European Time | 2,7   |
  * | Combination of date and time    | Pp      | 04/29/1453, 12:00 AM              | 7     |
  * |                                 | PPpp    | Apr 29, 1453, 12:00:00 AM         | 7     |
  * |                                 | PPPppp  | April 29th, 1453 at ...           | 7     |
@@ -279,8 +339,12 @@ export interface FormatOptions
  *    and `options.firstWeekContainsDate` (compare [getISOWeekYear]{@link https://date-fns.org/docs/getISOWeekYear}
  *    and [getWeekYear]{@link https://date-fns.org/docs/getWeekYear}).
  *
- * 6. Specific non-location timezones are currently unavailable in `date-fns`,
- *    so right now these tokens fall back to GMT timezones.
+ * 6. Specific and generic non-location timezone names come from `Intl.DateTimeFormat`
+ *    in the language of the locale (`locale.code`). The runtime names the zones
+ *    without abbreviations with GMT offsets (e.g. `GMT+5:30`), and these tokens
+ *    fall back to GMT timezones when the runtime lacks the names.
+ *    Location timezone names and the short timezone IDs are currently unavailable
+ *    in `date-fns`, so `VVVV` falls back to GMT timezones and `V` returns `unk`.
  *
  * 7. These patterns are not in the Unicode Technical Standard #35:
  *    - `i`: ISO day of week
@@ -298,6 +362,27 @@ export interface FormatOptions
  * 9. `D` and `DD` tokens represent days of the year but they are often confused with days of the month.
  *    You should enable `options.useAdditionalDayOfYearTokens` to use them. See: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
  *
+ * 10. Numbers are written with ASCII digits, unless the locale defines `localize.numeral`
+ *     or `options.numberingSystem` sets a Unicode numbering system (e.g. `arab`, `arabext`, `deva`, `thai`).
+ *     The digits of every token are replaced, including ordinal numbers and time zones.
+ *
+ * 11. `options.formatters` adds the custom tokens keyed by the unused latin letters,
+ *     e.g. the fiscal week or the shift letter. The formatters have the same arguments
+ *     as the built-in ones: the date, the token (e.g. `ff` for `f`), `locale.localize`
+ *     and the resolved locale and week options. The custom tokens are escaped
+ *     like the built-in ones and the digits of their results are replaced as well.
+ *
+ * 12. `A` token represents milliseconds in day and `W` and `WW` tokens represent weeks of the month
+ *     but they are often confused with AM/PM and ISO weeks of Moment.js.
+ *     You should enable `options.useAdditionalMillisecondsInDayTokens`
+ *     and `options.useAdditionalWeekOfMonthTokens` to use them.
+ *     See: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ *
+ * 13. The Gregorian calendar has no cyclic year names, so `U` tokens are numeric years like `y`.
+ *
+ * The recently used format strings are compiled once and cached.
+ * Use `compileFormat` to format many dates with the same format string and options.
+ *
  * @param date - the original date
  * @param format - the string of tokens
  * @param options - an object with options.
@@ -305,11 +390,17 @@ export interface FormatOptions
  * @throws {RangeError} `date` must not be Invalid Date
  * @throws {RangeError} `options.locale` must contain `localize` property
  * @throws {RangeError} `options.locale` must contain `formatLong` property
+ * @throws {RangeError} `options.locale` tag must be registered and loaded with `resolveLocale`
  * @throws {RangeError} use `yyyy` instead of `YYYY` for formatting years using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
  * @throws {RangeError} use `yy` instead of `YY` for formatting years using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
  * @throws {RangeError} use `d` instead of `D` for formatting days of the month using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
  * @throws {RangeError} use `dd` instead of `DD` for formatting days of the month using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `a` instead of `A` for formatting AM/PM using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `I` instead of `W` for formatting ISO weeks of the year using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `II` instead of `WW` for formatting ISO weeks of the year using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
  * @throws {RangeError} format string contains an unescaped latin alphabet character
+ * @throws {RangeError} `options.numberingSystem` must be supported by `Intl`
+ * @throws {RangeError} `options.formatters` keys must be single latin letters unused by `format`
  *
  * @example
  * // Represent 11 February 2014 in middle-endian format:
@@ -328,6 +419,22 @@ export interface FormatOptions
  * // Escape string by single quote characters:
  * const result = format(new Date(2014, 6, 2, 15), "h 'o''clock'")
  * //=> "3 o'clock"
+ *
+ * @example
+ * // Represent 2 July 2014 with Arabic-Indic digits:
+ * const result = format(new Date(2014, 6, 2), 'dd/MM/yyyy', {
+ *   numberingSystem: 'arab'
+ * })
+ * //=> '٠٢/٠٧/٢٠١٤'
+ *
+ * @example
+ * // Add the custom token of the shift letter:
+ * const result = format(new Date(2014, 6, 2, 15), "yyyy-MM-dd 'shift' f", {
+ *   formatters: {
+ *     f: (date) => ['A', 'B', 'C'][Math.floor(date.getHours() / 8)]
+ *   }
+ * })
+ * //=> '2014-07-02 shift B'
  */
 
 export default function format(
@@ -335,30 +442,7 @@ export default function format(
 	formatStr: string,
 	options?: FormatOptions,
 ): string {
-	const defaultOptions = getDefaultOptions();
-	const locale = options?.locale ?? defaultOptions.locale ?? defaultLocale;
-
-	const firstWeekContainsDate =
-		options?.firstWeekContainsDate ??
-		options?.locale?.options?.firstWeekContainsDate ??
-		defaultOptions.firstWeekContainsDate ??
-		defaultOptions.locale?.options?.firstWeekContainsDate ??
-		1;
-
-	const weekStartsOn =
-		options?.weekStartsOn ??
-		options?.locale?.options?.weekStartsOn ??
-		defaultOptions.weekStartsOn ??
-		defaultOptions.locale?.options?.weekStartsOn ??
-		0;
-
-	if (!locale.localize) {
-		throw new RangeError('locale must contain localize property');
-	}
-
-	if (!locale.formatLong) {
-		throw new RangeError('locale must contain formatLong property');
-	}
+	const resolved = resolveFormatOptions(options);
 
 	const originalDate = toDate(dirtyDate);
 
@@ -366,79 +450,12 @@ export default function format(
 		throw new RangeError('Invalid time value');
 	}
 
-	const formatterOptions = {
-		firstWeekContainsDate: firstWeekContainsDate as FirstWeekContainsDate,
-		weekStartsOn: weekStartsOn as Day,
-		locale,
-		_originalDate: originalDate,
-	};
-
-	const result = formatStr
-		.match(longFormattingTokensRegExp)!
-		.map(function (substring) {
-			const firstCharacter = substring[0];
-			if (firstCharacter === 'p' || firstCharacter === 'P') {
-				const longFormatter = longFormatters[firstCharacter];
-				return longFormatter(substring, locale.formatLong);
-			}
-			return substring;
-		})
-		.join('')
-		.match(formattingTokensRegExp)!
-		.map(function (substring) {
-			// Replace two single quote characters with one single quote character
-			if (substring === "''") {
-				return "'";
-			}
-
-			const firstCharacter = substring[0];
-			if (firstCharacter === "'") {
-				return cleanEscapedString(substring);
-			}
-
-			const formatter = formatters[firstCharacter];
-			if (formatter) {
-				if (
-					!options?.useAdditionalWeekYearTokens &&
-					isProtectedWeekYearToken(substring)
-				) {
-					throwProtectedError(substring, formatStr, String(dirtyDate));
-				}
-				if (
-					!options?.useAdditionalDayOfYearTokens &&
-					isProtectedDayOfYearToken(substring)
-				) {
-					throwProtectedError(substring, formatStr, String(dirtyDate));
-				}
-				return formatter(
-					originalDate,
-					substring,
-					locale.localize,
-					formatterOptions,
-				);
-			}
-
-			if (firstCharacter.match(unescapedLatinCharacterRegExp)) {
-				throw new RangeError(
-					'Format string contains an unescaped latin alphabet character `' +
-						firstCharacter +
-						'`',
-				);
-			}
-
-			return substring;
-		})
-		.join('');
-
-	return result;
-}
-
-function cleanEscapedString(input: string): string {
-	const matched = input.match(escapedStringRegExp);
-
-	if (!matched) {
-		return input;
+	const key = getCacheKey(formatStr, resolved);
+	let tokens = compiledFormats.get(key);
+	if (!tokens) {
+		tokens = compileTokens(formatStr, resolved, String(dirtyDate));
+		compiledFormats.set(key, tokens);
 	}
 
-	return matched[1].replace(doubleQuoteRegExp, "'");
+	return formatTokens(tokens, originalDate, resolved).join('');
 }
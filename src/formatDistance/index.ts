@@ -3,17 +3,22 @@ import { minutesInDay, minutesInMonth } from '../constants/index';
 import differenceInMonths from '../differenceInMonths/index';
 import differenceInSeconds from '../differenceInSeconds/index';
 import toDate from '../toDate/index';
-import type { LocaleOptions } from '../types';
+import type { FormatDistanceFn } from '../locale/types';
+import type { LocaleTagOptions, NumberingSystemOptions } from '../types';
 import assign from '../_lib/assign/index';
 import cloneObject from '../_lib/cloneObject/index';
 import defaultLocale from '../_lib/defaultLocale/index';
 import { getDefaultOptions } from '../_lib/defaultOptions/index';
 import getTimezoneOffsetInMilliseconds from '../_lib/getTimezoneOffsetInMilliseconds/index';
+import { getOptionsLocale } from '../_lib/localeRegistry/index';
+import { getNumeralFn } from '../_lib/numerals/index';
 
 /**
  * The {@link formatDistance} function options.
  */
-export interface FormatDistanceOptions extends LocaleOptions {
+export interface FormatDistanceOptions
+	extends LocaleTagOptions,
+		NumberingSystemOptions {
 	includeSeconds?: boolean;
 	addSuffix?: boolean;
 }
@@ -62,6 +67,8 @@ export interface FormatDistanceOptions extends LocaleOptions {
  * @throws {RangeError} `date` must not be Invalid Date
  * @throws {RangeError} `baseDate` must not be Invalid Date
  * @throws {RangeError} `options.locale` must contain `formatDistance` property
+ * @throws {RangeError} `options.locale` tag must be registered and loaded with `resolveLocale`
+ * @throws {RangeError} `options.numberingSystem` must be supported by `Intl`
  *
  * @example
  * // What is the distance between 2 July 2014 and 1 January 2015?
@@ -101,13 +108,21 @@ export default function formatDistance(
 	options?: FormatDistanceOptions,
 ): string {
 	const defaultOptions = getDefaultOptions();
-	const locale = options?.locale ?? defaultOptions.locale ?? defaultLocale;
+	const locale =
+		getOptionsLocale(options?.locale) ?? defaultOptions.locale ?? defaultLocale;
 	const minutesInAlmostTwoDays = 2520;
 
 	if (!locale.formatDistance) {
 		throw new RangeError('locale must contain formatDistance property');
 	}
 
+	const numeral = getNumeralFn(
+		locale,
+		options?.numberingSystem ?? defaultOptions.numberingSystem,
+	);
+	const localizeDistance: FormatDistanceFn = (token, count, distanceOptions) =>
+		numeral(locale.formatDistance(token, count, distanceOptions));
+
 	const comparison = compareAsc(dirtyDate, dirtyBaseDate);
 
 	if (isNaN(comparison)) {
@@ -141,52 +156,52 @@ export default function formatDistance(
 	if (minutes < 2) {
 		if (options?.includeSeconds) {
 			if (seconds < 5) {
-				return locale.formatDistance('lessThanXSeconds', 5, localizeOptions);
+				return localizeDistance('lessThanXSeconds', 5, localizeOptions);
 			} else if (seconds < 10) {
-				return locale.formatDistance('lessThanXSeconds', 10, localizeOptions);
+				return localizeDistance('lessThanXSeconds', 10, localizeOptions);
 			} else if (seconds < 20) {
-				return locale.formatDistance('lessThanXSeconds', 20, localizeOptions);
+				return localizeDistance('lessThanXSeconds', 20, localizeOptions);
 			} else if (seconds < 40) {
-				return locale.formatDistance('halfAMinute', 0, localizeOptions);
+				return localizeDistance('halfAMinute', 0, localizeOptions);
 			} else if (seconds < 60) {
-				return locale.formatDistance('lessThanXMinutes', 1, localizeOptions);
+				return localizeDistance('lessThanXMinutes', 1, localizeOptions);
 			} else {
-				return locale.formatDistance('xMinutes', 1, localizeOptions);
+				return localizeDistance('xMinutes', 1, localizeOptions);
 			}
 		} else {
 			if (minutes === 0) {
-				return locale.formatDistance('lessThanXMinutes', 1, localizeOptions);
+				return localizeDistance('lessThanXMinutes', 1, localizeOptions);
 			} else {
-				return locale.formatDistance('xMinutes', minutes, localizeOptions);
+				return localizeDistance('xMinutes', minutes, localizeOptions);
 			}
 		}
 
 		// 2 mins up to 0.75 hrs
 	} else if (minutes < 45) {
-		return locale.formatDistance('xMinutes', minutes, localizeOptions);
+		return localizeDistance('xMinutes', minutes, localizeOptions);
 
 		// 0.75 hrs up to 1.5 hrs
 	} else if (minutes < 90) {
-		return locale.formatDistance('aboutXHours', 1, localizeOptions);
+		return localizeDistance('aboutXHours', 1, localizeOptions);
 
 		// 1.5 hrs up to 24 hrs
 	} else if (minutes < minutesInDay) {
 		const hours = Math.round(minutes / 60);
-		return locale.formatDistance('aboutXHours', hours, localizeOptions);
+		return localizeDistance('aboutXHours', hours, localizeOptions);
 
 		// 1 day up to 1.75 days
 	} else if (minutes < minutesInAlmostTwoDays) {
-		return locale.formatDistance('xDays', 1, localizeOptions);
+		return localizeDistance('xDays', 1, localizeOptions);
 
 		// 1.75 days up to 30 days
 	} else if (minutes < minutesInMonth) {
 		const days = Math.round(minutes / minutesInDay);
-		return locale.formatDistance('xDays', days, localizeOptions);
+		return localizeDistance('xDays', days, localizeOptions);
 
 		// 1 month up to 2 months
 	} else if (minutes < minutesInMonth * 2) {
 		months = Math.round(minutes / minutesInMonth);
-		return locale.formatDistance('aboutXMonths', months, localizeOptions);
+		return localizeDistance('aboutXMonths', months, localizeOptions);
 	}
 
 	months = differenceInMonths(dateRight, dateLeft);
@@ -194,7 +209,7 @@ export default function formatDistance(
 	// 2 months up to 12 months
 	if (months < 12) {
 		const nearestMonth = Math.round(minutes / minutesInMonth);
-		return locale.formatDistance('xMonths', nearestMonth, localizeOptions);
+		return localizeDistance('xMonths', nearestMonth, localizeOptions);
 
 		// 1 year up to max Date
 	} else {
@@ -203,15 +218,15 @@ export default function formatDistance(
 
 		// N years up to 1 years 3 months
 		if (monthsSinceStartOfYear < 3) {
-			return locale.formatDistance('aboutXYears', years, localizeOptions);
+			return localizeDistance('aboutXYears', years, localizeOptions);
 
 			// N years 3 months up to N years 9 months
 		} else if (monthsSinceStartOfYear < 9) {
-			return locale.formatDistance('overXYears', years, localizeOptions);
+			return localizeDistance('overXYears', years, localizeOptions);
 
 			// N years 9 months up to N year 12 months
 		} else {
-			return locale.formatDistance('almostXYears', years + 1, localizeOptions);
+			return localizeDistance('almostXYears', years + 1, localizeOptions);
 		}
 	}
 }
@@ -6,18 +6,26 @@ import {
 	minutesInYear,
 } from '../constants/index';
 import toDate from '../toDate/index';
-import type { LocaleOptions, FormatDistanceStrictUnit } from '../types';
+import type { FormatDistanceFn } from '../locale/types';
+import type {
+	LocaleOptions,
+	FormatDistanceStrictUnit,
+	NumberingSystemOptions,
+} from '../types';
 import assign from '../_lib/assign/index';
 import cloneObject from '../_lib/cloneObject/index';
 import defaultLocale from '../_lib/defaultLocale/index';
 import { getDefaultOptions } from '../_lib/defaultOptions/index';
 import getTimezoneOffsetInMilliseconds from '../_lib/getTimezoneOffsetInMilliseconds/index';
+import { getNumeralFn } from '../_lib/numerals/index';
 import { getRoundingMethod } from '../_lib/roundingMethods/index';
 
 /**
  * The {@link formatDistanceStrict} function options.
  */
-export interface FormatDistanceStrictOptions extends LocaleOptions {
+export interface FormatDistanceStrictOptions
+	extends LocaleOptions,
+		NumberingSystemOptions {
 	addSuffix?: boolean;
 	unit?: FormatDistanceStrictUnit;
 	roundingMethod?: 'floor' | 'ceil' | 'round';
@@ -50,6 +58,7 @@ export interface FormatDistanceStrictOptions extends LocaleOptions {
  * @throws {RangeError} `baseDate` must not be Invalid Date
  * @throws {RangeError} `options.unit` must be 'second', 'minute', 'hour', 'day', 'month' or 'year'
  * @throws {RangeError} `options.locale` must contain `formatDistance` property
+ * @throws {RangeError} `options.numberingSystem` must be supported by `Intl`
  *
  * @example
  * // What is the distance between 2 July 2014 and 1 January 2015?
@@ -113,6 +122,13 @@ export default function formatDistanceStrict(
 		);
 	}
 
+	const numeral = getNumeralFn(
+		locale,
+		options?.numberingSystem ?? defaultOptions.numberingSystem,
+	);
+	const localizeDistance: FormatDistanceFn = (token, count, distanceOptions) =>
+		numeral(locale.formatDistance(token, count, distanceOptions));
+
 	const comparison = compareAsc(dirtyDate, dirtyBaseDate);
 
 	if (isNaN(comparison)) {
@@ -171,33 +187,33 @@ export default function formatDistanceStrict(
 	// 0 up to 60 seconds
 	if (unit === 'second') {
 		const seconds = roundingMethod(milliseconds / 1000);
-		return locale.formatDistance('xSeconds', seconds, localizeOptions);
+		return localizeDistance('xSeconds', seconds, localizeOptions);
 
 		// 1 up to 60 mins
 	} else if (unit === 'minute') {
 		const roundedMinutes = roundingMethod(minutes);
-		return locale.formatDistance('xMinutes', roundedMinutes, localizeOptions);
+		return localizeDistance('xMinutes', roundedMinutes, localizeOptions);
 
 		// 1 up to 24 hours
 	} else if (unit === 'hour') {
 		const hours = roundingMethod(minutes / 60);
-		return locale.formatDistance('xHours', hours, localizeOptions);
+		return localizeDistance('xHours', hours, localizeOptions);
 
 		// 1 up to 30 days
 	} else if (unit === 'day') {
 		const days = roundingMethod(dstNormalizedMinutes / minutesInDay);
-		return locale.formatDistance('xDays', days, localizeOptions);
+		return localizeDistance('xDays', days, localizeOptions);
 
 		// 1 up to 12 months
 	} else if (unit === 'month') {
 		const months = roundingMethod(dstNormalizedMinutes / minutesInMonth);
 		return months === 12 && defaultUnit !== 'month'
-			? locale.formatDistance('xYears', 1, localizeOptions)
-			: locale.formatDistance('xMonths', months, localizeOptions);
+			? localizeDistance('xYears', 1, localizeOptions)
+			: localizeDistance('xMonths', months, localizeOptions);
 
 		// 1 year up to max Date
 	} else {
 		const years = roundingMethod(dstNormalizedMinutes / minutesInYear);
-		return locale.formatDistance('xYears', years, localizeOptions);
+		return localizeDistance('xYears', years, localizeOptions);
 	}
 }
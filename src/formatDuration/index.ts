@@ -1,12 +1,20 @@
 import type { FormatDistanceToken } from '../locale/types';
-import type { Duration, DurationUnit, LocaleOptions } from '../types';
+import type {
+	Duration,
+	DurationUnit,
+	LocaleOptions,
+	NumberingSystemOptions,
+} from '../types';
 import defaultLocale from '../_lib/defaultLocale/index';
 import { getDefaultOptions } from '../_lib/defaultOptions/index';
+import { getNumeralFn } from '../_lib/numerals/index';
 
 /**
  * The {@link formatDuration} function options.
  */
-export interface FormatDurationOptions extends LocaleOptions {
+export interface FormatDurationOptions
+	extends LocaleOptions,
+		NumberingSystemOptions {
 	format?: DurationUnit[];
 	zero?: boolean;
 	delimiter?: string;
@@ -93,6 +101,11 @@ export default function formatDuration(
 		return '';
 	}
 
+	const numeral = getNumeralFn(
+		locale,
+		options?.numberingSystem ?? defaultOptions.numberingSystem,
+	);
+
 	const result = format
 		.reduce((acc, unit) => {
 			const token = `x${unit.replace(/(^.)/, (m) =>
@@ -100,7 +113,7 @@ export default function formatDuration(
 			)}` as FormatDistanceToken;
 			const value = duration[unit];
 			if (value !== undefined && (zero || duration[unit])) {
-				return acc.concat(locale.formatDistance(token, value));
+				return acc.concat(numeral(locale.formatDistance(token, value)));
 			}
 			return acc;
 		}, [] as string[])
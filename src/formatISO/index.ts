@@ -1,13 +1,49 @@
+import { millisecondsInMinute } from '../constants/index';
 import toDate from '../toDate/index';
-import type { FormatOptions, RepresentationOptions } from '../types';
+import type {
+	ExpandedYearOptions,
+	FormatOptions,
+	RepresentationOptions,
+} from '../types';
 import addLeadingZeros from '../_lib/addLeadingZeros/index';
+import formatExpandedYear from '../_lib/formatExpandedYear/index';
 
 /**
  * The {@link formatISO} function options.
  */
 export interface FormatISOOptions
 	extends FormatOptions,
-		RepresentationOptions {}
+		RepresentationOptions,
+		ExpandedYearOptions {
+	/** The offset from UTC in minutes, e.g. `330` for `+05:30`; the local offset by default */
+	offset?: number;
+}
+
+// Returns the wall clock time of the date in the zone of the offset
+// in minutes, or in the local time zone if the offset isn't given
+function getWallClock(date: Date, offset: number | undefined) {
+	if (offset === undefined) {
+		return {
+			year: date.getFullYear(),
+			month: date.getMonth(),
+			day: date.getDate(),
+			hours: date.getHours(),
+			minutes: date.getMinutes(),
+			seconds: date.getSeconds(),
+		};
+	}
+
+	// The UTC fields of the shifted date are the wall clock time in the zone
+	const zonedDate = new Date(date.getTime() + offset * millisecondsInMinute);
+	return {
+		year: zonedDate.getUTCFullYear(),
+		month: zonedDate.getUTCMonth(),
+		day: zonedDate.getUTCDate(),
+		hours: zonedDate.getUTCHours(),
+		minutes: zonedDate.getUTCMinutes(),
+		seconds: zonedDate.getUTCSeconds(),
+	};
+}
 
 /**
  * @name formatISO
@@ -17,10 +53,21 @@ export interface FormatISOOptions
  * @description
  * Return the formatted date string in ISO 8601 format. Options may be passed to control the parts and notations of the date.
  *
+ * The date is represented in the local time zone, or in the zone
+ * of `options.offset` minutes from UTC, e.g. the offset returned
+ * by `parseISO` with `keepOffset`.
+ *
+ * The year is padded to 4 digits. Pass `expandedYear: true` to emit
+ * the signed expanded year with `options.additionalDigits` (2 by default)
+ * more digits, e.g. `+002024` or `-000044`, which `parseISO` parses
+ * with the same `additionalDigits`.
+ *
  * @param date - the original date
  * @param options - an object with options.
  * @returns the formatted date string (in local time zone)
  * @throws {RangeError} `date` must not be Invalid Date
+ * @throws {RangeError} `options.offset` must be an integer between -1439 and 1439
+ * @throws {RangeError} the expanded year must fit in `4 + options.additionalDigits` digits
  *
  * @example
  * // Represent 18 September 2019 in ISO 8601 format (local time zone is UTC):
@@ -41,6 +88,18 @@ export interface FormatISOOptions
  * // Represent 18 September 2019 in ISO 8601 format, time only (local time zone is UTC):
  * const result = formatISO(new Date(2019, 8, 18, 19, 0, 52), { representation: 'time' })
  * //=> '19:00:52Z'
+ *
+ * @example
+ * // Represent the same moment with the +05:30 offset:
+ * const result = formatISO(new Date(Date.UTC(2019, 8, 18, 19, 0, 52)), { offset: 330 })
+ * //=> '2019-09-19T00:30:52+05:30'
+ *
+ * @example
+ * // Represent 15 March 44 BC (the year -43) with the expanded year:
+ * const date = new Date(Date.UTC(2000, 2, 15))
+ * date.setUTCFullYear(-43)
+ * const result = formatISO(date, { expandedYear: true, offset: 0 })
+ * //=> '-000043-03-15T00:00:00Z'
  */
 export default function formatISO(
 	date: Date | number,
@@ -52,6 +111,17 @@ export default function formatISO(
 		throw new RangeError('Invalid time value');
 	}
 
+	const offset = options?.offset;
+
+	if (
+		offset !== undefined &&
+		(!Number.isInteger(offset) || Math.abs(offset) >= 1440)
+	) {
+		throw new RangeError('offset must be an integer between -1439 and 1439');
+	}
+
+	const wallClock = getWallClock(originalDate, offset);
+
 	const format = options?.format ?? 'extended';
 	const representation = options?.representation ?? 'complete';
 
@@ -63,9 +133,11 @@ export default function formatISO(
 
 	// Representation is either 'date' or 'complete'
 	if (representation !== 'time') {
-		const day = addLeadingZeros(originalDate.getDate(), 2);
-		const month = addLeadingZeros(originalDate.getMonth() + 1, 2);
-		const year = addLeadingZeros(originalDate.getFullYear(), 4);
+		const day = addLeadingZeros(wallClock.day, 2);
+		const month = addLeadingZeros(wallClock.month + 1, 2);
+		const year = options?.expandedYear
+			? formatExpandedYear(wallClock.year, options.additionalDigits ?? 2)
+			: addLeadingZeros(wallClock.year, 4);
 
 		// yyyyMMdd or yyyy-MM-dd.
 		result = `${year}${dateDelimiter}${month}${dateDelimiter}${day}`;
@@ -74,23 +146,22 @@ export default function formatISO(
 	// Representation is either 'time' or 'complete'
 	if (representation !== 'date') {
 		// Add the timezone.
-		const offset = originalDate.getTimezoneOffset();
+		const zoneOffset = offset ?? -originalDate.getTimezoneOffset();
 
-		if (offset !== 0) {
-			const absoluteOffset = Math.abs(offset);
+		if (zoneOffset !== 0) {
+			const absoluteOffset = Math.abs(zoneOffset);
 			const hourOffset = addLeadingZeros(Math.floor(absoluteOffset / 60), 2);
 			const minuteOffset = addLeadingZeros(absoluteOffset % 60, 2);
-			// If less than 0, the sign is +, because it is ahead of time.
-			const sign = offset < 0 ? '+' : '-';
+			const sign = zoneOffset < 0 ? '-' : '+';
 
 			tzOffset = `${sign}${hourOffset}:${minuteOffset}`;
 		} else {
 			tzOffset = 'Z';
 		}
 
-		const hour = addLeadingZeros(originalDate.getHours(), 2);
-		const minute = addLeadingZeros(originalDate.getMinutes(), 2);
-		const second = addLeadingZeros(originalDate.getSeconds(), 2);
+		const hour = addLeadingZeros(wallClock.hours, 2);
+		const minute = addLeadingZeros(wallClock.minutes, 2);
+		const second = addLeadingZeros(wallClock.seconds, 2);
 
 		// If there's also date, separate it with time with 'T'
 		const separator = result === '' ? '' : 'T';
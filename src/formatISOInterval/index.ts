@@ -0,0 +1,118 @@
+import formatISO from '../formatISO/index';
+import type { FormatISOOptions } from '../formatISO/index';
+import formatISODuration from '../formatISODuration/index';
+import type { Duration, Interval } from '../types';
+
+/**
+ * The interval in one of the ISO 8601 forms: the start and the end,
+ * the start and the duration or the duration and the end.
+ */
+export type ISOIntervalInput =
+	| Interval
+	| { start: Date | number; duration: Duration }
+	| { duration: Duration; end: Date | number };
+
+/**
+ * The {@link formatISOInterval} function options.
+ */
+export interface FormatISOIntervalOptions extends FormatISOOptions {
+	/** Omit the year and the month of the end if they are the same as of the start */
+	abbreviated?: boolean;
+}
+
+// The lengths of the year and the year with the month in the date formats
+const abbreviationPrefixes = {
+	extended: [8, 5],
+	basic: [6, 4],
+};
+
+function formatDuration(duration: Duration): string {
+	const { weeks = 0, days = 0 } = duration;
+	// `formatISODuration` doesn't write the weeks
+	return formatISODuration({ ...duration, days: days + weeks * 7 });
+}
+
+function abbreviateEnd(
+	start: string,
+	end: string,
+	format: 'extended' | 'basic',
+): string {
+	if (!/^\d{4}/.test(start) || !/^\d{4}/.test(end)) {
+		return end;
+	}
+	const prefixLength = abbreviationPrefixes[format].find(
+		(length) => start.slice(0, length) === end.slice(0, length),
+	);
+	return prefixLength ? end.slice(prefixLength) : end;
+}
+
+/**
+ * @name formatISOInterval
+ * @category Interval Helpers
+ * @summary Format the interval according to the ISO 8601 standard (https://en.wikipedia.org/wiki/ISO_8601#Time_intervals).
+ *
+ * @description
+ * Return the interval formatted as ISO 8601 time interval. The form
+ * depends on the given object:
+ *
+ * - `{ start, end }` is formatted as `start/end`;
+ * - `{ start, duration }` is formatted as `start/duration`;
+ * - `{ duration, end }` is formatted as `duration/end`.
+ *
+ * The dates are formatted with `formatISO` and the durations
+ * with `formatISODuration` (the weeks are written as days).
+ * The result can be parsed back with `parseISOInterval`.
+ *
+ * @param interval - the interval to format
+ * @param options - an object with options, see `formatISO`.
+ * @returns the formatted interval string
+ * @throws {RangeError} the dates must not be Invalid Date
+ *
+ * @example
+ * // Represent the interval in ISO 8601 format (local time zone is UTC):
+ * const result = formatISOInterval({
+ *   start: new Date(2024, 1, 10, 9),
+ *   end: new Date(2024, 1, 15, 17)
+ * })
+ * //=> '2024-02-10T09:00:00Z/2024-02-15T17:00:00Z'
+ *
+ * @example
+ * // Represent the interval with the abbreviated end:
+ * const result = formatISOInterval(
+ *   { start: new Date(2024, 1, 10), end: new Date(2024, 1, 15) },
+ *   { representation: 'date', abbreviated: true }
+ * )
+ * //=> '2024-02-10/15'
+ *
+ * @example
+ * // Represent the interval with the start and the duration (local time zone is UTC):
+ * const result = formatISOInterval({
+ *   start: new Date(2024, 0, 1),
+ *   duration: { months: 1 }
+ * })
+ * //=> '2024-01-01T00:00:00Z/P0Y1M0DT0H0M0S'
+ */
+export default function formatISOInterval(
+	interval: ISOIntervalInput,
+	options?: FormatISOIntervalOptions,
+): string {
+	if (!('end' in interval)) {
+		return `${formatISO(interval.start, options)}/${formatDuration(
+			interval.duration,
+		)}`;
+	}
+	if (!('start' in interval)) {
+		return `${formatDuration(interval.duration)}/${formatISO(
+			interval.end,
+			options,
+		)}`;
+	}
+
+	const start = formatISO(interval.start, options);
+	const end = formatISO(interval.end, options);
+	return `${start}/${
+		options?.abbreviated && options.representation !== 'time'
+			? abbreviateEnd(start, end, options.format ?? 'extended')
+			: end
+	}`;
+}
@@ -0,0 +1,84 @@
+import isValid from '../isValid/index';
+import toDate from '../toDate/index';
+import addLeadingZeros from '../_lib/addLeadingZeros/index';
+import { millisecondsInMinute } from '../constants/index';
+import { dayNames, monthNames } from '../_lib/rfcDateNames/index';
+
+/**
+ * The {@link formatRFC2822} function options.
+ */
+export interface FormatRFC2822Options {
+	/** The offset from UTC in minutes, e.g. `-300` for `-0500`; the local offset by default */
+	offset?: number;
+}
+
+/**
+ * @name formatRFC2822
+ * @category Common Helpers
+ * @summary Format the date according to the RFC 2822 standard (https://tools.ietf.org/html/rfc5322#section-3.3).
+ *
+ * @description
+ * Return the formatted date string in RFC 2822 (RFC 5322) format,
+ * as used by the `Date` header of email messages.
+ *
+ * The date is represented in the local time zone, or in the zone
+ * of `options.offset` minutes from UTC. The zone is always numeric,
+ * the obsolete zone names like `EST` are only accepted by `parseRFC2822`.
+ *
+ * @param date - the original date
+ * @param options - an object with options.
+ * @returns the formatted date string
+ * @throws {RangeError} `date` must not be Invalid Date
+ * @throws {RangeError} `options.offset` must be an integer between -1439 and 1439
+ *
+ * @example
+ * // Represent 18 September 2019 in RFC 2822 format in UTC:
+ * const result = formatRFC2822(new Date(Date.UTC(2019, 8, 18, 19, 0, 52)), {
+ *   offset: 0
+ * })
+ * //=> 'Wed, 18 Sep 2019 19:00:52 +0000'
+ *
+ * @example
+ * // Represent the same moment in US Eastern Standard Time:
+ * const result = formatRFC2822(new Date(Date.UTC(2019, 8, 18, 19, 0, 52)), {
+ *   offset: -300
+ * })
+ * //=> 'Wed, 18 Sep 2019 14:00:52 -0500'
+ */
+export default function formatRFC2822(
+	dirtyDate: Date | number,
+	options?: FormatRFC2822Options,
+): string {
+	const originalDate = toDate(dirtyDate);
+
+	if (!isValid(originalDate)) {
+		throw new RangeError('Invalid time value');
+	}
+
+	const offset = options?.offset ?? -originalDate.getTimezoneOffset();
+
+	if (!Number.isInteger(offset) || Math.abs(offset) >= 1440) {
+		throw new RangeError('offset must be an integer between -1439 and 1439');
+	}
+
+	// The UTC fields of the shifted date are the wall clock time in the zone
+	const zonedDate = new Date(
+		originalDate.getTime() + offset * millisecondsInMinute,
+	);
+
+	const dayName = dayNames[zonedDate.getUTCDay()];
+	const dayOfMonth = addLeadingZeros(zonedDate.getUTCDate(), 2);
+	const monthName = monthNames[zonedDate.getUTCMonth()];
+	const year = addLeadingZeros(zonedDate.getUTCFullYear(), 4);
+
+	const hour = addLeadingZeros(zonedDate.getUTCHours(), 2);
+	const minute = addLeadingZeros(zonedDate.getUTCMinutes(), 2);
+	const second = addLeadingZeros(zonedDate.getUTCSeconds(), 2);
+
+	const absoluteOffset = Math.abs(offset);
+	const sign = offset < 0 ? '-' : '+';
+	const hourOffset = addLeadingZeros(Math.trunc(absoluteOffset / 60), 2);
+	const minuteOffset = addLeadingZeros(absoluteOffset % 60, 2);
+
+	return `${dayName}, ${dayOfMonth} ${monthName} ${year} ${hour}:${minute}:${second} ${sign}${hourOffset}${minuteOffset}`;
+}
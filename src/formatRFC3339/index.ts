@@ -1,11 +1,13 @@
 import isValid from '../isValid/index';
 import toDate from '../toDate/index';
+import type { ExpandedYearOptions } from '../types';
 import addLeadingZeros from '../_lib/addLeadingZeros/index';
+import formatExpandedYear from '../_lib/formatExpandedYear/index';
 
 /**
  * The {@link formatRFC3339} function options.
  */
-export interface FormatRFC3339Options {
+export interface FormatRFC3339Options extends ExpandedYearOptions {
 	fractionDigits?: 0 | 1 | 2 | 3;
 }
 
@@ -17,10 +19,15 @@ export interface FormatRFC3339Options {
  * @description
  * Return the formatted date string in RFC 3339 format. Options may be passed to control the parts and notations of the date.
  *
+ * Pass `expandedYear: true` to emit the signed ISO 8601 expanded year with
+ * `options.additionalDigits` (2 by default) more digits, e.g. `+002024`,
+ * for the years RFC 3339 can't represent.
+ *
  * @param date - the original date
  * @param options - an object with options.
  * @returns the formatted date string
  * @throws {RangeError} `date` must not be Invalid Date
+ * @throws {RangeError} the expanded year must fit in `4 + options.additionalDigits` digits
  *
  * @example
  * // Represent 18 September 2019 in RFC 3339 format:
@@ -51,7 +58,12 @@ export default function formatRFC3339(
 
 	const day = addLeadingZeros(originalDate.getDate(), 2);
 	const month = addLeadingZeros(originalDate.getMonth() + 1, 2);
-	const year = originalDate.getFullYear();
+	const year = options?.expandedYear
+		? formatExpandedYear(
+				originalDate.getFullYear(),
+				options.additionalDigits ?? 2,
+		  )
+		: originalDate.getFullYear();
 
 	const hour = addLeadingZeros(originalDate.getHours(), 2);
 	const minute = addLeadingZeros(originalDate.getMinutes(), 2);
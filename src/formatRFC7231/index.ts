@@ -1,23 +1,7 @@
 import isValid from '../isValid/index';
 import toDate from '../toDate/index';
 import addLeadingZeros from '../_lib/addLeadingZeros/index';
-
-const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-const months = [
-	'Jan',
-	'Feb',
-	'Mar',
-	'Apr',
-	'May',
-	'Jun',
-	'Jul',
-	'Aug',
-	'Sep',
-	'Oct',
-	'Nov',
-	'Dec',
-];
+import { dayNames, monthNames } from '../_lib/rfcDateNames/index';
 
 /**
  * @name formatRFC7231
@@ -44,9 +28,9 @@ export default function formatRFC7231(dirtyDate: Date | number): string {
 		throw new RangeError('Invalid time value');
 	}
 
-	const dayName = days[originalDate.getUTCDay()];
+	const dayName = dayNames[originalDate.getUTCDay()];
 	const dayOfMonth = addLeadingZeros(originalDate.getUTCDate(), 2);
-	const monthName = months[originalDate.getUTCMonth()];
+	const monthName = monthNames[originalDate.getUTCMonth()];
 	const year = originalDate.getUTCFullYear();
 
 	const hour = addLeadingZeros(originalDate.getUTCHours(), 2);
@@ -2,16 +2,22 @@ import differenceInCalendarDays from '../differenceInCalendarDays/index';
 import format from '../format/index';
 import type { FormatRelativeToken } from '../locale/types';
 import toDate from '../toDate/index';
-import type { LocaleOptions, WeekStartOptions } from '../types';
+import type {
+	LocaleTagOptions,
+	NumberingSystemOptions,
+	WeekStartOptions,
+} from '../types';
 import defaultLocale from '../_lib/defaultLocale/index';
 import { getDefaultOptions } from '../_lib/defaultOptions/index';
+import { getOptionsLocale } from '../_lib/localeRegistry/index';
 
 /**
  * The {@link formatRelative} function options.
  */
 export interface FormatRelativeOptions
-	extends LocaleOptions,
-		WeekStartOptions {}
+	extends LocaleTagOptions,
+		WeekStartOptions,
+		NumberingSystemOptions {}
 
 /**
  * @name formatRelative
@@ -39,6 +45,8 @@ export interface FormatRelativeOptions
  * @throws {RangeError} `options.locale` must contain `localize` property
  * @throws {RangeError} `options.locale` must contain `formatLong` property
  * @throws {RangeError} `options.locale` must contain `formatRelative` property
+ * @throws {RangeError} `options.locale` tag must be registered and loaded with `resolveLocale`
+ * @throws {RangeError} `options.numberingSystem` must be supported by `Intl`
  *
  * @example
  * // Represent the date of 6 days ago in words relative to the given base date. In this example, today is Wednesday
@@ -54,10 +62,11 @@ export default function formatRelative(
 	const baseDate = toDate(dirtyBaseDate);
 
 	const defaultOptions = getDefaultOptions();
-	const locale = options?.locale ?? defaultOptions.locale ?? defaultLocale;
+	const optionsLocale = getOptionsLocale(options?.locale);
+	const locale = optionsLocale ?? defaultOptions.locale ?? defaultLocale;
 	const weekStartsOn =
 		options?.weekStartsOn ??
-		options?.locale?.options?.weekStartsOn ??
+		optionsLocale?.options?.weekStartsOn ??
 		defaultOptions.weekStartsOn ??
 		defaultOptions.locale?.options?.weekStartsOn ??
 		0;
@@ -101,5 +110,9 @@ export default function formatRelative(
 		locale,
 		weekStartsOn,
 	});
-	return format(date, formatStr, { locale, weekStartsOn });
+	return format(date, formatStr, {
+		locale,
+		weekStartsOn,
+		numberingSystem: options?.numberingSystem,
+	});
 }
@@ -0,0 +1,161 @@
+import isValid from '../isValid/index';
+import toDate from '../toDate/index';
+import type { FormatOptions } from '../format/index';
+import type { FormatPart, FormatPartType } from '../types';
+import {
+	compileTokens,
+	formatTokens,
+	resolveFormatOptions,
+} from '../_lib/format/compile/index';
+
+/**
+ * The {@link formatToParts} function options.
+ */
+export interface FormatToPartsOptions extends FormatOptions {}
+
+// The part types of the first characters of the format tokens
+const partTypes: { [character: string]: FormatPartType } = {
+	G: 'era',
+	y: 'year',
+	Y: 'year',
+	R: 'year',
+	u: 'year',
+	U: 'year',
+	r: 'year',
+	Q: 'quarter',
+	q: 'quarter',
+	M: 'month',
+	L: 'month',
+	w: 'week',
+	I: 'week',
+	W: 'week',
+	F: 'dayOfWeekInMonth',
+	d: 'day',
+	D: 'dayOfYear',
+	g: 'modifiedJulianDay',
+	E: 'weekday',
+	e: 'weekday',
+	c: 'weekday',
+	i: 'weekday',
+	a: 'dayPeriod',
+	b: 'dayPeriod',
+	B: 'dayPeriod',
+	h: 'hour',
+	H: 'hour',
+	K: 'hour',
+	k: 'hour',
+	m: 'minute',
+	s: 'second',
+	S: 'fractionalSecond',
+	A: 'millisecondsInDay',
+	X: 'timeZoneName',
+	x: 'timeZoneName',
+	O: 'timeZoneName',
+	z: 'timeZoneName',
+	v: 'timeZoneName',
+	V: 'timeZoneName',
+	Z: 'timeZoneName',
+	t: 'timestamp',
+	T: 'timestamp',
+};
+
+/**
+ * @name formatToParts
+ * @category Common Helpers
+ * @summary Format the date into the typed parts.
+ *
+ * @description
+ * Return the parts of the date formatted like `format` with their types
+ * and format tokens, e.g. to wrap each field in its own element.
+ * It mirrors [`Intl.DateTimeFormat#formatToParts`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/DateTimeFormat/formatToParts),
+ * so the values of the parts joined together are the result of `format`.
+ *
+ * The part types are `era`, `year`, `quarter`, `month`, `week`, `day`,
+ * `dayOfYear`, `dayOfWeekInMonth`, `modifiedJulianDay`, `weekday`, `dayPeriod`,
+ * `hour`, `minute`, `second`, `fractionalSecond`, `millisecondsInDay`,
+ * `timeZoneName`, `timestamp`, `custom` for the tokens of `options.formatters`
+ * and `literal`. The tokens map to them as follows:
+ *
+ * | Part type           | Tokens                            |
+ * |---------------------|-----------------------------------|
+ * | `era`               | `G`                               |
+ * | `year`              | `y`, `Y`, `R`, `u`, `U`, `r`      |
+ * | `quarter`           | `Q`, `q`                          |
+ * | `month`             | `M`, `L`                          |
+ * | `week`              | `w`, `I`, `W`                     |
+ * | `day`               | `d`                               |
+ * | `dayOfYear`         | `D`                               |
+ * | `dayOfWeekInMonth`  | `F`                               |
+ * | `modifiedJulianDay` | `g`                               |
+ * | `weekday`           | `E`, `e`, `c`, `i`                |
+ * | `dayPeriod`         | `a`, `b`, `B`                     |
+ * | `hour`              | `h`, `H`, `K`, `k`                |
+ * | `minute`            | `m`                               |
+ * | `second`            | `s`                               |
+ * | `fractionalSecond`  | `S`                               |
+ * | `millisecondsInDay` | `A`                               |
+ * | `timeZoneName`      | `X`, `x`, `O`, `z`, `v`, `V`, `Z` |
+ * | `timestamp`         | `t`, `T`                          |
+ *
+ * The adjacent literal parts, including the escaped text, are merged.
+ * The long localized tokens (`P` and `p`) are expanded into their fields.
+ *
+ * See `format` for the accepted tokens.
+ *
+ * @param date - the original date
+ * @param format - the string of tokens
+ * @param options - an object with options.
+ * @returns the parts of the formatted date
+ *
+ * @throws {RangeError} `date` must not be Invalid Date
+ * @throws {RangeError} `options.locale` must contain `localize` property
+ * @throws {RangeError} `options.locale` must contain `formatLong` property
+ * @throws {RangeError} `options.locale` tag must be registered and loaded with `resolveLocale`
+ * @throws {RangeError} the protected tokens must be enabled with the `options.useAdditional...Tokens` options
+ * @throws {RangeError} format string contains an unescaped latin alphabet character
+ * @throws {RangeError} `options.numberingSystem` must be supported by `Intl`
+ * @throws {RangeError} `options.formatters` keys must be single latin letters unused by `format`
+ *
+ * @example
+ * // Split 2 July 2014 into the parts:
+ * const result = formatToParts(new Date(2014, 6, 2), "do 'of' MMMM")
+ * //=> [
+ * //   { type: 'day', token: 'do', value: '2nd' },
+ * //   { type: 'literal', token: " 'of' ", value: ' of ' },
+ * //   { type: 'month', token: 'MMMM', value: 'July' }
+ * // ]
+ */
+export default function formatToParts(
+	dirtyDate: Date | number,
+	formatStr: string,
+	options?: FormatToPartsOptions,
+): FormatPart[] {
+	const resolved = resolveFormatOptions(options);
+
+	const originalDate = toDate(dirtyDate);
+
+	if (!isValid(originalDate)) {
+		throw new RangeError('Invalid time value');
+	}
+
+	const tokens = compileTokens(formatStr, resolved, String(dirtyDate));
+	const values = formatTokens(tokens, originalDate, resolved);
+
+	return tokens.reduce<FormatPart[]>((parts, compiledToken, index) => {
+		const value = values[index];
+		const type = !('formatter' in compiledToken)
+			? 'literal'
+			: compiledToken.custom
+			? 'custom'
+			: partTypes[compiledToken.token[0]];
+		const lastPart = parts[parts.length - 1];
+
+		if (type === 'literal' && lastPart?.type === 'literal') {
+			lastPart.token += compiledToken.token;
+			lastPart.value += value;
+		} else {
+			parts.push({ type, token: compiledToken.token, value });
+		}
+		return parts;
+	}, []);
+}
@@ -2,12 +2,16 @@
 
 export * from './add-functions';
 export { default as areIntervalsOverlapping } from './areIntervalsOverlapping/index';
+export { default as assertLocaleConformance } from './assertLocaleConformance/index';
 export { default as clamp } from './clamp/index';
 export { default as closestIndexTo } from './closestIndexTo/index';
 export { default as closestTo } from './closestTo/index';
 export { default as compareAsc } from './compareAsc/index';
 export { default as compareDesc } from './compareDesc/index';
+export { default as compileFormat } from './compileFormat/index';
+export { default as createIntlLocale } from './createIntlLocale/index';
 export { default as daysToWeeks } from './daysToWeeks/index';
+export { default as detectDefaultOptions } from './detectDefaultOptions/index';
 export { default as differenceInBusinessDays } from './differenceInBusinessDays/index';
 export { default as differenceInCalendarDays } from './differenceInCalendarDays/index';
 export { default as differenceInCalendarISOWeekYears } from './differenceInCalendarISOWeekYears/index';
@@ -30,6 +34,7 @@ export { default as eachDayOfInterval } from './eachDayOfInterval/index';
 export { default as eachHourOfInterval } from './eachHourOfInterval/index';
 export { default as eachMinuteOfInterval } from './eachMinuteOfInterval/index';
 export { default as eachMonthOfInterval } from './eachMonthOfInterval/index';
+export { default as eachOccurrenceOfRepeatingInterval } from './eachOccurrenceOfRepeatingInterval/index';
 export { default as eachQuarterOfInterval } from './eachQuarterOfInterval/index';
 export { default as eachWeekOfInterval } from './eachWeekOfInterval/index';
 export { default as eachWeekendOfInterval } from './eachWeekendOfInterval/index';
@@ -50,6 +55,8 @@ export { default as endOfTomorrow } from './endOfTomorrow/index';
 export { default as endOfWeek } from './endOfWeek/index';
 export { default as endOfYear } from './endOfYear/index';
 export { default as endOfYesterday } from './endOfYesterday/index';
+export { default as evaluateDateMath } from './evaluateDateMath/index';
+export { default as extendLocale } from './extendLocale/index';
 export { default as format } from './format/index';
 export { default as formatDistance } from './formatDistance/index';
 export { default as formatDistanceStrict } from './formatDistanceStrict/index';
@@ -59,9 +66,12 @@ export { default as formatDuration } from './formatDuration/index';
 export { default as formatISO } from './formatISO/index';
 export { default as formatISO9075 } from './formatISO9075/index';
 export { default as formatISODuration } from './formatISODuration/index';
+export { default as formatISOInterval } from './formatISOInterval/index';
+export { default as formatRFC2822 } from './formatRFC2822/index';
 export { default as formatRFC3339 } from './formatRFC3339/index';
 export { default as formatRFC7231 } from './formatRFC7231/index';
 export { default as formatRelative } from './formatRelative/index';
+export { default as formatToParts } from './formatToParts/index';
 export { default as fromUnixTime } from './fromUnixTime/index';
 export { default as getDate } from './getDate/index';
 export { default as getDay } from './getDay/index';
@@ -91,9 +101,11 @@ export { default as getYear } from './getYear/index';
 export { default as hoursToMilliseconds } from './hoursToMilliseconds/index';
 export { default as hoursToMinutes } from './hoursToMinutes/index';
 export { default as hoursToSeconds } from './hoursToSeconds/index';
+export { default as inferFormat } from './inferFormat/index';
 export { default as intervalToDuration } from './intervalToDuration/index';
 export { default as intlFormat } from './intlFormat/index';
 export { default as intlFormatDistance } from './intlFormatDistance/index';
+export { default as intlFormatToParts } from './intlFormatToParts/index';
 export { default as isAfter } from './isAfter/index';
 export { default as isBefore } from './isBefore/index';
 export { default as isDate } from './isDate/index';
@@ -104,6 +116,7 @@ export { default as isFriday } from './isFriday/index';
 export { default as isFuture } from './isFuture/index';
 export { default as isLastDayOfMonth } from './isLastDayOfMonth/index';
 export { default as isLeapYear } from './isLeapYear/index';
+export { default as isMatch } from './isMatch/index';
 export { default as isMonday } from './isMonday/index';
 export { default as isPast } from './isPast/index';
 export { default as isSameDay } from './isSameDay/index';
@@ -162,8 +175,14 @@ export { default as nextSunday } from './nextSunday/index';
 export { default as nextThursday } from './nextThursday/index';
 export { default as nextTuesday } from './nextTuesday/index';
 export { default as nextWednesday } from './nextWednesday/index';
+export { default as parse } from './parse/index';
 export { default as parseISO } from './parseISO/index';
+export { default as parseISODuration } from './parseISODuration/index';
+export { default as parseISOInterval } from './parseISOInterval/index';
 export { default as parseJSON } from './parseJSON/index';
+export { default as parseRFC2822 } from './parseRFC2822/index';
+export { default as parseRFC7231 } from './parseRFC7231/index';
+export { default as parseRelative } from './parseRelative/index';
 export { default as previousDay } from './previousDay/index';
 export { default as previousFriday } from './previousFriday/index';
 export { default as previousMonday } from './previousMonday/index';
@@ -174,7 +193,11 @@ export { default as previousTuesday } from './previousTuesday/index';
 export { default as previousWednesday } from './previousWednesday/index';
 export { default as quartersToMonths } from './quartersToMonths/index';
 export { default as quartersToYears } from './quartersToYears/index';
+export { default as registerLocale } from './registerLocale/index';
+export { default as resolveLocale } from './resolveLocale/index';
 export { default as roundToNearestMinutes } from './roundToNearestMinutes/index';
+export { default as safeParse } from './safeParse/index';
+export { default as safeParseISO } from './safeParseISO/index';
 export { default as secondsToHours } from './secondsToHours/index';
 export { default as secondsToMilliseconds } from './secondsToMilliseconds/index';
 export { default as secondsToMinutes } from './secondsToMinutes/index';
@@ -223,6 +246,7 @@ export { default as subSeconds } from './subSeconds/index';
 export { default as subWeeks } from './subWeeks/index';
 export { default as subYears } from './subYears/index';
 export { default as toDate } from './toDate/index';
+export { default as validateDateMath } from './validateDateMath/index';
 export { default as weeksToDays } from './weeksToDays/index';
 export { default as yearsToMonths } from './yearsToMonths/index';
 export { default as yearsToQuarters } from './yearsToQuarters/index';
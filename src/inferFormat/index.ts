@@ -0,0 +1,250 @@
+import format from '../format/index';
+import isValid from '../isValid/index';
+import parse from '../parse/index';
+import type { Locale } from '../locale/types';
+import defaultLocale from '../_lib/defaultLocale/index';
+import { getDefaultOptions } from '../_lib/defaultOptions/index';
+import { getOptionsLocale } from '../_lib/localeRegistry/index';
+
+/**
+ * The {@link inferFormat} function options.
+ */
+export interface InferFormatOptions {
+	/** The locales of the month and day names and the preferred order of the numeric dates */
+	locales?: Array<Locale | string>;
+}
+
+/**
+ * The format inferred by {@link inferFormat}.
+ */
+export interface InferredFormat {
+	/** The format string for `format` and `parse` */
+	format: string;
+	/** The locale the format string should be used with */
+	locale: Locale;
+}
+
+interface Candidate {
+	format: string;
+	// The order of the numeric day, month and year, e.g. `Mdy`
+	order?: string;
+}
+
+// The complete ISO 8601 and RFC formats, which have no time variants
+const completeFormats = [
+	"yyyy-MM-dd'T'HH:mm:ss.SSSXXX",
+	"yyyy-MM-dd'T'HH:mm:ssXXX",
+	"yyyy-MM-dd'T'HH:mmXXX",
+	"yyyy-MM-dd'T'HH:mm:ss.SSS",
+	"yyyy-MM-dd'T'HH:mm:ss",
+	"yyyy-MM-dd'T'HH:mm",
+	"yyyyMMdd'T'HHmmss",
+	'yyyyMMdd',
+	// RFC 2822
+	'EEE, dd MMM yyyy HH:mm:ss xx',
+	// RFC 7231
+	"EEE, dd MMM yyyy HH:mm:ss 'GMT'",
+];
+
+const numericOrders = ['Mdy', 'dMy', 'yMd'];
+const separators = ['/', '-', '.', ' '];
+const numericTokens: { [field: string]: string[] } = {
+	M: ['MM', 'M'],
+	d: ['dd', 'd'],
+	y: ['yyyy', 'yy'],
+};
+
+// The dates with the localized month and day names
+const namedFormats = [
+	'MMM d, yyyy',
+	'MMMM d, yyyy',
+	'EEE, MMM d, yyyy',
+	'EEEE, MMMM d, yyyy',
+	'd MMM yyyy',
+	'dd MMM yyyy',
+	'd MMMM yyyy',
+	'dd MMMM yyyy',
+	'dd-MMM-yyyy',
+	'dd-MMM-yy',
+];
+
+const timeFormats = [
+	'',
+	' HH:mm',
+	' HH:mm:ss',
+	' H:mm',
+	' hh:mm a',
+	' h:mm a',
+	' hh:mm:ss a',
+	' h:mm:ss a',
+];
+
+// The long localized formats of the locales
+const longFormats = ['PP', 'PPP', 'PPPP', 'PPp', 'PPpp'];
+
+// The fields of the format are never parsed from this date
+const referenceDate = new Date(2000, 0, 1);
+
+const quotedTextRegExp = /'(''|[^'])*('|$)/g;
+
+function getCandidates(): Candidate[] {
+	const numericFormats = numericOrders.reduce<Candidate[]>(
+		(candidates, order) => {
+			const [first, second, third] = order.split('');
+			separators.forEach((separator) => {
+				numericTokens[first].forEach((firstToken) => {
+					numericTokens[second].forEach((secondToken) => {
+						numericTokens[third].forEach((thirdToken) => {
+							candidates.push({
+								format: [firstToken, secondToken, thirdToken].join(separator),
+								order,
+							});
+						});
+					});
+				});
+			});
+			return candidates;
+		},
+		[],
+	);
+
+	const dateCandidates = numericFormats.concat(
+		namedFormats.map((namedFormat) => ({ format: namedFormat })),
+	);
+
+	return completeFormats
+		.map((completeFormat) => ({ format: completeFormat }))
+		.concat(
+			...timeFormats.map((timeFormat) =>
+				dateCandidates.map((candidate) => ({
+					...candidate,
+					format: candidate.format + timeFormat,
+				})),
+			),
+		)
+		.concat(longFormats.map((longFormat) => ({ format: longFormat })))
+		.concat(
+			timeFormats
+				.filter((timeFormat) => timeFormat)
+				.map((timeFormat) => ({ format: timeFormat.trim() })),
+		);
+}
+
+// The order of the day, month and year in the short date of the locale
+function getLocaleOrder(locale: Locale): string {
+	return locale.formatLong
+		.date({ width: 'short' })
+		.replace(quotedTextRegExp, '')
+		.replace(/[^dMy]|(.)(?=\1)/g, '');
+}
+
+/**
+ * @name inferFormat
+ * @category Common Helpers
+ * @summary Infer the format string from the sample date strings
+ *
+ * @description
+ * Find the format strings that fit all the sample date strings, e.g. the values
+ * of a column of an uploaded CSV file, and return them from the best to the worst.
+ *
+ * The candidates are ISO 8601 and RFC 2822/7231 formats, the permutations
+ * of the numeric day, month and year with the common separators, the dates
+ * with the localized month and day names and the long formats of the locales,
+ * combined with 12 and 24 hour times, and the times alone (e.g. `10:30 PM`).
+ *
+ * A candidate is eliminated if any sample doesn't fit it, so a single value
+ * that fits only one reading (e.g. `13/04/2024`) resolves the ambiguity
+ * between the day and the month for all samples. The remaining candidates
+ * are ranked by:
+ *
+ * 1. the number of samples that are formatted back to the same string
+ *    (e.g. `MM` is preferred to `M` for `03`, `yy` to `yyyy` for `24`);
+ * 2. the order of the numeric fields in the short date of the locale
+ *    (e.g. `MM/dd/yyyy` for `en-US`, `dd/MM/yyyy` for `en-GB`);
+ * 3. the order of the locales in `options.locales`.
+ *
+ * The locales passed as the tags must be loaded with `resolveLocale` first.
+ *
+ * @param samples - the date strings
+ * @param options - an object with options.
+ * @returns the format strings with their locales, from the best to the worst
+ *
+ * @example
+ * // The day that is greater than 12 resolves the ambiguity:
+ * const result = inferFormat(['03/04/2024', '13/04/2024'])
+ * //=> [{ format: 'dd/MM/yyyy', locale: enUS }]
+ *
+ * @example
+ * // Both readings fit, the order of the locale goes first:
+ * const result = inferFormat(['03/04/2024 5:30 PM'])
+ * //=> [{ format: 'MM/dd/yyyy h:mm a', locale: enUS }, { format: 'dd/MM/yyyy h:mm a', locale: enUS }, ...]
+ */
+export default function inferFormat(
+	samples: string[],
+	options?: InferFormatOptions,
+): InferredFormat[] {
+	const defaultOptions = getDefaultOptions();
+	const locales = options?.locales?.map(
+		(locale) => getOptionsLocale(locale)!,
+	) ?? [defaultOptions.locale ?? defaultLocale];
+
+	const trimmedSamples = samples
+		.map((sample) => sample.trim())
+		.filter((sample) => sample !== '');
+	if (trimmedSamples.length === 0) {
+		return [];
+	}
+
+	const candidates = getCandidates();
+	const results: Array<InferredFormat & { rank: number[] }> = [];
+
+	locales.forEach((locale, localeIndex) => {
+		const localeOrder = getLocaleOrder(locale);
+
+		candidates.forEach((candidate, candidateIndex) => {
+			let exactCount = 0;
+			const fitsAll = trimmedSamples.every((sample) => {
+				const date = parse(sample, candidate.format, referenceDate, {
+					locale,
+				});
+				if (!isValid(date)) {
+					return false;
+				}
+				if (
+					format(date, candidate.format, { locale }).toLowerCase() ===
+					sample.toLowerCase()
+				) {
+					exactCount++;
+				}
+				return true;
+			});
+
+			if (fitsAll) {
+				results.push({
+					format: candidate.format,
+					locale,
+					rank: [
+						-exactCount,
+						candidate.order && candidate.order !== localeOrder ? 1 : 0,
+						localeIndex,
+						candidateIndex,
+					],
+				});
+			}
+		});
+	});
+
+	const compareRanks = (a: number[], b: number[]) =>
+		a.reduce((result, value, index) => result || value - b[index], 0);
+
+	return results
+		.sort((a, b) => compareRanks(a.rank, b.rank))
+		.filter(
+			(result, index, array) =>
+				array.findIndex((other) => other.format === result.format) === index,
+		)
+		.map(({ format: formatString, locale }) => ({
+			format: formatString,
+			locale,
+		}));
+}
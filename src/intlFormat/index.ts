@@ -1,6 +1,8 @@
-type Locale = Intl.ResolvedDateTimeFormatOptions['locale'];
-type FormatOptions = Intl.DateTimeFormatOptions;
-type LocaleOptions = { locale: Locale | Locale[] };
+import createIntlDateTimeFormat from '../_lib/createIntlDateTimeFormat/index';
+import type {
+	FormatOptions,
+	LocaleOptions,
+} from '../_lib/createIntlDateTimeFormat/index';
 
 export default function intlFormat(date: Date): string;
 
@@ -94,21 +96,5 @@ export default function intlFormat(
 	formatOrLocale?: FormatOptions | LocaleOptions,
 	localeOptions?: LocaleOptions,
 ): string {
-	let formatOptions: FormatOptions | undefined;
-
-	if (isFormatOptions(formatOrLocale)) {
-		formatOptions = formatOrLocale;
-	} else {
-		localeOptions = formatOrLocale;
-	}
-
-	return new Intl.DateTimeFormat(localeOptions?.locale, formatOptions).format(
-		date,
-	);
-}
-
-function isFormatOptions(
-	opts: LocaleOptions | FormatOptions | undefined,
-): opts is FormatOptions {
-	return opts !== undefined && !('locale' in opts);
+	return createIntlDateTimeFormat(formatOrLocale, localeOptions).format(date);
 }
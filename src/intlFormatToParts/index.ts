@@ -0,0 +1,66 @@
+import createIntlDateTimeFormat from '../_lib/createIntlDateTimeFormat/index';
+import type {
+	FormatOptions,
+	LocaleOptions,
+} from '../_lib/createIntlDateTimeFormat/index';
+
+export default function intlFormatToParts(
+	date: Date,
+): Intl.DateTimeFormatPart[];
+
+export default function intlFormatToParts(
+	date: Date,
+	localeOptions: LocaleOptions,
+): Intl.DateTimeFormatPart[];
+
+export default function intlFormatToParts(
+	date: Date,
+	formatOptions: FormatOptions,
+): Intl.DateTimeFormatPart[];
+
+export default function intlFormatToParts(
+	date: Date,
+	formatOptions: FormatOptions,
+	localeOptions: LocaleOptions,
+): Intl.DateTimeFormatPart[];
+
+/**
+ * @name intlFormatToParts
+ * @category Common Helpers
+ * @summary Format the date into the typed parts with Intl.DateTimeFormat.
+ *
+ * @description
+ * Return the parts of the date formatted like `intlFormat`.
+ * The method uses [`Intl.DateTimeFormat#formatToParts`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/DateTimeFormat/formatToParts) inside.
+ * formatOptions are the same as [`Intl.DateTimeFormat` options](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/DateTimeFormat#using_options)
+ *
+ * @param argument - the original date.
+ * @param formatOptions - an object with options.
+ * @param localeOptions - an object with locale.
+ * @param localeOptions.locale - the locale code
+ * @returns the parts of the formatted date
+ * @throws {RangeError} `date` must not be Invalid Date
+ *
+ * @example
+ * // Split 4 October 2019 into the parts in German:
+ * const result = intlFormatToParts(new Date(2019, 9, 4), {
+ *   day: 'numeric',
+ *   month: 'long',
+ * }, {
+ *   locale: 'de-DE',
+ * })
+ * //=> [
+ * //   { type: 'day', value: '4' },
+ * //   { type: 'literal', value: '. ' },
+ * //   { type: 'month', value: 'Oktober' }
+ * // ]
+ */
+export default function intlFormatToParts(
+	date: Date,
+	formatOrLocale?: FormatOptions | LocaleOptions,
+	localeOptions?: LocaleOptions,
+): Intl.DateTimeFormatPart[] {
+	return createIntlDateTimeFormat(formatOrLocale, localeOptions).formatToParts(
+		date,
+	);
+}
@@ -0,0 +1,70 @@
+import isValid from '../isValid/index';
+import parse from '../parse/index';
+import type { ParseOptions } from '../parse/index';
+
+/**
+ * The {@link isMatch} function options.
+ */
+export interface IsMatchOptions extends ParseOptions {}
+
+/**
+ * @name isMatch
+ * @category Common Helpers
+ * @summary Validate the date string against the format.
+ *
+ * @description
+ * Return true if the date string matches the given format and represents
+ * a valid date, and false otherwise.
+ *
+ * > ⚠️ Please note that the `format` tokens differ from Moment.js and other libraries.
+ * > See: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ *
+ * The characters in the format string wrapped between two single quotes characters (') are escaped.
+ * Two single quotes in a row, whether inside or outside a quoted sequence, represent a 'real' single quote.
+ *
+ * The format string accepts the same tokens as {@link parse}, see its table
+ * of the accepted patterns and the incompatible tokens.
+ *
+ * The string matches only if all of its values exist, so impossible dates
+ * like `2023-02-30` don't match (the same as {@link isExists}).
+ *
+ * The values missing from the string are taken from the current date,
+ * so `isMatch('29 February', 'd MMMM')` depends on whether the current year is a leap year.
+ *
+ * @param dateString - the date string to verify
+ * @param formatString - the string of tokens
+ * @param options - an object with options.
+ * @returns is the date string matching the format
+ * @throws {RangeError} `options.locale` must contain `match` property
+ * @throws {RangeError} use `yyyy` instead of `YYYY` for formatting years using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `yy` instead of `YY` for formatting years using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `d` instead of `D` for formatting days of the month using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `dd` instead of `DD` for formatting days of the month using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} format string contains an unescaped latin alphabet character
+ * @throws {RangeError} the format string mustn't contain two incompatible tokens
+ *
+ * @example
+ * // Match 11 February 2014 from middle-endian format:
+ * const result = isMatch('02/11/2014', 'MM/dd/yyyy')
+ * //=> true
+ *
+ * @example
+ * // Match 28th of February in Esperanto locale in the context of 2010 year:
+ * import eo from 'date-fns/locale/eo'
+ * const result = isMatch('28-a de februaro', "do 'de' MMMM", {
+ *   locale: eo
+ * })
+ * //=> true
+ *
+ * @example
+ * // Reject the day that doesn't exist:
+ * const result = isMatch('2023-02-30', 'yyyy-MM-dd')
+ * //=> false
+ */
+export default function isMatch(
+	dateString: string,
+	formatString: string,
+	options?: IsMatchOptions,
+): boolean {
+	return isValid(parse(dateString, formatString, new Date(), options));
+}
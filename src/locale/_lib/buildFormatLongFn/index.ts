@@ -0,0 +1,19 @@
+import type { FormatLongFn, FormatLongWidth } from '../../types';
+
+export interface BuildFormatLongFnArgs {
+	formats: Partial<Record<FormatLongWidth, string>>;
+	defaultWidth: FormatLongWidth;
+}
+
+/**
+ * Builds the `formatLong` function for a locale from a map of formats by width.
+ * Falls back to the format of `defaultWidth` when the requested width is missing.
+ */
+export default function buildFormatLongFn(
+	args: BuildFormatLongFnArgs,
+): FormatLongFn {
+	return (options) => {
+		const width = options?.width ?? args.defaultWidth;
+		return args.formats[width] ?? args.formats[args.defaultWidth]!;
+	};
+}
@@ -0,0 +1,54 @@
+import type { LocalePatternWidth, LocalizeFn } from '../../types';
+
+export type LocalizeValues<Value extends string | number> =
+	| readonly string[]
+	| Readonly<Record<Value, string>>;
+
+export type LocalizeWidthValues<Value extends string | number> = Partial<
+	Record<LocalePatternWidth, LocalizeValues<Value>>
+>;
+
+export interface BuildLocalizeFnArgs<
+	Value extends string | number,
+	Index extends string | number = Value
+> {
+	values: LocalizeWidthValues<Index>;
+	defaultWidth: LocalePatternWidth;
+	formattingValues?: LocalizeWidthValues<Index>;
+	defaultFormattingWidth?: LocalePatternWidth;
+	argumentCallback?: (value: Value) => Index;
+}
+
+/**
+ * Builds a `localize` function (era, quarter, month, day or day period) for a
+ * locale from the value tables by width. `formattingValues` are used when
+ * the value is localized in the `formatting` context (e.g. declined month
+ * names), otherwise `values` are used. `argumentCallback` maps the value
+ * to the table index (e.g. quarter 1 to index 0).
+ */
+export default function buildLocalizeFn<
+	Value extends string | number,
+	Index extends string | number = Value
+>(args: BuildLocalizeFnArgs<Value, Index>): LocalizeFn<Value> {
+	return (value, options) => {
+		const context = options?.context ?? 'standalone';
+
+		let valuesArray: LocalizeValues<Index>;
+		if (context === 'formatting' && args.formattingValues) {
+			const defaultWidth = args.defaultFormattingWidth ?? args.defaultWidth;
+			const width = options?.width ?? defaultWidth;
+			valuesArray =
+				args.formattingValues[width] ?? args.formattingValues[defaultWidth]!;
+		} else {
+			const defaultWidth = args.defaultWidth;
+			const width = options?.width ?? defaultWidth;
+			valuesArray = args.values[width] ?? args.values[defaultWidth]!;
+		}
+
+		const index = args.argumentCallback
+			? args.argumentCallback(value)
+			: ((value as unknown) as Index);
+
+		return (valuesArray as Record<Index, string>)[index];
+	};
+}
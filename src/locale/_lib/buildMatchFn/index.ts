@@ -0,0 +1,78 @@
+import type { LocalePatternWidth, MatchFn } from '../../types';
+
+export type MatchPatterns = Partial<Record<LocalePatternWidth, RegExp>>;
+
+export type ParsePatterns<Key extends string> = Partial<
+	Record<LocalePatternWidth, readonly RegExp[] | Readonly<Record<Key, RegExp>>>
+>;
+
+export interface BuildMatchFnArgs<Value, Key extends string = string> {
+	matchPatterns: MatchPatterns;
+	defaultMatchWidth: LocalePatternWidth;
+	parsePatterns: ParsePatterns<Key>;
+	defaultParseWidth: LocalePatternWidth;
+	valueCallback?: (key: number | Key) => Value;
+}
+
+function isArray<Key extends string>(
+	patterns: readonly RegExp[] | Readonly<Record<Key, RegExp>>,
+): patterns is readonly RegExp[] {
+	return Array.isArray(patterns);
+}
+
+function findKey<Key extends string>(
+	object: Readonly<Record<Key, RegExp>>,
+	predicate: (pattern: RegExp) => boolean,
+): Key | undefined {
+	for (const key in object) {
+		if (
+			Object.prototype.hasOwnProperty.call(object, key) &&
+			predicate(object[key])
+		) {
+			return key;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Builds a `match` function for a locale. The string is matched against
+ * `matchPatterns` of the requested width, then the matched substring is tested
+ * against `parsePatterns` to find the index (or key) of the value.
+ */
+export default function buildMatchFn<Value, Key extends string = string>(
+	args: BuildMatchFnArgs<Value, Key>,
+): MatchFn<Value> {
+	return (string, options) => {
+		const width = options?.width;
+
+		const matchPattern =
+			(width && args.matchPatterns[width]) ||
+			args.matchPatterns[args.defaultMatchWidth]!;
+		const matchResult = string.match(matchPattern);
+
+		if (!matchResult) {
+			return null;
+		}
+		const matchedString = matchResult[0];
+
+		const parsePatterns =
+			(width && args.parsePatterns[width]) ||
+			args.parsePatterns[args.defaultParseWidth]!;
+
+		const key = isArray(parsePatterns)
+			? parsePatterns.findIndex((pattern) => pattern.test(matchedString))
+			: findKey(parsePatterns, (pattern) => pattern.test(matchedString));
+
+		if (key === undefined || key === -1) {
+			return null;
+		}
+
+		let value = (args.valueCallback ? args.valueCallback(key) : key) as Value;
+		value = options?.valueCallback ? options.valueCallback(value) : value;
+
+		const rest = string.slice(matchedString.length);
+
+		return { value, rest };
+	};
+}
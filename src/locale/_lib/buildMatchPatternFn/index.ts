@@ -0,0 +1,32 @@
+import type { MatchFn } from '../../types';
+
+export interface BuildMatchPatternFnArgs<Value> {
+	matchPattern: RegExp;
+	parsePattern: RegExp;
+	valueCallback?: (value: string) => Value;
+}
+
+/**
+ * Builds a `match` function for a value matched by a single pattern,
+ * e.g. an ordinal number.
+ */
+export default function buildMatchPatternFn<Value>(
+	args: BuildMatchPatternFnArgs<Value>,
+): MatchFn<Value> {
+	return (string, options) => {
+		const matchResult = string.match(args.matchPattern);
+		if (!matchResult) return null;
+		const matchedString = matchResult[0];
+
+		const parseResult = string.match(args.parsePattern);
+		if (!parseResult) return null;
+		let value = (args.valueCallback
+			? args.valueCallback(parseResult[0])
+			: parseResult[0]) as Value;
+		value = options?.valueCallback ? options.valueCallback(value) : value;
+
+		const rest = string.slice(matchedString.length);
+
+		return { value, rest };
+	};
+}
@@ -0,0 +1,15 @@
+import type { FormatRelativeFn } from '../../../types';
+
+const formatRelativeLocale = {
+	lastWeek: "'last' eeee 'at' p",
+	yesterday: "'yesterday at' p",
+	today: "'today at' p",
+	tomorrow: "'tomorrow at' p",
+	nextWeek: "eeee 'at' p",
+	other: 'P',
+};
+
+const formatRelative: FormatRelativeFn = (token, _date, _baseDate, _options) =>
+	formatRelativeLocale[token];
+
+export default formatRelative;
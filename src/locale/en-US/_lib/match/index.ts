@@ -0,0 +1,140 @@
+import type { Day, Era, Month, Quarter } from '../../../../types';
+import type { LocaleDayPeriod, Match } from '../../../types';
+import buildMatchFn from '../../../_lib/buildMatchFn/index';
+import buildMatchPatternFn from '../../../_lib/buildMatchPatternFn/index';
+
+const matchOrdinalNumberPattern = /^(\d+)(th|st|nd|rd)?/i;
+const parseOrdinalNumberPattern = /\d+/i;
+
+const matchEraPatterns = {
+	narrow: /^(b|a)/i,
+	abbreviated: /^(b\.?\s?c\.?|b\.?\s?c\.?\s?e\.?|a\.?\s?d\.?|c\.?\s?e\.?)/i,
+	wide: /^(before christ|before common era|anno domini|common era)/i,
+};
+const parseEraPatterns = {
+	any: [/^b/i, /^(a|c)/i],
+};
+
+const matchQuarterPatterns = {
+	narrow: /^[1234]/i,
+	abbreviated: /^q[1234]/i,
+	wide: /^[1234](th|st|nd|rd)? quarter/i,
+};
+const parseQuarterPatterns = {
+	any: [/1/i, /2/i, /3/i, /4/i],
+};
+
+const matchMonthPatterns = {
+	narrow: /^[jfmasond]/i,
+	abbreviated: /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i,
+	wide: /^(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+};
+const parseMonthPatterns = {
+	narrow: [
+		/^j/i,
+		/^f/i,
+		/^m/i,
+		/^a/i,
+		/^m/i,
+		/^j/i,
+		/^j/i,
+		/^a/i,
+		/^s/i,
+		/^o/i,
+		/^n/i,
+		/^d/i,
+	],
+	any: [
+		/^ja/i,
+		/^f/i,
+		/^mar/i,
+		/^ap/i,
+		/^may/i,
+		/^jun/i,
+		/^jul/i,
+		/^au/i,
+		/^s/i,
+		/^o/i,
+		/^n/i,
+		/^d/i,
+	],
+};
+
+const matchDayPatterns = {
+	narrow: /^[smtwf]/i,
+	short: /^(su|mo|tu|we|th|fr|sa)/i,
+	abbreviated: /^(sun|mon|tue|wed|thu|fri|sat)/i,
+	wide: /^(sunday|monday|tuesday|wednesday|thursday|friday|saturday)/i,
+};
+const parseDayPatterns = {
+	narrow: [/^s/i, /^m/i, /^t/i, /^w/i, /^t/i, /^f/i, /^s/i],
+	any: [/^su/i, /^m/i, /^tu/i, /^w/i, /^th/i, /^f/i, /^sa/i],
+};
+
+const matchDayPeriodPatterns = {
+	narrow: /^(a|p|mi|n|(in the|at) (morning|afternoon|evening|night))/i,
+	any: /^([ap]\.?\s?m\.?|midnight|noon|(in the|at) (morning|afternoon|evening|night))/i,
+};
+// The named periods go first: `/^a/` would otherwise match "at night"
+const parseDayPeriodPatterns = {
+	any: {
+		midnight: /^mi/i,
+		noon: /^no/i,
+		morning: /morning/i,
+		afternoon: /afternoon/i,
+		evening: /evening/i,
+		night: /night/i,
+		am: /^a/i,
+		pm: /^p/i,
+	},
+};
+
+const match: Match = {
+	ordinalNumber: buildMatchPatternFn({
+		matchPattern: matchOrdinalNumberPattern,
+		parsePattern: parseOrdinalNumberPattern,
+		valueCallback: (value) => parseInt(value, 10),
+	}),
+
+	era: buildMatchFn({
+		matchPatterns: matchEraPatterns,
+		defaultMatchWidth: 'wide',
+		parsePatterns: parseEraPatterns,
+		defaultParseWidth: 'any',
+		valueCallback: (index) => index as Era,
+	}),
+
+	quarter: buildMatchFn({
+		matchPatterns: matchQuarterPatterns,
+		defaultMatchWidth: 'wide',
+		parsePatterns: parseQuarterPatterns,
+		defaultParseWidth: 'any',
+		valueCallback: (index) => ((index as number) + 1) as Quarter,
+	}),
+
+	month: buildMatchFn({
+		matchPatterns: matchMonthPatterns,
+		defaultMatchWidth: 'wide',
+		parsePatterns: parseMonthPatterns,
+		defaultParseWidth: 'any',
+		valueCallback: (index) => index as Month,
+	}),
+
+	day: buildMatchFn({
+		matchPatterns: matchDayPatterns,
+		defaultMatchWidth: 'wide',
+		parsePatterns: parseDayPatterns,
+		defaultParseWidth: 'any',
+		valueCallback: (index) => index as Day,
+	}),
+
+	dayPeriod: buildMatchFn({
+		matchPatterns: matchDayPeriodPatterns,
+		defaultMatchWidth: 'any',
+		parsePatterns: parseDayPeriodPatterns,
+		defaultParseWidth: 'any',
+		valueCallback: (key) => key as LocaleDayPeriod,
+	}),
+};
+
+export default match;
@@ -0,0 +1,105 @@
+import type { RelativeVocabulary } from '../../../types';
+
+const relative: RelativeVocabulary = {
+	now: ['now', 'right now'],
+	days: {
+		today: 0,
+		tomorrow: 1,
+		yesterday: -1,
+		'the day after tomorrow': 2,
+		'day after tomorrow': 2,
+		'the day before yesterday': -2,
+		'day before yesterday': -2,
+	},
+	weekdays: {
+		sunday: 0,
+		sun: 0,
+		monday: 1,
+		mon: 1,
+		tuesday: 2,
+		tues: 2,
+		tue: 2,
+		wednesday: 3,
+		wed: 3,
+		thursday: 4,
+		thurs: 4,
+		thur: 4,
+		thu: 4,
+		friday: 5,
+		fri: 5,
+		saturday: 6,
+		sat: 6,
+	},
+	units: {
+		minute: 'minute',
+		minutes: 'minute',
+		min: 'minute',
+		mins: 'minute',
+		hour: 'hour',
+		hours: 'hour',
+		hr: 'hour',
+		hrs: 'hour',
+		day: 'day',
+		days: 'day',
+		'business day': 'businessDay',
+		'business days': 'businessDay',
+		'working day': 'businessDay',
+		'working days': 'businessDay',
+		week: 'week',
+		weeks: 'week',
+		month: 'month',
+		months: 'month',
+		quarter: 'quarter',
+		quarters: 'quarter',
+		year: 'year',
+		years: 'year',
+	},
+	numbers: {
+		a: 1,
+		an: 1,
+		one: 1,
+		'a couple of': 2,
+		two: 2,
+		three: 3,
+		four: 4,
+		five: 5,
+		six: 6,
+		seven: 7,
+		eight: 8,
+		nine: 9,
+		ten: 10,
+		eleven: 11,
+		twelve: 12,
+	},
+	modifiers: {
+		last: -1,
+		previous: -1,
+		this: 0,
+		current: 0,
+		next: 1,
+	},
+	futurePrefixes: ['in'],
+	futureSuffixes: ['from now', 'later'],
+	pastPrefixes: [],
+	pastSuffixes: ['ago', 'earlier'],
+	boundaries: {
+		'start of': 'start',
+		'beginning of': 'start',
+		'end of': 'end',
+	},
+	articles: ['the'],
+	timePrefixes: ['at'],
+	times: {
+		noon: 12,
+		midday: 12,
+		midnight: 0,
+	},
+	dayPeriods: {
+		am: 'am',
+		'a.m.': 'am',
+		pm: 'pm',
+		'p.m.': 'pm',
+	},
+};
+
+export default relative;
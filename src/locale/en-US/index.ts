@@ -0,0 +1,32 @@
+import type { Locale } from '../types';
+import formatDistance from './_lib/formatDistance/index';
+import formatLong from './_lib/formatLong/index';
+import formatRelative from './_lib/formatRelative/index';
+import localize from './_lib/localize/index';
+import match from './_lib/match/index';
+import relative from './_lib/relative/index';
+
+/**
+ * @type {Locale}
+ * @category Locales
+ * @summary English locale (United States).
+ * @language English
+ * @iso-639-2 eng
+ * @author Sasha Koss [@kossnocorp]{@link https://github.com/kossnocorp}
+ * @author Lesha Koss [@leshakoss]{@link https://github.com/leshakoss}
+ */
+const locale: Locale = {
+	code: 'en-US',
+	formatDistance,
+	formatLong,
+	formatRelative,
+	localize,
+	match,
+	options: {
+		weekStartsOn: 0 /* Sunday */,
+		firstWeekContainsDate: 1,
+	},
+	relative,
+};
+
+export default locale;
@@ -0,0 +1,283 @@
+import type {
+	Day,
+	Era,
+	FirstWeekContainsDateOptions,
+	Month,
+	Quarter,
+	Unit,
+	WeekStartOptions,
+} from '../types';
+
+/**
+ * The locale object with all functions and data needed to parse and format
+ * dates. This is what each locale implements and exports.
+ */
+export interface Locale {
+	/** The locale code (ISO 639-1 + optional country code) */
+	code: string;
+	/** The function to format distance */
+	formatDistance: FormatDistanceFn;
+	/** The function to format relative dates */
+	formatRelative: FormatRelativeFn;
+	/** The object with functions used to localize various values */
+	localize: Localize;
+	/** The object with functions that return localized formats */
+	formatLong: FormatLong;
+	/** The object with functions used to match and parse various localized values */
+	match: Match;
+	/** An object with the locale week options */
+	options?: WeekStartOptions & FirstWeekContainsDateOptions;
+	/** The words used to parse relative dates like "next friday" */
+	relative?: RelativeVocabulary;
+}
+
+/**
+ * The token used in the format distance function. Represents the distance unit
+ * with prespecified precision.
+ */
+export type FormatDistanceToken =
+	| 'lessThanXSeconds'
+	| 'xSeconds'
+	| 'halfAMinute'
+	| 'lessThanXMinutes'
+	| 'xMinutes'
+	| 'aboutXHours'
+	| 'xHours'
+	| 'xDays'
+	| 'aboutXWeeks'
+	| 'xWeeks'
+	| 'aboutXMonths'
+	| 'xMonths'
+	| 'aboutXYears'
+	| 'xYears'
+	| 'overXYears'
+	| 'almostXYears';
+
+/**
+ * The {@link FormatDistanceFn} function options.
+ */
+export interface FormatDistanceFnOptions {
+	/** Add "X ago"/"in X" in the locale language */
+	addSuffix?: boolean;
+	/** The distance vector. -1 represents past and 1 future */
+	comparison?: -1 | 0 | 1;
+}
+
+/**
+ * The function that takes a token (i.e. halfAMinute) passed by `formatDistance`
+ * or `formatDistanceStrict` and payload, and returns localized distance.
+ */
+export type FormatDistanceFn = (
+	token: FormatDistanceToken,
+	count: number,
+	options?: FormatDistanceFnOptions,
+) => string;
+
+/**
+ * The tokens map to values (usually string templates) used in
+ * the format distance function.
+ */
+export type FormatDistanceLocale<Value> = {
+	[Token in FormatDistanceToken]: Value;
+};
+
+/**
+ * The token used in the format relative function. Represents the relative
+ * position of the date to the base date.
+ */
+export type FormatRelativeToken =
+	| 'lastWeek'
+	| 'yesterday'
+	| 'today'
+	| 'tomorrow'
+	| 'nextWeek'
+	| 'other';
+
+/**
+ * The {@link FormatRelativeFn} function options.
+ */
+export interface FormatRelativeFnOptions extends WeekStartOptions {
+	locale?: Locale;
+}
+
+/**
+ * The locale function that returns the format string used by
+ * `formatRelative` for the given token.
+ */
+export type FormatRelativeFn = (
+	token: FormatRelativeToken,
+	date: Date,
+	baseDate: Date,
+	options?: FormatRelativeFnOptions,
+) => string;
+
+/**
+ * The width of the localized value. `short` is only used for days of week.
+ */
+export type LocalePatternWidth =
+	| 'narrow'
+	| 'short'
+	| 'abbreviated'
+	| 'wide'
+	| 'any';
+
+/**
+ * The context of the localized value: `formatting` values are declined
+ * according to the rules of the language in the context of a date,
+ * `standalone` values are always nominative singular.
+ */
+export type LocaleContext = 'formatting' | 'standalone';
+
+/**
+ * The day period value passed to {@link Localize.dayPeriod}.
+ */
+export type LocaleDayPeriod =
+	| 'am'
+	| 'pm'
+	| 'midnight'
+	| 'noon'
+	| 'morning'
+	| 'afternoon'
+	| 'evening'
+	| 'night';
+
+/**
+ * The {@link LocalizeFn} function options.
+ */
+export interface LocalizeFnOptions {
+	width?: LocalePatternWidth;
+	context?: LocaleContext;
+}
+
+/**
+ * The function that localizes a value (era, month, etc.) of the given width
+ * and context.
+ */
+export type LocalizeFn<Value> = (
+	value: Value,
+	options?: LocalizeFnOptions,
+) => string;
+
+/**
+ * The object with functions used to localize various values. This is part
+ * of the locale used by `format` and `formatRelative`.
+ */
+export interface Localize {
+	ordinalNumber: (value: number, options?: { unit?: Unit }) => string;
+	era: LocalizeFn<Era>;
+	quarter: LocalizeFn<Quarter>;
+	month: LocalizeFn<Month>;
+	day: LocalizeFn<Day>;
+	dayPeriod: LocalizeFn<LocaleDayPeriod>;
+	/** Replaces the ASCII digits of the formatted numbers with native digits */
+	numeral?: (value: string) => string;
+}
+
+/**
+ * The width of the long format.
+ */
+export type FormatLongWidth = 'full' | 'long' | 'medium' | 'short';
+
+/**
+ * The function that returns a localized long format of the given width.
+ */
+export type FormatLongFn = (options?: { width?: FormatLongWidth }) => string;
+
+/**
+ * The object with functions that return localized long formats,
+ * used by the `P` and `p` tokens of `format`.
+ */
+export interface FormatLong {
+	date: FormatLongFn;
+	time: FormatLongFn;
+	dateTime: FormatLongFn;
+}
+
+/**
+ * The result of a {@link MatchFn} call: the parsed value and the rest
+ * of the string.
+ */
+export interface MatchResult<Value> {
+	value: Value;
+	rest: string;
+}
+
+/**
+ * The {@link MatchFn} function options.
+ */
+export interface MatchFnOptions<Value> {
+	width?: LocalePatternWidth;
+	valueCallback?: (value: Value) => Value;
+}
+
+/**
+ * The function that matches a localized value at the start of the string.
+ * Returns `null` if nothing is matched.
+ */
+export type MatchFn<Value> = (
+	str: string,
+	options?: MatchFnOptions<Value>,
+) => MatchResult<Value> | null;
+
+/**
+ * The object with functions used to match and parse various localized values.
+ */
+export interface Match {
+	ordinalNumber: MatchFn<number>;
+	era: MatchFn<Era>;
+	quarter: MatchFn<Quarter>;
+	month: MatchFn<Month>;
+	day: MatchFn<Day>;
+	dayPeriod: MatchFn<LocaleDayPeriod>;
+}
+
+/**
+ * The unit of the relative date phrases: the duration units
+ * and the business days.
+ */
+export type RelativeUnit =
+	| 'minute'
+	| 'hour'
+	| 'day'
+	| 'businessDay'
+	| 'week'
+	| 'month'
+	| 'quarter'
+	| 'year';
+
+/**
+ * The words used by `parseRelative`. The words are lower case, the phrases
+ * of several words are separated by single spaces and match any whitespace.
+ */
+export interface RelativeVocabulary {
+	/** The current moment, e.g. `now` */
+	now: string[];
+	/** The days relative to the base date, e.g. `{ tomorrow: 1 }` */
+	days: Record<string, number>;
+	/** The names of the days of the week, e.g. `{ friday: 5, fri: 5 }` */
+	weekdays: Record<string, Day>;
+	/** The units in every form, e.g. `{ week: 'week', weeks: 'week' }` */
+	units: Record<string, RelativeUnit>;
+	/** The amounts written as words, e.g. `{ a: 1, two: 2 }` */
+	numbers: Record<string, number>;
+	/** The previous, the current and the next period, e.g. `{ last: -1, this: 0, next: 1 }` */
+	modifiers: Record<string, -1 | 0 | 1>;
+	/** The words before the amount of the future durations, e.g. `in` */
+	futurePrefixes: string[];
+	/** The words after the future durations, e.g. `from now` */
+	futureSuffixes: string[];
+	/** The words before the amount of the past durations */
+	pastPrefixes: string[];
+	/** The words after the past durations, e.g. `ago` */
+	pastSuffixes: string[];
+	/** The start and the end of a period, e.g. `{ 'end of': 'end' }` */
+	boundaries: Record<string, 'start' | 'end'>;
+	/** The words allowed between a boundary and its period, e.g. `the` */
+	articles: string[];
+	/** The words before the time of the day, e.g. `at` */
+	timePrefixes: string[];
+	/** The hours named by words, e.g. `{ noon: 12 }` */
+	times: Record<string, number>;
+	/** The day periods after the hour, e.g. `{ pm: 'pm' }` */
+	dayPeriods: Record<string, 'am' | 'pm'>;
+}
@@ -0,0 +1,149 @@
+import type { Duration } from '../types';
+
+type DurationKey = keyof Duration;
+
+const number = '(\\d+(?:[.,]\\d+)?)';
+
+// PnYnMnWnDTnHnMnS, every component is optional but at least one is required
+const designatorsRegExp = new RegExp(
+	`^([-+])?P(?!$)(?:${number}Y)?(?:${number}M)?(?:${number}W)?(?:${number}D)?` +
+		`(?:T(?!$)(?:${number}H)?(?:${number}M)?(?:${number}S)?)?$`,
+);
+const designatorsKeys: DurationKey[] = [
+	'years',
+	'months',
+	'weeks',
+	'days',
+	'hours',
+	'minutes',
+	'seconds',
+];
+
+// PYYYY-MM-DDThh:mm:ss or PYYYYMMDDThhmmss
+const alternativeExtendedRegExp = /^([-+])?P(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}):(\d{2}(?:[.,]\d+)?))?$/;
+const alternativeBasicRegExp = /^([-+])?P(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}(?:[.,]\d+)?))?$/;
+const alternativeKeys: DurationKey[] = [
+	'years',
+	'months',
+	'days',
+	'hours',
+	'minutes',
+	'seconds',
+];
+
+// The maximum values of the alternative format components
+const alternativeMaximums: Duration = {
+	months: 12,
+	days: 30,
+	hours: 24,
+	minutes: 59,
+	seconds: 59,
+};
+
+const fractionRegExp = /[.,]/;
+
+function buildDuration(
+	keys: DurationKey[],
+	values: Array<string | undefined>,
+	sign: string | undefined,
+): Duration {
+	const multiplier = sign === '-' ? -1 : 1;
+	return keys.reduce<Duration>((duration, key, index) => {
+		const value = values[index];
+		if (value !== undefined) {
+			// Avoid -0 in the negative durations
+			duration[key] = +value.replace(',', '.') * multiplier || 0;
+		}
+		return duration;
+	}, {});
+}
+
+function throwInvalidDuration(durationString: string): never {
+	throw new RangeError(`Invalid ISO 8601 duration \`${durationString}\``);
+}
+
+/**
+ * @name parseISODuration
+ * @category Common Helpers
+ * @summary Parse ISO 8601 duration string
+ *
+ * @description
+ * Parse the given string in ISO 8601 duration format (https://en.wikipedia.org/wiki/ISO_8601#Durations)
+ * and return the duration object, e.g. the output of `formatISODuration`.
+ *
+ * The following forms are supported:
+ *
+ * - `P1Y2M3DT4H5M6S`: the components with designators; any component
+ *   may be omitted, but at least one is required;
+ * - `P3W`: the weeks, which may also be combined with the other components;
+ * - `PT1.5H`: the fraction of the lowest component, with `.` or `,`
+ *   as the decimal separator; the fraction is kept in that component.
+ *   Only the hours, minutes and seconds may have a fraction, because
+ *   `add` and `sub` would truncate the fractions of the calendar units;
+ * - `-P1D`: the negative durations, all components are negated;
+ * - `P0001-02-03T04:05:06` or `P00010203T040506`: the alternative format,
+ *   where the components mustn't exceed their carry-over points
+ *   (12 months, 30 days, 24 hours, 59 minutes and 59 seconds).
+ *
+ * The result contains only the components present in the string
+ * and can be passed to `add`, `sub` and `formatDuration`.
+ *
+ * @param durationString - the ISO 8601 duration string
+ * @returns the parsed duration
+ * @throws {RangeError} `durationString` must be a valid ISO 8601 duration
+ *
+ * @example
+ * // Parse the duration:
+ * const result = parseISODuration('P39Y2M20DT7H5M0S')
+ * //=> { years: 39, months: 2, days: 20, hours: 7, minutes: 5, seconds: 0 }
+ *
+ * @example
+ * // Parse the fractional hours:
+ * const result = parseISODuration('PT1.5H')
+ * //=> { hours: 1.5 }
+ *
+ * @example
+ * // Parse the negative alternative format:
+ * const result = parseISODuration('-P0001-02-03')
+ * //=> { years: -1, months: -2, days: -3 }
+ */
+export default function parseISODuration(durationString: string): Duration {
+	const designators = durationString.match(designatorsRegExp);
+	if (designators) {
+		const values = designators.slice(2);
+		const presentValues = values.filter((value) => value !== undefined);
+		// Only the lowest component may have a fraction,
+		// and the years, months, weeks and days may not have it at all
+		if (
+			presentValues.slice(0, -1).some((value) => fractionRegExp.test(value)) ||
+			values
+				.slice(0, 4)
+				.some((value) => value !== undefined && fractionRegExp.test(value))
+		) {
+			throwInvalidDuration(durationString);
+		}
+		return buildDuration(designatorsKeys, values, designators[1]);
+	}
+
+	const alternative =
+		durationString.match(alternativeExtendedRegExp) ||
+		durationString.match(alternativeBasicRegExp);
+	if (alternative) {
+		const duration = buildDuration(
+			alternativeKeys,
+			alternative.slice(2),
+			alternative[1],
+		);
+		if (
+			alternativeKeys.some(
+				(key) =>
+					Math.abs(duration[key] ?? 0) > (alternativeMaximums[key] ?? Infinity),
+			)
+		) {
+			throwInvalidDuration(durationString);
+		}
+		return duration;
+	}
+
+	return throwInvalidDuration(durationString);
+}
@@ -0,0 +1,84 @@
+import type { ParseISOOptions } from '../parseISO/index';
+import type { Interval } from '../types';
+import {
+	addDuration,
+	parseISOIntervalParts,
+	scaleDuration,
+	throwInvalidInterval,
+} from '../_lib/isoInterval/index';
+
+/**
+ * The {@link parseISOInterval} function options.
+ */
+export interface ParseISOIntervalOptions extends ParseISOOptions {}
+
+/**
+ * The interval with the dates as parsed by {@link parseISOInterval}.
+ */
+export interface ParsedInterval extends Interval {
+	start: Date;
+	end: Date;
+}
+
+/**
+ * @name parseISOInterval
+ * @category Interval Helpers
+ * @summary Parse ISO 8601 time interval string
+ *
+ * @description
+ * Parse the given string in ISO 8601 time interval format (https://en.wikipedia.org/wiki/ISO_8601#Time_intervals)
+ * and return the interval. All four forms are supported:
+ *
+ * - `2024-02-10T09:00:00Z/2024-02-15T17:00:00Z`: the start and the end;
+ * - `2024-02-10T09:00:00Z/P1DT8H`: the start and the duration;
+ * - `P1DT8H/2024-02-11T17:00:00Z`: the duration and the end;
+ * - `2024-02-10/15` or `2024-02-10T09:00/17:00`: the start and the end
+ *   with the higher order components (and the time zone) taken from the start.
+ *
+ * The dates are parsed with `parseISO` and the durations with `parseISODuration`.
+ * The designator may be either `/` or `--`.
+ *
+ * @param intervalString - the ISO 8601 time interval string
+ * @param options - an object with options, see `parseISO`.
+ * @returns the parsed interval
+ * @throws {RangeError} `intervalString` must be a valid ISO 8601 time interval
+ * @throws {RangeError} the start of the interval cannot be after its end
+ *
+ * @example
+ * // Parse the interval from its start and duration:
+ * const result = parseISOInterval('2024-01-31T00:00:00Z/P1M')
+ * //=> { start: Wed Jan 31 2024 00:00:00 GMT+0000, end: Thu Feb 29 2024 00:00:00 GMT+0000 }
+ *
+ * @example
+ * // Parse the abbreviated end:
+ * const result = parseISOInterval('2024-02-10/15')
+ * //=> { start: Sat Feb 10 2024 00:00:00, end: Thu Feb 15 2024 00:00:00 }
+ */
+export default function parseISOInterval(
+	intervalString: string,
+	options?: ParseISOIntervalOptions,
+): ParsedInterval {
+	const { start, end, duration } = parseISOIntervalParts(
+		intervalString,
+		options,
+	);
+
+	const interval: ParsedInterval =
+		start && end
+			? { start, end }
+			: start
+			? { start, end: addDuration(start, duration!) }
+			: {
+					start: addDuration(end!, scaleDuration(duration!, -1)),
+					end: end!,
+			  };
+
+	if (isNaN(interval.start.getTime()) || isNaN(interval.end.getTime())) {
+		throwInvalidInterval(intervalString);
+	}
+	if (interval.start > interval.end) {
+		throw new RangeError('The start of an interval cannot be after its end');
+	}
+
+	return interval;
+}
@@ -0,0 +1,173 @@
+import { millisecondsInMinute } from '../constants/index';
+import { dayNames, monthNames } from '../_lib/rfcDateNames/index';
+
+// [day-of-week ","] day month year hour ":" minute [":" second] zone,
+// with the optional whitespace of the obsolete syntax (RFC 5322 §4.3)
+const dateTimeRegExp = /^(?:([a-z]{3}) ?, ?)?(\d{1,2}) ?([a-z]{3}) ?(\d{2,}) (\d{2}) ?: ?(\d{2})(?: ?: ?(\d{2}))? ?([+-]\d{4}|[a-z]+)$/i;
+
+// The obsolete zone names and their offsets in hours
+const obsoleteZones: { [zone: string]: number } = {
+	UT: 0,
+	GMT: 0,
+	EST: -5,
+	EDT: -4,
+	CST: -6,
+	CDT: -5,
+	MST: -7,
+	MDT: -6,
+	PST: -8,
+	PDT: -7,
+};
+
+const militaryZoneRegExp = /^[a-ik-z]$/i;
+
+function findName(names: string[], name: string): number {
+	const lowerCaseName = name.toLowerCase();
+	return names.findIndex((value) => value.toLowerCase() === lowerCaseName);
+}
+
+// Replaces the comments, which may be nested and contain quoted pairs,
+// with a space. Returns null if the parentheses are not balanced.
+function removeComments(dateString: string): string | null {
+	let result = '';
+	let depth = 0;
+
+	for (let index = 0; index < dateString.length; index++) {
+		const character = dateString[index];
+		if (depth > 0 && character === '\\') {
+			index++;
+		} else if (character === '(') {
+			depth++;
+		} else if (character === ')') {
+			if (depth === 0) {
+				return null;
+			}
+			depth--;
+			if (depth === 0) {
+				result += ' ';
+			}
+		} else if (depth === 0) {
+			result += character;
+		}
+	}
+
+	return depth === 0 ? result : null;
+}
+
+// Returns the offset in minutes
+function parseZone(zone: string): number | undefined {
+	if (zone[0] === '+' || zone[0] === '-') {
+		const hours = +zone.slice(1, 3);
+		const minutes = +zone.slice(3, 5);
+		if (minutes > 59) {
+			return undefined;
+		}
+		return (zone[0] === '-' ? -1 : 1) * (hours * 60 + minutes);
+	}
+
+	const upperCaseZone = zone.toUpperCase();
+	if (upperCaseZone in obsoleteZones) {
+		return obsoleteZones[upperCaseZone] * 60;
+	}
+
+	// The military zones were defined incorrectly in RFC 822,
+	// so they are treated as `-0000` (the unknown local time)
+	return militaryZoneRegExp.test(zone) ? 0 : undefined;
+}
+
+// The obsolete 2-digit years are 1950-2049, the 3-digit ones are after 1900
+function parseYear(year: string): number {
+	if (year.length === 2) {
+		return +year < 50 ? 2000 + +year : 1900 + +year;
+	}
+	if (year.length === 3) {
+		return 1900 + +year;
+	}
+	return +year;
+}
+
+/**
+ * @name parseRFC2822
+ * @category Common Helpers
+ * @summary Parse the date according to the RFC 2822 standard (https://tools.ietf.org/html/rfc5322#section-3.3).
+ *
+ * @description
+ * Parse the date of the `Date` header of email messages, e.g. the output
+ * of `formatRFC2822`: `Wed, 18 Sep 2019 19:00:52 +0200`.
+ *
+ * The obsolete syntax of RFC 5322 §4.3 is accepted as well:
+ *
+ * - comments (e.g. `(CET)`) and folding whitespace anywhere between the parts;
+ * - the optional seconds and the optional day of the week;
+ * - 2-digit years (1950-2049) and 3-digit years (after 1900);
+ * - the zone names `UT`, `GMT`, `EST`, `EDT`, `CST`, `CDT`, `MST`, `MDT`, `PST` and `PDT`;
+ * - the military zone letters, which are treated as `-0000`
+ *   because of their wrong definition in RFC 822.
+ *
+ * The names are case-insensitive. The day of the week must match the date.
+ * Any other string, including the dates that don't exist, returns `Invalid Date`.
+ * The leap second `60` is treated as `59`.
+ *
+ * @param dateString - the RFC 2822 date string
+ * @returns the parsed date
+ *
+ * @example
+ * // Parse the RFC 2822 date:
+ * const result = parseRFC2822('Wed, 18 Sep 2019 19:00:52 +0200')
+ * //=> Wed Sep 18 2019 17:00:52 GMT+0000
+ *
+ * @example
+ * // Parse the obsolete syntax:
+ * const result = parseRFC2822('18 Sep 19 14:00 EST (Eastern Standard Time)')
+ * //=> Wed Sep 18 2019 19:00:00 GMT+0000
+ */
+export default function parseRFC2822(dateString: string): Date {
+	const withoutComments = removeComments(dateString);
+	if (withoutComments === null) {
+		return new Date(NaN);
+	}
+
+	// Unfold the folding whitespace
+	const normalized = withoutComments
+		.replace(/\r\n(?=[ \t])/g, '')
+		.replace(/[ \t]+/g, ' ')
+		.trim();
+
+	const matched = normalized.match(dateTimeRegExp);
+	if (!matched) {
+		return new Date(NaN);
+	}
+
+	const dayOfWeek = matched[1] ? findName(dayNames, matched[1]) : undefined;
+	const day = +matched[2];
+	const month = findName(monthNames, matched[3]);
+	const year = parseYear(matched[4]);
+	const hours = +matched[5];
+	const minutes = +matched[6];
+	const seconds = matched[7] ? +matched[7] : 0;
+	const offset = parseZone(matched[8]);
+
+	if (
+		month === -1 ||
+		dayOfWeek === -1 ||
+		offset === undefined ||
+		hours > 23 ||
+		minutes > 59 ||
+		seconds > 60
+	) {
+		return new Date(NaN);
+	}
+
+	const date = new Date(0);
+	date.setUTCFullYear(year, month, day);
+	date.setUTCHours(hours, minutes, Math.min(seconds, 59), 0);
+
+	if (
+		date.getUTCDate() !== day ||
+		(dayOfWeek !== undefined && date.getUTCDay() !== dayOfWeek)
+	) {
+		return new Date(NaN);
+	}
+
+	return new Date(date.getTime() - offset * millisecondsInMinute);
+}
@@ -0,0 +1,137 @@
+import { dayFullNames, dayNames, monthNames } from '../_lib/rfcDateNames/index';
+
+// Sun, 06 Nov 1994 08:49:37 GMT
+const imfFixdateRegExp = /^([A-Z][a-z]{2}), (\d{2}) ([A-Z][a-z]{2}) (\d{4}) (\d{2}):(\d{2}):(\d{2}) GMT$/;
+
+// Sunday, 06-Nov-94 08:49:37 GMT
+const rfc850DateRegExp = /^([A-Z][a-z]+), (\d{2})-([A-Z][a-z]{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) GMT$/;
+
+// Sun Nov  6 08:49:37 1994
+const asctimeDateRegExp = /^([A-Z][a-z]{2}) ([A-Z][a-z]{2}) ([ \d]\d) (\d{2}):(\d{2}):(\d{2}) (\d{4})$/;
+
+interface DateFields {
+	dayName: string;
+	day: string;
+	month: string;
+	year: number;
+	hours: string;
+	minutes: string;
+	seconds: string;
+}
+
+// An RFC 850 year that appears to be more than 50 years in the future
+// is the most recent past year with the same last two digits
+function resolveTwoDigitYear(twoDigitYear: number): number {
+	const currentYear = new Date().getUTCFullYear();
+	const year = currentYear - (currentYear % 100) + twoDigitYear;
+	return year > currentYear + 50 ? year - 100 : year;
+}
+
+function matchDateFields(dateString: string): DateFields | null {
+	const imfFixdate = dateString.match(imfFixdateRegExp);
+	if (imfFixdate) {
+		return {
+			dayName: imfFixdate[1],
+			day: imfFixdate[2],
+			month: imfFixdate[3],
+			year: +imfFixdate[4],
+			hours: imfFixdate[5],
+			minutes: imfFixdate[6],
+			seconds: imfFixdate[7],
+		};
+	}
+
+	const rfc850Date = dateString.match(rfc850DateRegExp);
+	if (rfc850Date) {
+		const dayIndex = dayFullNames.indexOf(rfc850Date[1]);
+		return {
+			// Only the full day names are allowed
+			dayName: dayIndex === -1 ? '' : dayNames[dayIndex],
+			day: rfc850Date[2],
+			month: rfc850Date[3],
+			year: resolveTwoDigitYear(+rfc850Date[4]),
+			hours: rfc850Date[5],
+			minutes: rfc850Date[6],
+			seconds: rfc850Date[7],
+		};
+	}
+
+	const asctimeDate = dateString.match(asctimeDateRegExp);
+	if (asctimeDate) {
+		return {
+			dayName: asctimeDate[1],
+			month: asctimeDate[2],
+			day: asctimeDate[3],
+			hours: asctimeDate[4],
+			minutes: asctimeDate[5],
+			seconds: asctimeDate[6],
+			year: +asctimeDate[7],
+		};
+	}
+
+	return null;
+}
+
+/**
+ * @name parseRFC7231
+ * @category Common Helpers
+ * @summary Parse the HTTP date according to the RFC 7231 standard (https://tools.ietf.org/html/rfc7231#section-7.1.1.1).
+ *
+ * @description
+ * Parse the date of the HTTP headers like `Date`, `Expires`, `If-Modified-Since`
+ * or `Set-Cookie`. All three formats required by RFC 7231 are accepted:
+ *
+ * - IMF-fixdate, the output of `formatRFC7231`: `Sun, 06 Nov 1994 08:49:37 GMT`
+ * - the obsolete RFC 850 format: `Sunday, 06-Nov-94 08:49:37 GMT`
+ * - the obsolete ANSI C `asctime()` format: `Sun Nov  6 08:49:37 1994`
+ *
+ * The dates are always in UTC. The two-digit RFC 850 year that appears
+ * to be more than 50 years in the future is the most recent past year
+ * with the same last two digits.
+ *
+ * Unlike `new Date(dateString)`, the parsing doesn't depend on the engine:
+ * the names are case-sensitive, the day name must match the date and any
+ * other string, including the dates that don't exist, returns `Invalid Date`.
+ *
+ * @param dateString - the HTTP date string
+ * @returns the parsed date
+ *
+ * @example
+ * // Parse the IMF-fixdate:
+ * const result = parseRFC7231('Wed, 18 Sep 2019 19:00:52 GMT')
+ * //=> Wed Sep 18 2019 19:00:52 GMT+0000
+ *
+ * @example
+ * // Parse the asctime() date:
+ * const result = parseRFC7231('Sun Nov  6 08:49:37 1994')
+ * //=> Sun Nov 06 1994 08:49:37 GMT+0000
+ */
+export default function parseRFC7231(dateString: string): Date {
+	const fields = matchDateFields(dateString);
+	if (!fields) {
+		return new Date(NaN);
+	}
+
+	const month = monthNames.indexOf(fields.month);
+	const day = +fields.day;
+	const hours = +fields.hours;
+	const minutes = +fields.minutes;
+	const seconds = +fields.seconds;
+
+	if (month === -1 || hours > 23 || minutes > 59 || seconds > 59) {
+		return new Date(NaN);
+	}
+
+	const date = new Date(0);
+	date.setUTCFullYear(fields.year, month, day);
+	date.setUTCHours(hours, minutes, seconds, 0);
+
+	if (
+		date.getUTCDate() !== day ||
+		dayNames[date.getUTCDay()] !== fields.dayName
+	) {
+		return new Date(NaN);
+	}
+
+	return date;
+}
@@ -0,0 +1,553 @@
+import { add, addBusinessDays, addDays } from '../add-functions';
+import endOfDay from '../endOfDay/index';
+import endOfHour from '../endOfHour/index';
+import endOfMinute from '../endOfMinute/index';
+import endOfMonth from '../endOfMonth/index';
+import endOfQuarter from '../endOfQuarter/index';
+import endOfWeek from '../endOfWeek/index';
+import endOfYear from '../endOfYear/index';
+import startOfDay from '../startOfDay/index';
+import startOfHour from '../startOfHour/index';
+import startOfMinute from '../startOfMinute/index';
+import startOfMonth from '../startOfMonth/index';
+import startOfQuarter from '../startOfQuarter/index';
+import startOfWeek from '../startOfWeek/index';
+import startOfYear from '../startOfYear/index';
+import toDate from '../toDate/index';
+import type { RelativeUnit, RelativeVocabulary } from '../locale/types';
+import type {
+	Day,
+	Duration,
+	Interval,
+	LocaleTagOptions,
+	WeekStartOptions,
+} from '../types';
+import defaultLocale from '../_lib/defaultLocale/index';
+import { getDefaultOptions } from '../_lib/defaultOptions/index';
+import { getOptionsLocale } from '../_lib/localeRegistry/index';
+
+/**
+ * The {@link parseRelative} function options.
+ */
+export interface ParseRelativeOptions
+	extends LocaleTagOptions,
+		WeekStartOptions {}
+
+/**
+ * The result of {@link parseRelative}.
+ */
+export interface ParseRelativeResult {
+	/** The parsed date, or the interval for the periods like "last week" */
+	value: Date | Interval;
+	/** The index of the text where the recognized phrase starts */
+	index: number;
+	/** The recognized phrase */
+	match: string;
+	/** The share of the text that was recognized, from 0 to 1 */
+	confidence: number;
+}
+
+interface PhraseMatch<Value> {
+	value: Value;
+	end: number;
+}
+
+interface RelativeContext {
+	text: string;
+	baseDate: Date;
+	vocabulary: RelativeVocabulary;
+	weekStartsOn: Day;
+}
+
+const wordBoundary = '(?![\\p{L}\\p{N}])';
+const wordStartRegExp = /[\p{L}\p{N}]/u;
+const whitespaceRegExp = /^\s*/;
+const numberRegExp = /^\d+(?!\d)/;
+const timeRegExp = /^(\d{1,2})(?::(\d{2}))?(?!\d)/;
+const notWhitespaceRegExp = /\S/g;
+
+// The keys of the duration by the units that `add` supports
+const durationKeys: Record<
+	Exclude<RelativeUnit, 'businessDay' | 'quarter'>,
+	keyof Duration
+> = {
+	minute: 'minutes',
+	hour: 'hours',
+	day: 'days',
+	week: 'weeks',
+	month: 'months',
+	year: 'years',
+};
+
+const cloneDate = (date: Date) => new Date(date.getTime());
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function skipWhitespace(text: string, index: number): number {
+	return index + text.slice(index).match(whitespaceRegExp)![0].length;
+}
+
+// Matches the longest of the phrases at the index, the words
+// of the phrases may be separated by any whitespace
+function matchPhrase(
+	text: string,
+	index: number,
+	phrases: string[],
+): PhraseMatch<string> | null {
+	const rest = text.slice(index);
+	const sortedPhrases = phrases.slice().sort((a, b) => b.length - a.length);
+
+	for (const phrase of sortedPhrases) {
+		const regExp = new RegExp(
+			'^' + phrase.split(' ').map(escapeRegExp).join('\\s+') + wordBoundary,
+			'iu',
+		);
+		const matched = rest.match(regExp);
+		if (matched) {
+			return { value: phrase, end: index + matched[0].length };
+		}
+	}
+
+	return null;
+}
+
+function matchWord<Value>(
+	text: string,
+	index: number,
+	words: Record<string, Value>,
+): PhraseMatch<Value> | null {
+	const matched = matchPhrase(text, index, Object.keys(words));
+	return matched && { value: words[matched.value], end: matched.end };
+}
+
+function matchAmount(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<number> | null {
+	const matched = context.text.slice(index).match(numberRegExp);
+	if (matched) {
+		return {
+			value: parseInt(matched[0], 10),
+			end: index + matched[0].length,
+		};
+	}
+	return matchWord(context.text, index, context.vocabulary.numbers);
+}
+
+function toSigns(words: string[], sign: number): Record<string, number> {
+	return words.reduce<Record<string, number>>((signs, word) => {
+		signs[word] = sign;
+		return signs;
+	}, {});
+}
+
+// The upcoming day of the week including the base date, the next one
+// excluding the base date or the previous one
+function getWeekday(baseDate: Date, day: Day, direction: -1 | 0 | 1): Date {
+	const delta = day - baseDate.getDay();
+	let days = (delta + 7) % 7;
+	if (direction === 1 && days === 0) {
+		days = 7;
+	} else if (direction === -1) {
+		days = days === 0 ? -7 : days - 7;
+	}
+	return addDays(startOfDay(cloneDate(baseDate)), days);
+}
+
+function shiftDate(date: Date, unit: RelativeUnit, amount: number): Date {
+	switch (unit) {
+		case 'businessDay':
+			return addBusinessDays(cloneDate(date), amount);
+		case 'quarter':
+			return add(cloneDate(date), { months: amount * 3 });
+		default:
+			return add(cloneDate(date), { [durationKeys[unit]]: amount });
+	}
+}
+
+function getPeriod(
+	date: Date,
+	unit: RelativeUnit,
+	weekStartsOn: Day,
+): { start: Date; end: Date } | null {
+	switch (unit) {
+		case 'minute':
+			return {
+				start: startOfMinute(cloneDate(date)),
+				end: endOfMinute(cloneDate(date)),
+			};
+		case 'hour':
+			return {
+				start: startOfHour(cloneDate(date)),
+				end: endOfHour(cloneDate(date)),
+			};
+		case 'day':
+			return {
+				start: startOfDay(cloneDate(date)),
+				end: endOfDay(cloneDate(date)),
+			};
+		case 'week':
+			return {
+				start: startOfWeek(cloneDate(date), { weekStartsOn }),
+				end: endOfWeek(cloneDate(date), { weekStartsOn }),
+			};
+		case 'month':
+			return {
+				start: startOfMonth(cloneDate(date)),
+				end: endOfMonth(cloneDate(date)),
+			};
+		case 'quarter':
+			return {
+				start: startOfQuarter(cloneDate(date)),
+				end: endOfQuarter(cloneDate(date)),
+			};
+		case 'year':
+			return {
+				start: startOfYear(cloneDate(date)),
+				end: endOfYear(cloneDate(date)),
+			};
+		// The business days don't make a period
+		default:
+			return null;
+	}
+}
+
+// "in 3 days", "3 days ago", "2 weeks from now"
+function matchDuration(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<Date> | null {
+	const { text, vocabulary } = context;
+
+	const prefix =
+		matchWord(text, index, toSigns(vocabulary.pastPrefixes, -1)) ??
+		matchWord(text, index, toSigns(vocabulary.futurePrefixes, 1));
+	const amountIndex = prefix ? skipWhitespace(text, prefix.end) : index;
+
+	const amount = matchAmount(context, amountIndex);
+	if (!amount) {
+		return null;
+	}
+	const unit = matchWord(
+		text,
+		skipWhitespace(text, amount.end),
+		vocabulary.units,
+	);
+	if (!unit) {
+		return null;
+	}
+
+	let sign = prefix?.value;
+	let end = unit.end;
+	if (!prefix) {
+		const suffixIndex = skipWhitespace(text, unit.end);
+		const suffix =
+			matchWord(text, suffixIndex, toSigns(vocabulary.pastSuffixes, -1)) ??
+			matchWord(text, suffixIndex, toSigns(vocabulary.futureSuffixes, 1));
+		if (!suffix) {
+			return null;
+		}
+		sign = suffix.value;
+		end = suffix.end;
+	}
+
+	return {
+		value: shiftDate(context.baseDate, unit.value, sign! * amount.value),
+		end,
+	};
+}
+
+// "end of month", "start of next week"
+function matchBoundary(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<Date> | null {
+	const { text, vocabulary } = context;
+
+	const boundary = matchWord(text, index, vocabulary.boundaries);
+	if (!boundary) {
+		return null;
+	}
+
+	let unitIndex = skipWhitespace(text, boundary.end);
+	const article = matchPhrase(text, unitIndex, vocabulary.articles);
+	if (article) {
+		unitIndex = skipWhitespace(text, article.end);
+	}
+	const modifier = matchWord(text, unitIndex, vocabulary.modifiers);
+	if (modifier) {
+		unitIndex = skipWhitespace(text, modifier.end);
+	}
+
+	const unit = matchWord(text, unitIndex, vocabulary.units);
+	const period =
+		unit &&
+		getPeriod(
+			shiftDate(context.baseDate, unit.value, modifier?.value ?? 0),
+			unit.value,
+			context.weekStartsOn,
+		);
+	if (!period) {
+		return null;
+	}
+
+	return { value: period[boundary.value], end: unit.end };
+}
+
+// "next friday", "last week"
+function matchModified(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<Date | Interval> | null {
+	const { text, vocabulary, baseDate } = context;
+
+	const modifier = matchWord(text, index, vocabulary.modifiers);
+	if (!modifier) {
+		return null;
+	}
+	const wordIndex = skipWhitespace(text, modifier.end);
+
+	const weekday = matchWord(text, wordIndex, vocabulary.weekdays);
+	if (weekday) {
+		return {
+			value: getWeekday(baseDate, weekday.value, modifier.value),
+			end: weekday.end,
+		};
+	}
+
+	const unit = matchWord(text, wordIndex, vocabulary.units);
+	const period =
+		unit &&
+		getPeriod(
+			shiftDate(baseDate, unit.value, modifier.value),
+			unit.value,
+			context.weekStartsOn,
+		);
+	return period && { value: period, end: unit.end };
+}
+
+// "today", "tomorrow", "friday", "now"
+function matchDay(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<Date> | null {
+	const { text, vocabulary, baseDate } = context;
+
+	const now = matchPhrase(text, index, vocabulary.now);
+	if (now) {
+		return { value: cloneDate(baseDate), end: now.end };
+	}
+
+	const day = matchWord(text, index, vocabulary.days);
+	if (day) {
+		return {
+			value: addDays(startOfDay(cloneDate(baseDate)), day.value),
+			end: day.end,
+		};
+	}
+
+	const weekday = matchWord(text, index, vocabulary.weekdays);
+	return (
+		weekday && {
+			value: getWeekday(baseDate, weekday.value, 0),
+			end: weekday.end,
+		}
+	);
+}
+
+// "5pm", "at 17:30", "at noon"; the hours without the minutes
+// or the day period need the prefix
+function matchTime(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<[number, number]> | null {
+	const { text, vocabulary } = context;
+
+	const prefix = matchPhrase(text, index, vocabulary.timePrefixes);
+	const timeIndex = prefix ? skipWhitespace(text, prefix.end) : index;
+
+	const namedTime = matchWord(text, timeIndex, vocabulary.times);
+	if (namedTime) {
+		return { value: [namedTime.value, 0], end: namedTime.end };
+	}
+
+	const matched = text.slice(timeIndex).match(timeRegExp);
+	if (!matched) {
+		return null;
+	}
+	let hours = parseInt(matched[1], 10);
+	const minutes = matched[2] ? parseInt(matched[2], 10) : 0;
+	const timeEnd = timeIndex + matched[0].length;
+	const dayPeriod = matchWord(
+		text,
+		skipWhitespace(text, timeEnd),
+		vocabulary.dayPeriods,
+	);
+
+	if (!dayPeriod && !matched[2] && !prefix) {
+		return null;
+	}
+	if (dayPeriod) {
+		if (hours < 1 || hours > 12) {
+			return null;
+		}
+		hours = (hours % 12) + (dayPeriod.value === 'pm' ? 12 : 0);
+	}
+	if (hours > 23 || minutes > 59) {
+		return null;
+	}
+
+	return { value: [hours, minutes], end: dayPeriod?.end ?? timeEnd };
+}
+
+function matchDate(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<Date | Interval> | null {
+	return (
+		matchBoundary(context, index) ??
+		matchDuration(context, index) ??
+		matchModified(context, index) ??
+		matchDay(context, index)
+	);
+}
+
+function setTime(date: Date, [hours, minutes]: [number, number]): Date {
+	const result = cloneDate(date);
+	result.setHours(hours, minutes, 0, 0);
+	return result;
+}
+
+// Matches the date phrase with the optional time before or after it
+function matchPhraseAt(
+	context: RelativeContext,
+	index: number,
+): PhraseMatch<Date | Interval> | null {
+	const { text, baseDate } = context;
+
+	const leadingTime = matchTime(context, index);
+	if (leadingTime) {
+		const date = matchDate(context, skipWhitespace(text, leadingTime.end));
+		if (date && date.value instanceof Date) {
+			return { value: setTime(date.value, leadingTime.value), end: date.end };
+		}
+		return {
+			value: setTime(baseDate, leadingTime.value),
+			end: leadingTime.end,
+		};
+	}
+
+	const date = matchDate(context, index);
+	if (date && date.value instanceof Date) {
+		const time = matchTime(context, skipWhitespace(text, date.end));
+		if (time) {
+			return { value: setTime(date.value, time.value), end: time.end };
+		}
+	}
+	return date;
+}
+
+function countNotWhitespace(text: string): number {
+	return (text.match(notWhitespaceRegExp) || []).length;
+}
+
+/**
+ * @name parseRelative
+ * @category Common Helpers
+ * @summary Parse the natural language relative date
+ *
+ * @description
+ * Find the relative date phrase like "next friday at 5pm", "in 3 business days",
+ * "2 weeks ago" or "end of month" in the text and return the date it means
+ * relative to the base date.
+ *
+ * The phrases are:
+ *
+ * - the days: "now", "today", "tomorrow", "yesterday";
+ * - the days of the week: "friday" is the upcoming one (the base date itself
+ *   if it's a friday), "next friday" is the one after the base date,
+ *   "last friday" is the one before it;
+ * - the durations: "in 3 days", "3 days ago", "2 weeks from now",
+ *   "in 3 business days", with the numbers or the words like "a" or "two";
+ * - the boundaries of the periods: "end of month", "start of next week";
+ * - the periods: "last week", "this month", "next year", which return
+ *   the interval from the start to the end of the period;
+ * - the time of the day before or after any date: "at 5pm", "17:30", "at noon".
+ *
+ * The days, the days of the week and the boundaries are at the midnight
+ * unless the time is given; the durations keep the time of the base date.
+ *
+ * The words are taken from the `relative` vocabulary of the locale,
+ * so the other languages are supported by the locales that define it.
+ * The locales without the vocabulary use the English one of `enUS`.
+ * The phrase may be surrounded by other words, e.g. "lunch next friday".
+ * The first phrase found is returned along with its index, its text
+ * and the confidence: the share of the text (without whitespace)
+ * that was recognized. If no phrase is found, `null` is returned.
+ *
+ * @param text - the text to parse
+ * @param baseDate - the date the phrase is relative to
+ * @param options - an object with options.
+ * @returns the parsed date or interval with the report, or `null`
+ *
+ * @example
+ * // Parse the day of the week with the time:
+ * const result = parseRelative('next friday at 5pm', new Date(2024, 2, 4))
+ * //=> { value: Fri Mar 08 2024 17:00:00, index: 0, match: 'next friday at 5pm', confidence: 1 }
+ *
+ * @example
+ * // Parse the period in the text:
+ * const result = parseRelative('report for last week', new Date(2024, 2, 6))
+ * //=> { value: { start: Sun Feb 25 2024 00:00:00, end: Sat Mar 02 2024 23:59:59.999 },
+ * //     index: 11, match: 'last week', confidence: 0.47 }
+ */
+export default function parseRelative(
+	text: string,
+	baseDate: Date | number,
+	options?: ParseRelativeOptions,
+): ParseRelativeResult | null {
+	const defaultOptions = getDefaultOptions();
+	const optionsLocale = getOptionsLocale(options?.locale);
+	const locale = optionsLocale ?? defaultOptions.locale ?? defaultLocale;
+
+	const weekStartsOn =
+		options?.weekStartsOn ??
+		optionsLocale?.options?.weekStartsOn ??
+		defaultOptions.weekStartsOn ??
+		defaultOptions.locale?.options?.weekStartsOn ??
+		0;
+
+	const originalBaseDate = toDate(baseDate);
+	if (isNaN(originalBaseDate.getTime())) {
+		return null;
+	}
+
+	const context: RelativeContext = {
+		text,
+		baseDate: originalBaseDate,
+		vocabulary: locale.relative ?? defaultLocale.relative!,
+		weekStartsOn,
+	};
+
+	for (let index = 0; index < text.length; index++) {
+		const isWordStart =
+			wordStartRegExp.test(text[index]) &&
+			(index === 0 || !wordStartRegExp.test(text[index - 1]));
+		if (isWordStart) {
+			const matched = matchPhraseAt(context, index);
+			if (matched) {
+				const match = text.slice(index, matched.end);
+				return {
+					value: matched.value,
+					index,
+					match,
+					confidence: countNotWhitespace(match) / countNotWhitespace(text),
+				};
+			}
+		}
+	}
+
+	return null;
+}
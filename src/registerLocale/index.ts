@@ -0,0 +1,43 @@
+import type { Locale } from '../locale/types';
+import {
+	LocaleLoader,
+	registerLocaleLoader,
+} from '../_lib/localeRegistry/index';
+
+export type { LocaleLoader };
+
+/**
+ * @name registerLocale
+ * @category Common Helpers
+ * @summary Register a locale to be resolved by its tag.
+ * @pure false
+ *
+ * @description
+ * Register the locale for the given BCP 47 language tag, so it can be loaded
+ * with `resolveLocale` and passed as a tag string in `options.locale`
+ * of `format`, `formatDistance` and `formatRelative`.
+ *
+ * The loader is called once, when the locale is resolved for the first time,
+ * so it can load the locale with a dynamic `import()`. The module may
+ * export the locale as default. A locale object can be registered directly.
+ *
+ * The English (United States) locale is registered by default.
+ * Registering the same tag again replaces the previous locale.
+ *
+ * @param tag - the BCP 47 language tag, e.g. `'de-AT'`
+ * @param loader - the function that loads the locale, or the locale itself
+ * @throws {RangeError} `tag` must be a valid BCP 47 language tag
+ *
+ * @example
+ * // Load the German locale on demand:
+ * registerLocale('de', () => import('date-fns/locale/de'))
+ * await resolveLocale('de-AT')
+ * const result = format(new Date(2014, 6, 2), 'EEEE', { locale: 'de-AT' })
+ * //=> 'Mittwoch'
+ */
+export default function registerLocale(
+	tag: string,
+	loader: LocaleLoader | Locale,
+): void {
+	registerLocaleLoader(tag, loader);
+}
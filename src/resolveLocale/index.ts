@@ -0,0 +1,36 @@
+import type { Locale } from '../locale/types';
+import { loadLocale } from '../_lib/localeRegistry/index';
+
+/**
+ * @name resolveLocale
+ * @category Common Helpers
+ * @summary Load the registered locale that best fits the tag.
+ *
+ * @description
+ * Find the locale registered with `registerLocale` that best fits
+ * the given BCP 47 language tag, load it and cache the result.
+ *
+ * The tag is matched against the registered tags in this order:
+ *
+ * 1. the tag itself or its prefix (e.g. `de-AT` matches `de-AT`, then `de`);
+ * 2. the prefix of its likely form (e.g. `zh-TW` matches `zh-Hant`);
+ * 3. any tag of the same language and script (e.g. `de-AT` matches `de-DE`),
+ *    preferring the one with the same likely region.
+ *
+ * Once resolved, the tag can be passed in `options.locale`
+ * of `format`, `formatDistance` and `formatRelative` instead of the locale.
+ *
+ * @param tag - the BCP 47 language tag, e.g. `'de-AT'`
+ * @returns the promise resolved with the locale
+ * @throws {RangeError} `tag` must be a valid BCP 47 language tag
+ * @throws {RangeError} a locale must be registered for `tag`
+ *
+ * @example
+ * // Resolve the Austrian German locale with the German one:
+ * registerLocale('de', () => import('date-fns/locale/de'))
+ * const result = await resolveLocale('de-AT')
+ * //=> the German locale
+ */
+export default async function resolveLocale(tag: string): Promise<Locale> {
+	return loadLocale(tag);
+}
@@ -0,0 +1,320 @@
+import { millisecondsInMinute } from '../constants/index';
+import constructFrom from '../constructFrom/index';
+import toDate from '../toDate/index';
+import type { ParseOptions } from '../parse/index';
+import type { ParseError, ParseErrorCode, SafeParseResult } from '../types';
+import defaultLocale from '../_lib/defaultLocale/index';
+import { getDefaultOptions } from '../_lib/defaultOptions/index';
+import longFormatters from '../_lib/format/longFormatters/index';
+import { getOptionsLocale } from '../_lib/localeRegistry/index';
+import parsers from '../_lib/parse/parsers/index';
+import type {
+	ParseFlags,
+	Parser,
+	ParserOptions,
+} from '../_lib/parse/parsers/index';
+import {
+	isProtectedDayOfYearToken,
+	isProtectedWeekYearToken,
+	throwProtectedError,
+} from '../_lib/protectedTokens/index';
+
+// This RegExp consists of three parts separated by `|`:
+// - [yYQqMLwIdDecihHKkms]o matches any available ordinal number token
+//   (one of the certain letters followed by `o`)
+// - (\w)\1* matches any sequences of the same letter
+// - '' matches two quote characters in a row
+// - '(''|[^'])+('|$) matches anything surrounded by two quote characters ('),
+//   except a single quote symbol, which ends the sequence.
+//   Two quote characters do not end the sequence.
+//   If there is no matching single quote
+//   then the sequence will continue until the end of the string.
+// - . matches any single character unmatched by previous parts of the RegExps
+const formattingTokensRegExp = /[yYQqMLwIdDecihHKkms]o|(\w)\1*|''|'(''|[^'])+('|$)|./g;
+
+// This RegExp catches symbols escaped by quotes, and also
+// sequences of symbols P, p, and the combinations like `PPPPPPPppppp`
+const longFormattingTokensRegExp = /P+p+|P+|p+|''|'(''|[^'])+('|$)|./g;
+
+const escapedStringRegExp = /^'([^]*?)'?$/;
+const doubleQuoteRegExp = /''/g;
+const notWhitespaceRegExp = /\S/;
+const unescapedLatinCharacterRegExp = /[a-zA-Z]/;
+
+/**
+ * The {@link safeParse} function options.
+ */
+export interface SafeParseOptions extends ParseOptions {}
+
+interface ParsedSetter {
+	parser: Parser<unknown>;
+	value: unknown;
+	token: string;
+	index: number;
+}
+
+function cleanEscapedString(input: string): string {
+	const matched = input.match(escapedStringRegExp);
+
+	if (!matched) {
+		return input;
+	}
+
+	return matched[1].replace(doubleQuoteRegExp, "'");
+}
+
+function buildError(
+	code: ParseErrorCode,
+	index: number,
+	expected: string,
+): { ok: false; error: ParseError } {
+	return { ok: false, error: { code, index, expected } };
+}
+
+/**
+ * @name safeParse
+ * @category Common Helpers
+ * @summary Parse the date and describe the errors
+ *
+ * @description
+ * Parse the date string using the given format string like `parse`, but instead
+ * of Invalid Date return an object describing the result:
+ *
+ * - `{ ok: true, date, offset }` with the parsed date and the offset from UTC
+ *   in minutes, which is `undefined` if the format has no `X` or `x` token;
+ * - `{ ok: false, error: { code, index, expected } }` with the reason
+ *   of the failure, the index of the date string where it's found
+ *   and the description of what was expected there.
+ *
+ * The error codes are:
+ *
+ * - `invalidValue`: the value of the token in `expected` couldn't be matched;
+ * - `valueOutOfRange`: the value of the token in `expected` doesn't exist,
+ *   e.g. February 30;
+ * - `literalMismatch`: the text in `expected` isn't found;
+ * - `trailingCharacters`: the date string continues after the end of the format.
+ *
+ * The format string is checked the same way as in `parse`,
+ * so the wrong format strings still throw.
+ *
+ * @param dateString - the string to parse
+ * @param formatString - the string of tokens, see `parse` for the list
+ * @param referenceDate - defines values missing from the parsed dateString
+ * @param options - an object with options.
+ * @returns the parse result
+ *
+ * @throws {RangeError} `options.locale` must contain `match` property
+ * @throws {RangeError} use `yyyy` instead of `YYYY` for formatting years using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `yy` instead of `YY` for formatting years using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `d` instead of `D` for formatting days of the month using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} use `dd` instead of `DD` for formatting days of the month using [format provided] to the input [input provided]; see: https://github.com/date-fns/date-fns/blob/master/docs/unicodeTokens.md
+ * @throws {RangeError} format string contains an unescaped latin alphabet character
+ *
+ * @example
+ * // Parse the valid string:
+ * const result = safeParse('02/11/2014 10:30 +01:00', 'MM/dd/yyyy HH:mm XXX', new Date())
+ * //=> { ok: true, date: Tue Feb 11 2014 09:30:00 GMT+0000, offset: 60 }
+ *
+ * @example
+ * // Find out why the string is invalid:
+ * const result = safeParse('02/30/2014', 'MM/dd/yyyy', new Date())
+ * //=> { ok: false, error: { code: 'valueOutOfRange', index: 3, expected: 'dd' } }
+ */
+export default function safeParse(
+	dateString: string,
+	formatString: string,
+	referenceDate: Date | number,
+	options?: SafeParseOptions,
+): SafeParseResult {
+	const defaultOptions = getDefaultOptions();
+	const optionsLocale = getOptionsLocale(options?.locale);
+	const locale = optionsLocale ?? defaultOptions.locale ?? defaultLocale;
+
+	const firstWeekContainsDate =
+		options?.firstWeekContainsDate ??
+		optionsLocale?.options?.firstWeekContainsDate ??
+		defaultOptions.firstWeekContainsDate ??
+		defaultOptions.locale?.options?.firstWeekContainsDate ??
+		1;
+
+	const weekStartsOn =
+		options?.weekStartsOn ??
+		optionsLocale?.options?.weekStartsOn ??
+		defaultOptions.weekStartsOn ??
+		defaultOptions.locale?.options?.weekStartsOn ??
+		0;
+
+	if (!locale.match) {
+		throw new RangeError('locale must contain match property');
+	}
+
+	const originalReferenceDate = toDate(referenceDate);
+
+	if (formatString === '') {
+		if (dateString !== '') {
+			return buildError('trailingCharacters', 0, 'the end of the string');
+		}
+		if (isNaN(originalReferenceDate.getTime())) {
+			return buildError('invalidValue', 0, 'a valid reference date');
+		}
+		return {
+			ok: true,
+			date: constructFrom(
+				originalReferenceDate,
+				originalReferenceDate.getTime(),
+			),
+		};
+	}
+
+	const parserOptions: ParserOptions = {
+		firstWeekContainsDate,
+		weekStartsOn,
+		locale,
+	};
+
+	const tokens = formatString
+		.match(longFormattingTokensRegExp)!
+		.map(function (substring) {
+			const firstCharacter = substring[0];
+			if (firstCharacter === 'p' || firstCharacter === 'P') {
+				const longFormatter = longFormatters[firstCharacter];
+				return longFormatter(substring, locale.formatLong);
+			}
+			return substring;
+		})
+		.join('')
+		.match(formattingTokensRegExp)!;
+
+	const setters: ParsedSetter[] = [];
+	const usedTokens: Array<{ token: string; fullToken: string }> = [];
+	let rest = dateString;
+
+	for (const token of tokens) {
+		const firstCharacter = token[0];
+		const parser = parsers[firstCharacter];
+
+		if (parser) {
+			if (
+				!options?.useAdditionalWeekYearTokens &&
+				isProtectedWeekYearToken(token)
+			) {
+				throwProtectedError(token, formatString, dateString);
+			}
+			if (
+				!options?.useAdditionalDayOfYearTokens &&
+				isProtectedDayOfYearToken(token)
+			) {
+				throwProtectedError(token, formatString, dateString);
+			}
+
+			const { incompatibleTokens } = parser;
+			const incompatibleToken = usedTokens.find(
+				(usedToken) =>
+					incompatibleTokens === '*' ||
+					incompatibleTokens.indexOf(usedToken.token) !== -1 ||
+					usedToken.token === firstCharacter,
+			);
+			if (incompatibleToken) {
+				throw new RangeError(
+					`The format string mustn't contain \`${incompatibleToken.fullToken}\` and \`${token}\` at the same time`,
+				);
+			}
+			usedTokens.push({ token: firstCharacter, fullToken: token });
+
+			const index = dateString.length - rest.length;
+			const parseResult = parser.parse(
+				rest,
+				token,
+				locale.match,
+				parserOptions,
+			);
+			if (!parseResult) {
+				return buildError('invalidValue', index, token);
+			}
+			setters.push({ parser, value: parseResult.value, token, index });
+			rest = parseResult.rest;
+		} else {
+			if (firstCharacter.match(unescapedLatinCharacterRegExp)) {
+				throw new RangeError(
+					'Format string contains an unescaped latin alphabet character `' +
+						firstCharacter +
+						'`',
+				);
+			}
+
+			// Replace two single quote characters with one single quote character
+			const literal =
+				token === "''"
+					? "'"
+					: firstCharacter === "'"
+					? cleanEscapedString(token)
+					: token;
+
+			// Cut the literal from the string
+			if (rest.indexOf(literal) === 0) {
+				rest = rest.slice(literal.length);
+			} else {
+				return buildError(
+					'literalMismatch',
+					dateString.length - rest.length,
+					literal,
+				);
+			}
+		}
+	}
+
+	// Check if the remaining input contains something other than whitespace
+	if (rest.length > 0 && notWhitespaceRegExp.test(rest)) {
+		return buildError(
+			'trailingCharacters',
+			dateString.length - rest.length + rest.search(notWhitespaceRegExp),
+			'the end of the string',
+		);
+	}
+
+	// Apply the setters from the highest priority to the lowest, taking
+	// only the setter with the highest sub-priority of every priority
+	const uniquePrioritySetters = setters
+		.map((setter) => setter.parser.priority)
+		.sort((a, b) => b - a)
+		.filter((priority, index, array) => array.indexOf(priority) === index)
+		.map((priority) =>
+			setters
+				.filter((setter) => setter.parser.priority === priority)
+				.sort(
+					(a, b) => (b.parser.subPriority ?? 0) - (a.parser.subPriority ?? 0),
+				),
+		)
+		.map((setterArray) => setterArray[0]);
+
+	let date = constructFrom(
+		originalReferenceDate,
+		originalReferenceDate.getTime(),
+	);
+	if (isNaN(date.getTime())) {
+		return buildError('invalidValue', 0, 'a valid reference date');
+	}
+
+	const flags: ParseFlags = {};
+	let offset: number | undefined;
+	for (const { parser, value, token, index } of uniquePrioritySetters) {
+		if (parser.validate && !parser.validate(date, value, parserOptions)) {
+			return buildError('valueOutOfRange', index, token);
+		}
+		if (token[0] === 'X' || token[0] === 'x') {
+			// The time zone value is in milliseconds
+			offset = (value as number) / millisecondsInMinute || 0;
+		}
+
+		const result = parser.set(date, flags, value, parserOptions);
+		// The result is a tuple of the date and the flags to set
+		if (Array.isArray(result)) {
+			date = result[0];
+			Object.assign(flags, result[1]);
+		} else {
+			date = result;
+		}
+	}
+
+	return { ok: true, date, offset };
+}
@@ -0,0 +1,412 @@
+import { millisecondsInHour, millisecondsInMinute } from '../constants/index';
+import type { ParseISOOptions } from '../parseISO/index';
+import type { ParseError, ParseErrorCode, SafeParseResult } from '../types';
+
+/**
+ * The {@link safeParseISO} function options.
+ */
+export interface SafeParseISOOptions extends ParseISOOptions {}
+
+function buildError(
+	code: ParseErrorCode,
+	index: number,
+	expected: string,
+): { ok: false; error: ParseError } {
+	return { ok: false, error: { code, index, expected } };
+}
+
+interface DateString {
+	date?: string;
+	time?: string;
+	timeIndex: number;
+	timezone?: string;
+	error?: ParseError;
+}
+
+interface ParsedYear {
+	year: number;
+	restDateString: string;
+}
+
+const patterns = {
+	dateTimeDelimiter: /[T ]/,
+	timeZoneDelimiter: /[Z ]/i,
+	timezone: /([Z+-].*)$/,
+};
+
+const dateRegex = /^-?(?:(\d{3})|(\d{2})(?:-?(\d{2}))?|W(\d{2})(?:-?(\d{1}))?|)$/;
+const timeRegex = /^(\d{2}(?:[.,]\d*)?)(?::?(\d{2}(?:[.,]\d*)?))?(?::?(\d{2}(?:[.,]\d*)?))?$/;
+const timezoneRegex = /^([+-])(\d{2})(?::?(\d{2}))?$/;
+
+// Validation functions
+
+// February is null to handle the leap year (using ||)
+const daysInMonths = [31, null, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function isLeapYearIndex(year: number): boolean {
+	return year % 400 === 0 || (year % 4 === 0 && year % 100 !== 0);
+}
+
+function getDaysInMonth(year: number, month: number): number {
+	return daysInMonths[month] || (isLeapYearIndex(year) ? 29 : 28);
+}
+
+function validateDate(year: number, month: number, date: number): boolean {
+	return (
+		month >= 0 &&
+		month <= 11 &&
+		date >= 1 &&
+		date <= getDaysInMonth(year, month)
+	);
+}
+
+function validateDayOfYearDate(year: number, dayOfYear: number): boolean {
+	return dayOfYear >= 1 && dayOfYear <= (isLeapYearIndex(year) ? 366 : 365);
+}
+
+function validateWeek(week: number): boolean {
+	return week >= 1 && week <= 53;
+}
+
+function validateDayOfWeek(day: number): boolean {
+	return day >= 0 && day <= 6;
+}
+
+function validateTime(
+	hours: number,
+	minutes: number,
+	seconds: number,
+): boolean {
+	if (hours === 24) {
+		return minutes === 0 && seconds === 0;
+	}
+
+	return (
+		seconds >= 0 &&
+		seconds < 60 &&
+		minutes >= 0 &&
+		minutes < 60 &&
+		hours >= 0 &&
+		hours < 25
+	);
+}
+
+function validateTimezone(_hours: number, minutes: number): boolean {
+	return minutes >= 0 && minutes <= 59;
+}
+
+function splitDateString(dateString: string): DateString {
+	const dateStrings: DateString = { timeIndex: 0 };
+	const array = dateString.split(patterns.dateTimeDelimiter);
+	let timeString;
+
+	// The regex match should only return at maximum two array elements.
+	// [date], [time], or [date, time].
+	if (array.length > 2) {
+		dateStrings.error = {
+			code: 'invalidFormat',
+			index: array[0].length + array[1].length + 1,
+			expected: 'the end of the time',
+		};
+		return dateStrings;
+	}
+
+	if (/:/.test(array[0])) {
+		timeString = array[0];
+	} else {
+		dateStrings.date = array[0];
+		timeString = array[1];
+		dateStrings.timeIndex = array[0].length + 1;
+		if (patterns.timeZoneDelimiter.test(dateStrings.date)) {
+			dateStrings.date = dateString.split(patterns.timeZoneDelimiter)[0];
+			timeString = dateString.substr(
+				dateStrings.date.length,
+				dateString.length,
+			);
+			dateStrings.timeIndex = dateStrings.date.length;
+		}
+	}
+
+	if (timeString) {
+		const token = patterns.timezone.exec(timeString);
+		if (token) {
+			dateStrings.time = timeString.replace(token[1], '');
+			dateStrings.timezone = token[1];
+		} else {
+			dateStrings.time = timeString;
+		}
+	}
+
+	return dateStrings;
+}
+
+function parseYear(dateString: string, additionalDigits: number): ParsedYear {
+	const regex = new RegExp(
+		'^(?:(\\d{4}|[+-]\\d{' +
+			(4 + additionalDigits) +
+			'})|(\\d{2}|[+-]\\d{' +
+			(2 + additionalDigits) +
+			'})$)',
+	);
+
+	const captures = dateString.match(regex);
+	// Invalid ISO-formatted year
+	if (!captures) return { year: NaN, restDateString: '' };
+
+	const year = captures[1] ? parseInt(captures[1], 10) : null;
+	const century = captures[2] ? parseInt(captures[2], 10) : null;
+
+	// either year or century is null, not both
+	return {
+		year: century === null ? (year as number) : century * 100,
+		restDateString: dateString.slice((captures[1] || captures[2]).length),
+	};
+}
+
+function parseDateUnit(value: string): number {
+	return value ? parseInt(value, 10) : 1;
+}
+
+function dayOfISOWeekYear(
+	isoWeekYear: number,
+	week: number,
+	day: number,
+): Date {
+	const date = new Date(0);
+	date.setUTCFullYear(isoWeekYear, 0, 4);
+	const fourthOfJanuaryDay = date.getUTCDay() || 7;
+	const diff = (week - 1) * 7 + day + 1 - fourthOfJanuaryDay;
+	date.setUTCDate(date.getUTCDate() + diff);
+	return date;
+}
+
+// Returns the date or the error, `index` is the index of `dateString`
+// in the whole string
+function parseDate(
+	dateString: string,
+	year: number,
+	index: number,
+): Date | ParseError {
+	const captures = dateString.match(dateRegex);
+	// Invalid ISO-formatted string
+	if (!captures) {
+		return {
+			code: 'invalidFormat',
+			index,
+			expected: '-MM, -MM-DD, -DDD or -Www-D',
+		};
+	}
+
+	const isWeekDate = !!captures[4];
+	const dayOfYear = parseDateUnit(captures[1]);
+	const month = parseDateUnit(captures[2]) - 1;
+	const day = parseDateUnit(captures[3]);
+	const week = parseDateUnit(captures[4]);
+	const dayOfWeek = parseDateUnit(captures[5]) - 1;
+
+	// The index of the first value after the optional `-` or `W`
+	const valueIndex =
+		index + (dateString[0] === '-' ? 1 : 0) + (isWeekDate ? 1 : 0);
+	// The index of the second value after the optional `-`
+	const secondValueIndex =
+		valueIndex + 2 + (dateString[valueIndex - index + 2] === '-' ? 1 : 0);
+
+	if (isWeekDate) {
+		if (!validateWeek(week)) {
+			return { code: 'weekOutOfRange', index: valueIndex, expected: '01-53' };
+		}
+		if (!validateDayOfWeek(dayOfWeek)) {
+			return {
+				code: 'dayOutOfRange',
+				index: secondValueIndex,
+				expected: '1-7',
+			};
+		}
+		return dayOfISOWeekYear(year, week, dayOfWeek);
+	}
+
+	if (month < 0 || month > 11) {
+		return { code: 'monthOutOfRange', index: valueIndex, expected: '01-12' };
+	}
+	if (!validateDate(year, month, day)) {
+		return {
+			code: 'dayOutOfRange',
+			index: secondValueIndex,
+			expected: `01-${getDaysInMonth(year, month)}`,
+		};
+	}
+	if (!validateDayOfYearDate(year, dayOfYear)) {
+		return {
+			code: 'dayOutOfRange',
+			index: valueIndex,
+			expected: `001-${isLeapYearIndex(year) ? 366 : 365}`,
+		};
+	}
+
+	const date = new Date(0);
+	date.setUTCFullYear(year, month, Math.max(dayOfYear, day));
+	return date;
+}
+
+function parseTimeUnit(value: string): number {
+	return (value && parseFloat(value.replace(',', '.'))) || 0;
+}
+
+function parseTime(timeString: string): number {
+	const captures = timeString.match(timeRegex);
+	if (!captures) return NaN; // Invalid ISO-formatted time
+
+	const hours = parseTimeUnit(captures[1]);
+	const minutes = parseTimeUnit(captures[2]);
+	const seconds = parseTimeUnit(captures[3]);
+
+	if (!validateTime(hours, minutes, seconds)) {
+		return NaN;
+	}
+
+	return (
+		hours * millisecondsInHour + minutes * millisecondsInMinute + seconds * 1000
+	);
+}
+
+function parseTimezone(timezoneString: string): number {
+	if (timezoneString === 'Z') return 0;
+
+	const captures = timezoneString.match(timezoneRegex);
+	if (!captures) return NaN;
+
+	const sign = captures[1] === '+' ? -1 : 1;
+	const hours = parseInt(captures[2], 10);
+	const minutes = (captures[3] && parseInt(captures[3], 10)) || 0;
+
+	if (!validateTimezone(hours, minutes)) {
+		return NaN;
+	}
+
+	return sign * (hours * millisecondsInHour + minutes * millisecondsInMinute);
+}
+
+/**
+ * @name safeParseISO
+ * @category Common Helpers
+ * @summary Parse ISO string and describe the errors
+ *
+ * @description
+ * Parse the given string in ISO 8601 format like `parseISO`, but instead
+ * of Invalid Date return an object describing the result:
+ *
+ * - `{ ok: true, date, offset }` with the parsed date and the offset from UTC
+ *   in minutes, which is `undefined` if the string has no offset;
+ * - `{ ok: false, error: { code, index, expected } }` with the reason
+ *   of the failure, the index of the string where it's found
+ *   and the description of what was expected there.
+ *
+ * The error codes are `invalidFormat`, `invalidYear`, `monthOutOfRange`,
+ * `weekOutOfRange`, `dayOutOfRange`, `invalidTime` and `invalidOffset`.
+ *
+ * @param argument - the value to convert
+ * @param options - an object with options.
+ * @returns the parse result
+ *
+ * @example
+ * // Parse the valid string:
+ * const result = safeParseISO('2014-02-11T11:30:30+01:00')
+ * //=> { ok: true, date: Tue Feb 11 2014 10:30:30 GMT+0000, offset: 60 }
+ *
+ * @example
+ * // Find out why the string is invalid:
+ * const result = safeParseISO('2014-13-11')
+ * //=> { ok: false, error: { code: 'monthOutOfRange', index: 5, expected: '01-12' } }
+ */
+export default function safeParseISO(
+	argument: string,
+	options?: SafeParseISOOptions,
+): SafeParseResult {
+	const additionalDigits = options?.additionalDigits ?? 2;
+	const dateStrings = splitDateString(argument);
+
+	if (dateStrings.error) {
+		return { ok: false, error: dateStrings.error };
+	}
+
+	if (!dateStrings.date) {
+		return buildError('invalidFormat', 0, 'date');
+	}
+
+	const parseYearResult = parseYear(dateStrings.date, additionalDigits);
+	if (isNaN(parseYearResult.year)) {
+		return buildError(
+			'invalidYear',
+			0,
+			`YYYY or ±${'Y'.repeat(4 + additionalDigits)}`,
+		);
+	}
+
+	const parseDateResult = parseDate(
+		parseYearResult.restDateString,
+		parseYearResult.year,
+		dateStrings.date.length - parseYearResult.restDateString.length,
+	);
+	if (!(parseDateResult instanceof Date)) {
+		return { ok: false, error: parseDateResult };
+	}
+	// The year is out of the range of Date
+	if (isNaN(parseDateResult.getTime())) {
+		return buildError('invalidYear', 0, 'a year between -271820 and 275759');
+	}
+
+	const timestamp = parseDateResult.getTime();
+	let time = 0;
+	let offset;
+
+	if (dateStrings.time) {
+		time = parseTime(dateStrings.time);
+		if (isNaN(time)) {
+			return buildError(
+				'invalidTime',
+				dateStrings.timeIndex,
+				'hh:mm:ss between 00:00:00 and 24:00:00',
+			);
+		}
+	}
+
+	if (dateStrings.timezone) {
+		offset = parseTimezone(dateStrings.timezone);
+		if (isNaN(offset)) {
+			return buildError(
+				'invalidOffset',
+				argument.length - dateStrings.timezone.length,
+				'Z or ±hh:mm',
+			);
+		}
+	} else if (!dateStrings.time && options?.dateOnly === 'utc') {
+		return { ok: true, date: new Date(timestamp) };
+	} else {
+		const dirtyDate = new Date(timestamp + time);
+		// js parsed string assuming it's in UTC timezone
+		// but we need it to be parsed in our timezone
+		// so we use utc values to build date in our timezone.
+		// Year values from 0 to 99 map to the years 1900 to 1999
+		// so set year explicitly with setFullYear.
+		const result = new Date(0);
+		result.setFullYear(
+			dirtyDate.getUTCFullYear(),
+			dirtyDate.getUTCMonth(),
+			dirtyDate.getUTCDate(),
+		);
+		result.setHours(
+			dirtyDate.getUTCHours(),
+			dirtyDate.getUTCMinutes(),
+			dirtyDate.getUTCSeconds(),
+			dirtyDate.getUTCMilliseconds(),
+		);
+		return { ok: true, date: result };
+	}
+
+	return {
+		ok: true,
+		date: new Date(timestamp + time + offset),
+		// Avoid -0 for the UTC offset
+		offset: -offset / millisecondsInMinute || 0,
+	};
+}
@@ -3,6 +3,14 @@ import {
 	setDefaultOptions as setInternalDefaultOptions,
 	DefaultOptions,
 } from '../_lib/defaultOptions/index';
+import { getOptionsLocale } from '../_lib/localeRegistry/index';
+import type { LocaleTagOptions } from '../types';
+
+/**
+ * The {@link setDefaultOptions} function options.
+ */
+export type SetDefaultOptionsOptions = Omit<DefaultOptions, 'locale'> &
+	LocaleTagOptions;
 
 /**
  * @name setDefaultOptions
@@ -16,9 +24,11 @@ import {
  * arguments for all functions.
  *
  * @param newOptions - an object with options.
- * @param newOptions.locale - the locale object. See [Locale]{@link https://date-fns.org/docs/Locale}
+ * @param newOptions.locale - the locale object or the tag of a locale loaded with `resolveLocale`. See [Locale]{@link https://date-fns.org/docs/Locale}
  * @param newOptions.weekStartsOn - the index of the first day of the week (0 - Sunday)
  * @param newOptions.firstWeekContainsDate - the day of January, which is always in the first week of the year
+ * @param newOptions.numberingSystem - the Unicode numbering system of the formatted numbers
+ * @throws {RangeError} `newOptions.locale` tag must be registered and loaded with `resolveLocale`
  *
  * @example
  * // Set global locale:
@@ -51,8 +61,16 @@ import {
  * setDefaultOptions({ weekStartsOn: undefined })
  * const result = startOfWeek(new Date(2014, 8, 2))
  * //=> Sun Aug 31 2014 00:00:00
+ *
+ * @example
+ * // Use the detected runtime's locale and week settings:
+ * const detectedOptions = detectDefaultOptions()
+ * await resolveLocale(detectedOptions.locale)
+ * setDefaultOptions(detectedOptions)
  */
-export default function setDefaultOptions(newOptions: DefaultOptions): void {
+export default function setDefaultOptions(
+	newOptions: SetDefaultOptionsOptions,
+): void {
 	const result: DefaultOptions = {};
 	const defaultOptions = getDefaultOptions();
 
@@ -74,5 +92,9 @@ export default function setDefaultOptions(newOptions: DefaultOptions): void {
 		}
 	}
 
+	if (newOptions.locale !== undefined) {
+		result.locale = getOptionsLocale(newOptions.locale);
+	}
+
 	setInternalDefaultOptions(result);
 }
@@ -1,4 +1,4 @@
-import type { Locale } from './locale/types';
+import type { Locale, Localize } from './locale/types';
 
 export interface GenericDateConstructor<Date> {
 	new (): Date;
@@ -49,6 +49,14 @@ export interface LocaleOptions {
 	locale?: Locale;
 }
 
+export interface LocaleTagOptions {
+	locale?: Locale | string;
+}
+
+export interface NumberingSystemOptions {
+	numberingSystem?: string;
+}
+
 export interface FormatOptions {
 	format?: 'extended' | 'basic';
 }
@@ -57,6 +65,13 @@ export interface RepresentationOptions {
 	representation?: 'complete' | 'date' | 'time';
 }
 
+export interface ExpandedYearOptions {
+	/** Emit the signed expanded year like `+002024` or `-000044` */
+	expandedYear?: boolean;
+	/** The number of the expanded year digits after the first four, the same as in `parseISO` */
+	additionalDigits?: 0 | 1 | 2;
+}
+
 export type Era = 0 | 1;
 
 export type Quarter = 1 | 2 | 3 | 4;
@@ -115,6 +130,29 @@ export interface AdditionalTokensOptions {
 	useAdditionalDayOfYearTokens?: boolean;
 }
 
+export interface AdditionalFormatTokensOptions {
+	useAdditionalMillisecondsInDayTokens?: boolean;
+	useAdditionalWeekOfMonthTokens?: boolean;
+}
+
+/**
+ * The formatter of the custom format token, with the same signature
+ * as the built-in formatters. `token` is the whole sequence of the letter,
+ * e.g. `ww` for the letter `w`.
+ */
+export type CustomTokenFormatter = (
+	date: Date,
+	token: string,
+	localize: Localize,
+	options: Required<
+		LocaleOptions & WeekStartOptions & FirstWeekContainsDateOptions
+	>,
+) => string;
+
+export interface CustomTokensOptions {
+	formatters?: { [letter: string]: CustomTokenFormatter };
+}
+
 export type IntlOptionsUnit =
 	| 'year'
 	| 'quarter'
@@ -124,3 +162,82 @@ export type IntlOptionsUnit =
 	| 'hour'
 	| 'minute'
 	| 'second';
+
+/**
+ * The reason why a string couldn't be parsed:
+ *
+ * - `invalidFormat`: the string doesn't have the expected structure;
+ * - `invalidYear`: the year is missing or has a wrong number of digits;
+ * - `monthOutOfRange`, `weekOutOfRange`, `dayOutOfRange`: the value doesn't exist;
+ * - `invalidTime`: the time is malformed or out of range;
+ * - `invalidOffset`: the time zone offset is malformed or out of range;
+ * - `invalidValue`: the value of a format token couldn't be matched;
+ * - `valueOutOfRange`: the value of a format token doesn't exist;
+ * - `literalMismatch`: the text between the format tokens doesn't match;
+ * - `trailingCharacters`: the string continues after the end of the format.
+ */
+export type ParseErrorCode =
+	| 'invalidFormat'
+	| 'invalidYear'
+	| 'monthOutOfRange'
+	| 'weekOutOfRange'
+	| 'dayOutOfRange'
+	| 'invalidTime'
+	| 'invalidOffset'
+	| 'invalidValue'
+	| 'valueOutOfRange'
+	| 'literalMismatch'
+	| 'trailingCharacters';
+
+export interface ParseError {
+	code: ParseErrorCode;
+	/** The index of the string where the error is found */
+	index: number;
+	/** The description of what was expected at the index */
+	expected: string;
+}
+
+/**
+ * The result of the safe parse functions: the date and the parsed
+ * offset from UTC in minutes (`undefined` if the string has no offset),
+ * or the error.
+ */
+export type SafeParseResult =
+	| { ok: true; date: Date; offset?: number }
+	| { ok: false; error: ParseError };
+
+/**
+ * The type of the part of the formatted date. The types of `Intl.DateTimeFormat`
+ * are extended with the fields that `format` supports in addition:
+ * `quarter`, `week`, `dayOfYear`, `dayOfWeekInMonth`, `modifiedJulianDay`,
+ * `millisecondsInDay`, `timestamp` and `custom` for the tokens of `options.formatters`.
+ */
+export type FormatPartType =
+	| 'era'
+	| 'year'
+	| 'quarter'
+	| 'month'
+	| 'week'
+	| 'day'
+	| 'dayOfYear'
+	| 'dayOfWeekInMonth'
+	| 'modifiedJulianDay'
+	| 'weekday'
+	| 'dayPeriod'
+	| 'hour'
+	| 'minute'
+	| 'second'
+	| 'fractionalSecond'
+	| 'millisecondsInDay'
+	| 'timeZoneName'
+	| 'timestamp'
+	| 'custom'
+	| 'literal';
+
+export interface FormatPart {
+	type: FormatPartType;
+	/** The format token, or the source of the literal text */
+	token: string;
+	/** The formatted value */
+	value: string;
+}
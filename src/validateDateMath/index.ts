@@ -0,0 +1,35 @@
+import type { ParseError } from '../types';
+import { isDateMathError, parseDateMath } from '../_lib/dateMath/index';
+
+/**
+ * @name validateDateMath
+ * @category Common Helpers
+ * @summary Validate the date math expression
+ *
+ * @description
+ * Check the syntax of the date math expression accepted by `evaluateDateMath`
+ * and return the error, or `null` if the expression is valid.
+ *
+ * The error has the position of the problem and the description
+ * of what was expected there. Its code is `invalidFormat` for the syntax
+ * errors, the invalid dates before `||` have the codes of `safeParseISO`.
+ *
+ * @param expression - the date math expression
+ * @returns the error or `null`
+ *
+ * @example
+ * // Validate the valid expression:
+ * const result = validateDateMath('now-7d/d')
+ * //=> null
+ *
+ * @example
+ * // Find the unknown unit:
+ * const result = validateDateMath('now-7x')
+ * //=> { code: 'invalidFormat', index: 5, expected: 'y, M, w, d, h, H, m or s' }
+ */
+export default function validateDateMath(
+	expression: string,
+): ParseError | null {
+	const parsed = parseDateMath(expression);
+	return isDateMathError(parsed) ? parsed : null;
+}
@@ -0,0 +1,80 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import createIntlLocale from '../createIntlLocale/index';
+import enUS from '../locale/en-US/index';
+import type {
+	FormatDistanceFnOptions,
+	FormatDistanceToken,
+	Locale,
+} from '../locale/types';
+import type { Month } from '../types';
+import assertLocaleConformance from './index';
+
+describe('assertLocaleConformance', () => {
+	it('passes for the bundled locale', () => {
+		assertLocaleConformance(enUS);
+	});
+
+	it('passes for a locale created from Intl', () => {
+		assertLocaleConformance(createIntlLocale('de'));
+	});
+
+	it('reports every gap at once', () => {
+		const locale: Locale = {
+			...enUS,
+			code: 'xx',
+			localize: {
+				...enUS.localize,
+				month: (month: Month) =>
+					month === 5 ? '' : enUS.localize.month(month),
+			},
+			formatDistance: (
+				token: FormatDistanceToken,
+				count: number,
+				options?: FormatDistanceFnOptions,
+			) =>
+				token === 'xDays'
+					? '{{count}} days'
+					: enUS.formatDistance(token, count, options),
+		};
+
+		assert.throws(
+			() => assertLocaleConformance(locale),
+			(error: Error) =>
+				error instanceof RangeError &&
+				error.message.indexOf('Locale `xx` does not conform') === 0 &&
+				error.message.indexOf("localize.month(5, { width: 'wide'") !== -1 &&
+				error.message.indexOf("formatDistance('xDays', 1)") !== -1,
+		);
+	});
+
+	it('reports values that do not survive the match round trip', () => {
+		const locale: Locale = {
+			...enUS,
+			match: {
+				...enUS.match,
+				era: () => ({ value: 0, rest: '' }),
+			},
+		};
+
+		assert.throws(
+			() => assertLocaleConformance(locale),
+			(error: Error) =>
+				error.message.indexOf("match.era('Anno Domini', { width: 'wide' })") !==
+				-1,
+		);
+	});
+
+	it('reports missing members', () => {
+		// The locale is incomplete on purpose
+		const locale = { code: 'xx', localize: enUS.localize } as Locale;
+
+		assert.throws(
+			() => assertLocaleConformance(locale),
+			(error: Error) =>
+				error.message.indexOf('`formatLong` is missing') !== -1 &&
+				error.message.indexOf('`match` is missing') !== -1,
+		);
+	});
+});
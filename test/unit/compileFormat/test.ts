@@ -0,0 +1,67 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import format from '../format/index';
+import { resetDefaultOptions } from '../_lib/test/index';
+import setDefaultOptions from '../setDefaultOptions/index';
+import compileFormat from './index';
+
+describe('compileFormat', () => {
+	const date = new Date(1986, 3 /* Apr */, 4, 10, 32, 55, 123);
+
+	afterEach(() => {
+		resetDefaultOptions();
+	});
+
+	it('returns the function that formats the dates like format', () => {
+		const formatStr = "EEEE, do 'of' MMMM yyyy HH:mm:ss.SSS a PPpp ''";
+		const formatDate = compileFormat(formatStr);
+		assert.strictEqual(formatDate(date), format(date, formatStr));
+		assert.strictEqual(
+			formatDate(new Date(2014, 6, 2)),
+			format(new Date(2014, 6, 2), formatStr),
+		);
+	});
+
+	it('accepts a timestamp', () => {
+		const formatDate = compileFormat('yyyy-MM-dd');
+		assert.strictEqual(formatDate(date.getTime()), '1986-04-04');
+	});
+
+	it('applies the options', () => {
+		const formatDate = compileFormat('yyyy-MM-dd YYYY', {
+			numberingSystem: 'arab',
+			useAdditionalWeekYearTokens: true,
+		});
+		assert.strictEqual(formatDate(date), '١٩٨٦-٠٤-٠٤ ١٩٨٦');
+	});
+
+	it('resolves the default options at compile time', () => {
+		setDefaultOptions({ weekStartsOn: 1 });
+		const formatDate = compileFormat('e');
+		resetDefaultOptions();
+		assert.strictEqual(formatDate(new Date(2014, 6, 6)), '7');
+		assert.strictEqual(format(new Date(2014, 6, 6), 'e'), '1');
+	});
+
+	it('throws the protected token errors at compile time', () => {
+		assert.throws(
+			() => compileFormat('YYYY-MM-dd'),
+			(error: Error) =>
+				error instanceof RangeError &&
+				error.message.startsWith(
+					'Use `yyyy` instead of `YYYY` (in `YYYY-MM-dd`) for formatting years; see:',
+				),
+		);
+		assert.throws(() => compileFormat('yyyy-MM-DD'), RangeError);
+	});
+
+	it('throws RangeError if the format string contains an unescaped latin alphabet character', () => {
+		assert.throws(() => compileFormat('yyyy-MM-dd-nnnn'), RangeError);
+	});
+
+	it('throws RangeError if the compiled function gets an invalid date', () => {
+		const formatDate = compileFormat('yyyy-MM-dd');
+		assert.throws(() => formatDate(new Date(NaN)), RangeError);
+	});
+});
@@ -0,0 +1,124 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import sinon from 'sinon';
+import format from '../format/index';
+import formatDistance from '../formatDistance/index';
+import createIntlLocale from './index';
+
+describe('createIntlLocale', () => {
+	const date = new Date(2014, 6 /* Jul */, 2, 15, 4, 5);
+
+	it('resolves the locale code', () => {
+		assert(createIntlLocale('sv-FI').code === 'sv-FI');
+	});
+
+	it('localizes month, day and era names', () => {
+		const locale = createIntlLocale('sv-FI');
+		const result = format(date, 'EEEE d MMMM yyyy GGGG', { locale });
+		assert(result === 'onsdag 2 juli 2014 efter Kristus');
+	});
+
+	it('uses formatting and stand-alone month names', () => {
+		const locale = createIntlLocale('ru');
+		assert(format(date, 'd MMMM', { locale }) === '2 июля');
+		assert(format(date, 'LLLL', { locale }) === 'июль');
+	});
+
+	it('derives long formats', () => {
+		const locale = createIntlLocale('en-US');
+		assert(locale.formatLong.date({ width: 'long' }) === 'MMMM d, y');
+		assert(
+			locale.formatLong.dateTime({ width: 'full' }) ===
+				"{{date}} 'at' {{time}}",
+		);
+		assert(format(date, 'P', { locale }) === '7/2/14');
+	});
+
+	it('uses the Gregorian calendar', () => {
+		const th = createIntlLocale('th');
+		assert.strictEqual(
+			format(date, 'PPPP', { locale: th }),
+			'วันพุธที่ 2 กรกฎาคม ค.ศ. 2014',
+		);
+		const fa = createIntlLocale('fa');
+		assert.strictEqual(format(date, 'MMMM', { locale: fa }), 'ژوئیه');
+		const japanese = createIntlLocale('en-US-u-ca-japanese');
+		assert.strictEqual(japanese.code, 'en-US');
+		assert.strictEqual(
+			format(date, 'PPPP', { locale: japanese }),
+			'Wednesday, July 2, 2014',
+		);
+	});
+
+	it('formats ordinal numbers', () => {
+		const locale = createIntlLocale('en-US');
+		assert(format(date, 'do QQQQ', { locale }) === '2nd 3rd quarter');
+	});
+
+	it('allows to override ordinal suffixes', () => {
+		const locale = createIntlLocale('pl', { ordinalSuffixes: { other: '-y' } });
+		assert(locale.localize.ordinalNumber(5) === '5-y');
+	});
+
+	it('formats distances', () => {
+		const locale = createIntlLocale('de');
+		const baseDate = new Date(2014, 6 /* Jul */, 5, 15, 4, 5);
+		assert(formatDistance(date, baseDate, { locale }) === '3 Tage');
+		assert(
+			formatDistance(date, baseDate, { locale, addSuffix: true }) ===
+				'vor 3 Tagen',
+		);
+	});
+
+	it('formats the approximate distances as exact ones', () => {
+		const locale = createIntlLocale('en-US');
+		const baseDate = new Date(2014, 6 /* Jul */, 2, 16, 4, 5);
+		assert(formatDistance(date, baseDate, { locale }) === '1 hour');
+	});
+
+	it('takes the week settings from the locale', () => {
+		const locale = createIntlLocale('de-DE');
+		assert.deepStrictEqual(locale.options, {
+			weekStartsOn: 1,
+			firstWeekContainsDate: 4,
+		});
+	});
+
+	it('matches localized values', () => {
+		const locale = createIntlLocale('ru');
+		assert.deepStrictEqual(locale.match.month('июля 2014'), {
+			value: 6,
+			rest: ' 2014',
+		});
+	});
+
+	it('falls back if the runtime lacks the newer Intl APIs', () => {
+		const OriginalDateTimeFormat = Intl.DateTimeFormat;
+		const localeStub = sinon.stub(Intl, 'Locale').value(undefined);
+		const displayNamesStub = sinon.stub(Intl, 'DisplayNames').value(undefined);
+		// Older runtimes ignore the `dayPeriod` option
+		const dateTimeFormatStub = sinon.stub(Intl, 'DateTimeFormat').callsFake(
+			(locales?: string | string[], options?: Intl.DateTimeFormatOptions) =>
+				new OriginalDateTimeFormat(locales, {
+					...options,
+					dayPeriod: undefined,
+				}),
+		);
+		try {
+			const locale = createIntlLocale('en-US');
+			assert.strictEqual(
+				format(date, 'do QQQQ B', { locale }),
+				'2nd 3rd quarter PM',
+			);
+		} finally {
+			localeStub.restore();
+			displayNamesStub.restore();
+			dateTimeFormatStub.restore();
+		}
+	});
+
+	it('throws RangeError if the tag is invalid', () => {
+		assert.throws(() => createIntlLocale('not a tag'), RangeError);
+	});
+});
@@ -0,0 +1,79 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import extendLocale from '../extendLocale/index';
+import getDefaultOptions from '../getDefaultOptions/index';
+import enUS from '../locale/en-US/index';
+import registerLocale from '../registerLocale/index';
+import setDefaultOptions from '../setDefaultOptions/index';
+import { resetLocaleRegistry } from '../_lib/localeRegistry/index';
+import { resetDefaultOptions } from '../_lib/test/index';
+import detectDefaultOptions from './index';
+
+describe('detectDefaultOptions', () => {
+	const variables = ['LC_ALL', 'LC_TIME', 'LANG'];
+	let environment: { [name: string]: string | undefined };
+
+	beforeEach(() => {
+		environment = {};
+		variables.forEach((name) => {
+			environment[name] = process.env[name];
+			delete process.env[name];
+		});
+	});
+
+	afterEach(() => {
+		variables.forEach((name) => {
+			if (environment[name] === undefined) {
+				delete process.env[name];
+			} else {
+				process.env[name] = environment[name];
+			}
+		});
+		resetDefaultOptions();
+		resetLocaleRegistry();
+	});
+
+	it('detects the locale and the week settings from `LC_TIME`', () => {
+		process.env.LANG = 'en_US.UTF-8';
+		process.env.LC_TIME = 'de_AT.UTF-8';
+		assert.deepStrictEqual(detectDefaultOptions(), {
+			locale: 'de-AT',
+			weekStartsOn: 1,
+			firstWeekContainsDate: 4,
+		});
+	});
+
+	it('prefers `LC_ALL` to `LC_TIME` and `LANG`', () => {
+		process.env.LC_ALL = 'en_GB.UTF-8@euro';
+		process.env.LC_TIME = 'de_AT.UTF-8';
+		assert(detectDefaultOptions().locale === 'en-GB');
+	});
+
+	it('ignores the POSIX locale', () => {
+		process.env.LC_ALL = 'C';
+		process.env.LANG = 'en_US.UTF-8';
+		assert.deepStrictEqual(detectDefaultOptions(), {
+			locale: 'en-US',
+			weekStartsOn: 0,
+			firstWeekContainsDate: 1,
+		});
+	});
+
+	it('falls back to the `Intl` locale', () => {
+		const { locale } = new Intl.DateTimeFormat().resolvedOptions();
+		assert(detectDefaultOptions().locale === new Intl.Locale(locale).baseName);
+	});
+
+	it('returns the options suitable for `setDefaultOptions`', () => {
+		const deAT = extendLocale(enUS, { code: 'de-AT' });
+		registerLocale('de-AT', deAT);
+		process.env.LANG = 'de_AT.UTF-8';
+		setDefaultOptions(detectDefaultOptions());
+		assert.deepStrictEqual(getDefaultOptions(), {
+			locale: deAT,
+			weekStartsOn: 1,
+			firstWeekContainsDate: 4,
+		});
+	});
+});
@@ -0,0 +1,98 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import eachOccurrenceOfRepeatingInterval from './index';
+
+describe('eachOccurrenceOfRepeatingInterval', () => {
+	it('iterates over the occurrences of the start and the duration', () => {
+		const result = Array.from(
+			eachOccurrenceOfRepeatingInterval('R3/2024-01-31T00:00:00/P1M'),
+		);
+		assert.deepStrictEqual(result, [
+			{
+				start: new Date(2024, 0, 31),
+				end: new Date(2024, 1, 29),
+			},
+			{
+				start: new Date(2024, 1, 29),
+				end: new Date(2024, 2, 31),
+			},
+			{
+				start: new Date(2024, 2, 31),
+				end: new Date(2024, 3, 30),
+			},
+		]);
+	});
+
+	it('iterates over the occurrences of the start and the end', () => {
+		const result = Array.from(
+			eachOccurrenceOfRepeatingInterval(
+				'R2/2024-01-01T09:00:00Z/2024-01-01T17:00:00Z',
+			),
+		);
+		assert.deepStrictEqual(result, [
+			{
+				start: new Date(Date.UTC(2024, 0, 1, 9)),
+				end: new Date(Date.UTC(2024, 0, 1, 17)),
+			},
+			{
+				start: new Date(Date.UTC(2024, 0, 1, 17)),
+				end: new Date(Date.UTC(2024, 0, 2, 1)),
+			},
+		]);
+	});
+
+	it('iterates back in time over the occurrences of the duration and the end', () => {
+		const result = Array.from(
+			eachOccurrenceOfRepeatingInterval('R2/P1D/2024-01-10T00:00:00Z'),
+		);
+		assert.deepStrictEqual(result, [
+			{
+				start: new Date(Date.UTC(2024, 0, 9)),
+				end: new Date(Date.UTC(2024, 0, 10)),
+			},
+			{
+				start: new Date(Date.UTC(2024, 0, 8)),
+				end: new Date(Date.UTC(2024, 0, 9)),
+			},
+		]);
+	});
+
+	it('repeats forever without the number of repetitions', () => {
+		const iterator = eachOccurrenceOfRepeatingInterval(
+			'R/2024-01-01T00:00:00Z/P1W',
+		);
+		let occurrence;
+		for (let index = 0; index < 100; index++) {
+			occurrence = iterator.next();
+		}
+		assert.deepStrictEqual(occurrence, {
+			done: false,
+			value: {
+				start: new Date(Date.UTC(2025, 10, 24)),
+				end: new Date(Date.UTC(2025, 11, 1)),
+			},
+		});
+	});
+
+	it('returns no occurrences for R0', () => {
+		assert.deepStrictEqual(
+			Array.from(eachOccurrenceOfRepeatingInterval('R0/2024-01-01/P1D')),
+			[],
+		);
+	});
+
+	it('throws RangeError for the invalid strings when called', () => {
+		[
+			'2024-01-01/P1D',
+			'R5/2024-01-01',
+			'R5/P1D/P1D',
+			'Rx/2024-01-01/P1D',
+		].forEach((repeatingInterval) => {
+			assert.throws(
+				() => eachOccurrenceOfRepeatingInterval(repeatingInterval),
+				/RangeError: Invalid ISO 8601 interval/,
+			);
+		});
+	});
+});
@@ -0,0 +1,92 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import sinon from 'sinon';
+import evaluateDateMath from './index';
+
+describe('evaluateDateMath', () => {
+	const now = new Date(2024, 2 /* Mar */, 15, 10, 30, 45);
+
+	it('adds and subtracts the units', () => {
+		assert.deepStrictEqual(
+			evaluateDateMath('now-7d', { now }),
+			new Date(2024, 2, 8, 10, 30, 45),
+		);
+		assert.deepStrictEqual(
+			evaluateDateMath('now+1y-2M+1w+3h-30m+15s', { now }),
+			new Date(2025, 0, 22, 13, 1, 0),
+		);
+	});
+
+	it('rounds to the start of the units', () => {
+		assert.deepStrictEqual(
+			evaluateDateMath('now-7d/d', { now }),
+			new Date(2024, 2, 8),
+		);
+		assert.deepStrictEqual(
+			evaluateDateMath('now/M+1M-1s', { now }),
+			new Date(2024, 2, 31, 23, 59, 59),
+		);
+		assert.deepStrictEqual(
+			evaluateDateMath('now/y', { now }),
+			new Date(2024, 0, 1),
+		);
+		assert.deepStrictEqual(
+			evaluateDateMath('now/H', { now }),
+			new Date(2024, 2, 15, 10),
+		);
+	});
+
+	it('rounds the weeks with weekStartsOn', () => {
+		assert.deepStrictEqual(
+			evaluateDateMath('now/w', { now }),
+			new Date(2024, 2, 10),
+		);
+		assert.deepStrictEqual(
+			evaluateDateMath('now/w', { now, weekStartsOn: 1 }),
+			new Date(2024, 2, 11),
+		);
+	});
+
+	it('rounds to the end of the units with roundUp', () => {
+		assert.deepStrictEqual(
+			evaluateDateMath('now-1d/d', { now, roundUp: true }),
+			new Date(2024, 2, 14, 23, 59, 59, 999),
+		);
+		assert.deepStrictEqual(
+			evaluateDateMath('now/w', { now, weekStartsOn: 1, roundUp: true }),
+			new Date(2024, 2, 17, 23, 59, 59, 999),
+		);
+	});
+
+	it('evaluates the expressions anchored to a date', () => {
+		assert.deepStrictEqual(
+			evaluateDateMath('2024-01-01||+1M/d'),
+			new Date(2024, 1, 1),
+		);
+		assert.deepStrictEqual(
+			evaluateDateMath('2024-01-31T12:00:00||+1M'),
+			new Date(2024, 1, 29, 12),
+		);
+	});
+
+	it('uses the current date by default', () => {
+		const clock = sinon.useFakeTimers(now.getTime());
+		assert.deepStrictEqual(evaluateDateMath('now/d'), new Date(2024, 2, 15));
+		clock.restore();
+	});
+
+	it('does not change `now`', () => {
+		const date = new Date(now.getTime());
+		evaluateDateMath('now/M+1M', { now: date });
+		assert.deepStrictEqual(date, now);
+	});
+
+	it('throws RangeError with the position of the error', () => {
+		assert.throws(
+			() => evaluateDateMath('now-7x', { now }),
+			/expected y, M, w, d, h, H, m or s at 5/,
+		);
+		assert.throws(() => evaluateDateMath('yesterday', { now }), RangeError);
+	});
+});
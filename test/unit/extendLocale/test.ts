@@ -0,0 +1,134 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import createIntlLocale from '../createIntlLocale/index';
+import format from '../format/index';
+import formatDistance from '../formatDistance/index';
+import getDefaultOptions from '../getDefaultOptions/index';
+import enUS from '../locale/en-US/index';
+import parseRelative from '../parseRelative/index';
+import setDefaultOptions from '../setDefaultOptions/index';
+import startOfWeek from '../startOfWeek/index';
+import { resetDefaultOptions } from '../_lib/test/index';
+import extendLocale from './index';
+
+describe('extendLocale', () => {
+	afterEach(resetDefaultOptions);
+
+	it('keeps the base locale when nothing is overridden', () => {
+		const locale = extendLocale(enUS, {});
+		assert(locale !== enUS);
+		assert(locale.code === 'en-US');
+		assert(
+			format(new Date(2014, 6, 2), 'PPPP', { locale }) ===
+				'Wednesday, July 2nd, 2014',
+		);
+	});
+
+	it('merges localize and formatLong per key', () => {
+		const locale = extendLocale(enUS, {
+			localize: {
+				day: (day: number) => ['So', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa'][day],
+			},
+			formatLong: { date: { short: 'dd.MM.yyyy' } },
+		});
+		const date = new Date(2014, 6, 2);
+		assert(format(date, 'EEE, MMMM', { locale }) === 'Mi, July');
+		assert(format(date, 'P', { locale }) === '02.07.2014');
+		assert(format(date, 'PP', { locale }) === 'Jul 2, 2014');
+		assert(format(date, 'EEE', { locale: enUS }) === 'Wed');
+	});
+
+	it('overrides formatRelative tokens', () => {
+		const locale = extendLocale(enUS, {
+			formatRelative: { yesterday: "'the day before at' p" },
+		});
+		const date = new Date(2014, 6, 1, 9);
+		const baseDate = new Date(2014, 6, 2, 12);
+		assert(
+			locale.formatRelative('yesterday', date, baseDate) ===
+				"'the day before at' p",
+		);
+		assert(
+			locale.formatRelative('tomorrow', date, baseDate) === "'tomorrow at' p",
+		);
+	});
+
+	it('overrides formatDistance tokens and keeps the base suffix', () => {
+		const locale = extendLocale(enUS, {
+			formatDistance: {
+				xDays: { one: 'a single day', other: '{{count}} whole days' },
+			},
+		});
+		const date = new Date(2014, 6, 2);
+		assert(
+			formatDistance(date, new Date(2014, 6, 5), {
+				locale,
+				addSuffix: true,
+			}) === '3 whole days ago',
+		);
+		assert(
+			formatDistance(new Date(2014, 6, 3), date, {
+				locale,
+				addSuffix: true,
+			}) === 'in a single day',
+		);
+		assert(
+			formatDistance(date, new Date(2014, 6, 2, 5), { locale }) ===
+				'about 5 hours',
+		);
+	});
+
+	it('supports fallback chains', () => {
+		const locale = extendLocale([
+			{ code: 'pt-BR', formatRelative: { today: "'hoje às' p" } },
+			{
+				code: 'pt',
+				formatRelative: { today: "'hoje' p", yesterday: "'ontem' p" },
+				options: { weekStartsOn: 1 },
+			},
+			enUS,
+		]);
+		const date = new Date(2014, 6, 2, 9);
+		const baseDate = new Date(2014, 6, 2, 12);
+		assert(locale.code === 'pt-BR');
+		assert(locale.options?.weekStartsOn === 1);
+		assert(locale.options?.firstWeekContainsDate === 1);
+		assert(locale.formatRelative('today', date, baseDate) === "'hoje às' p");
+		assert(locale.formatRelative('yesterday', date, baseDate) === "'ontem' p");
+		assert(
+			locale.formatRelative('tomorrow', date, baseDate) === "'tomorrow at' p",
+		);
+	});
+
+	it('applies the overrides on top of the fallback chain', () => {
+		const locale = extendLocale([{ code: 'pt' }, enUS], { code: 'pt-PT' });
+		assert(locale.code === 'pt-PT');
+	});
+
+	it('applies the relative words to a base without the vocabulary', () => {
+		const base = createIntlLocale('de');
+		const locale = extendLocale(base, { relative: { days: { morgen: 1 } } });
+		const baseDate = new Date(2024, 2 /* Mar */, 6, 10, 15);
+		assert.deepStrictEqual(
+			parseRelative('morgen', baseDate, { locale })?.value,
+			new Date(2024, 2, 7),
+		);
+		assert.deepStrictEqual(
+			parseRelative('next friday', baseDate, { locale })?.value,
+			new Date(2024, 2, 8),
+		);
+		assert.strictEqual(base.relative, undefined);
+	});
+
+	it('is honoured as the default locale', () => {
+		const locale = extendLocale(enUS, { options: { weekStartsOn: 1 } });
+		setDefaultOptions({ locale });
+		assert(getDefaultOptions().locale === locale);
+		assert.deepStrictEqual(
+			startOfWeek(new Date(2014, 8, 2)),
+			new Date(2014, 8, 1),
+		);
+		assert(enUS.options?.weekStartsOn === 0);
+	});
+});
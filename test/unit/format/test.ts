@@ -2,6 +2,8 @@
 
 import assert from 'assert';
 import sinon from 'sinon';
+import enUS from '../locale/en-US/index';
+import * as compile from '../_lib/format/compile/index';
 import format from './index';
 
 describe('format', () => {
@@ -32,6 +34,17 @@ describe('format', () => {
 			: 'GMT' + sign + hours + ':' + minutesLeadingZero + minutes;
 	const timezoneGMT = 'GMT' + timezone;
 
+	const getTimezoneName = (timeZoneName: string) =>
+		new Intl.DateTimeFormat('en-US', {
+			timeZoneName,
+		} as Intl.DateTimeFormatOptions)
+			.formatToParts(date)
+			.find((part) => part.type === 'timeZoneName')!.value;
+	const timezoneShortName = getTimezoneName('short');
+	const timezoneLongName = getTimezoneName('long');
+	const timezoneShortGenericName = getTimezoneName('shortGeneric');
+	const timezoneLongGenericName = getTimezoneName('longGeneric');
+
 	const timestamp = date.getTime().toString();
 	const secondsTimestamp = Math.floor(date.getTime() / 1000).toString();
 
@@ -628,13 +641,109 @@ describe('format', () => {
 
 		it('Specific non-location', () => {
 			const result = format(date, 'z zz zzz zzzz');
+			const expectedResult = [
+				timezoneShortName,
+				timezoneShortName,
+				timezoneShortName,
+				timezoneLongName,
+			].join(' ');
+			assert(result === expectedResult);
+		});
+
+		it('Specific non-location in the language of the locale', () => {
+			const result = format(date, 'zzzz', { locale: { ...enUS, code: 'de' } });
+			const expectedResult = new Intl.DateTimeFormat('de', {
+				timeZoneName: 'long',
+			})
+				.formatToParts(date)
+				.find((part) => part.type === 'timeZoneName')!.value;
+			assert.strictEqual(result, expectedResult);
+		});
+
+		it('falls back to GMT if the locale code is not supported', () => {
+			const locale = { ...enUS, code: 'invalid locale code' };
+			const result = format(date, 'z zzzz v vvvv', { locale });
 			const expectedResult = [
 				timezoneGMTShort,
-				timezoneGMTShort,
+				timezoneGMT,
 				timezoneGMTShort,
 				timezoneGMT,
 			].join(' ');
-			assert(result === expectedResult);
+			assert.strictEqual(result, expectedResult);
+		});
+
+		it('falls back to GMT if the runtime lacks the timezone names', () => {
+			const OriginalDateTimeFormat = Intl.DateTimeFormat;
+			// The runtime without the names formats no `timeZoneName` parts
+			const dateTimeFormatStub = sinon
+				.stub(Intl, 'DateTimeFormat')
+				.callsFake(
+					(locales?: string | string[]) => new OriginalDateTimeFormat(locales),
+				);
+			try {
+				const locale = { ...enUS, code: 'en-GB' };
+				const result = format(date, 'z zzzz v vvvv', { locale });
+				const expectedResult = [
+					timezoneGMTShort,
+					timezoneGMT,
+					timezoneGMTShort,
+					timezoneGMT,
+				].join(' ');
+				assert.strictEqual(result, expectedResult);
+			} finally {
+				dateTimeFormatStub.restore();
+			}
+		});
+
+		it('follows the changes of the runtime timezone', () => {
+			const OriginalDateTimeFormat = Intl.DateTimeFormat;
+			const winterDate = new Date(Date.UTC(2020, 0, 15, 12));
+			let runtimeTimeZone = 'America/Los_Angeles';
+			// The winter and summer offsets
+			const offsets: { [timeZone: string]: number[] } = {
+				'America/Los_Angeles': [480, 420],
+				'Europe/Berlin': [-60, -120],
+			};
+			// Emulates the changes of the default time zone of the runtime
+			const dateTimeFormatStub = sinon.stub(Intl, 'DateTimeFormat').callsFake(
+				(locales?: string | string[], options?: Intl.DateTimeFormatOptions) =>
+					new OriginalDateTimeFormat(locales, {
+						timeZone: runtimeTimeZone,
+						...options,
+					}),
+			);
+			const offsetStub = sinon
+				.stub(Date.prototype, 'getTimezoneOffset')
+				.callsFake(function (this: Date) {
+					return offsets[runtimeTimeZone][this.getUTCMonth() < 6 ? 0 : 1];
+				});
+			try {
+				assert.strictEqual(
+					format(winterDate, 'zzzz VV'),
+					'Pacific Standard Time America/Los_Angeles',
+				);
+				runtimeTimeZone = 'Europe/Berlin';
+				assert.strictEqual(
+					format(winterDate, 'zzzz VV'),
+					'Central European Standard Time Europe/Berlin',
+				);
+			} finally {
+				dateTimeFormatStub.restore();
+				offsetStub.restore();
+			}
+		});
+
+		it('does not look up the runtime timezone for every call', () => {
+			const winterDate = new Date(Date.UTC(2020, 0, 15, 12));
+			format(winterDate, 'z zzzz v vvvv VV');
+			const dateTimeFormatSpy = sinon.spy(Intl, 'DateTimeFormat');
+			try {
+				format(winterDate, 'z zzzz v vvvv VV');
+				format(winterDate, 'z zzzz v vvvv VV');
+				assert.strictEqual(dateTimeFormatSpy.callCount, 0);
+			} finally {
+				dateTimeFormatSpy.restore();
+			}
 		});
 	});
 
@@ -683,12 +792,12 @@ describe('format', () => {
 
 		it('long time', () => {
 			const result = format(date, 'ppp');
-			assert(result === '10:32:55 AM ' + timezoneGMTShort);
+			assert(result === '10:32:55 AM ' + timezoneShortName);
 		});
 
 		it('full time', () => {
 			const result = format(date, 'pppp');
-			assert(result === '10:32:55 AM ' + timezoneGMT);
+			assert(result === '10:32:55 AM ' + timezoneLongName);
 		});
 
 		it('short date + time', () => {
@@ -703,19 +812,19 @@ describe('format', () => {
 
 		it('long date + time', () => {
 			const result = format(date, 'PPPppp');
-			assert(result === 'April 4th, 1986 at 10:32:55 AM ' + timezoneGMTShort);
+			assert(result === 'April 4th, 1986 at 10:32:55 AM ' + timezoneShortName);
 		});
 
 		it('full date + time', () => {
 			const result = format(date, 'PPPPpppp');
 			assert(
-				result === 'Friday, April 4th, 1986 at 10:32:55 AM ' + timezoneGMT,
+				result === 'Friday, April 4th, 1986 at 10:32:55 AM ' + timezoneLongName,
 			);
 		});
 
 		it('allows arbitrary combination of date and time', () => {
 			const result = format(date, 'Ppppp');
-			assert(result === '04/04/1986, 10:32:55 AM ' + timezoneGMT);
+			assert(result === '04/04/1986, 10:32:55 AM ' + timezoneLongName);
 		});
 	});
 
@@ -781,10 +890,293 @@ describe('format', () => {
 		});
 	});
 
+	describe('numberingSystem option', () => {
+		it('writes the numbers with the digits of the numbering system', () => {
+			const result = format(new Date(2014, 6, 2, 15, 4), 'dd/MM/yyyy HH:mm', {
+				numberingSystem: 'arab',
+			});
+			assert(result === '٠٢/٠٧/٢٠١٤ ١٥:٠٤');
+		});
+
+		it('replaces the digits of ordinal numbers and long formats', () => {
+			const result = format(new Date(2014, 6, 2), "do 'of' MMMM, P", {
+				numberingSystem: 'deva',
+			});
+			assert(result === '२nd of July, ०७/०२/२०१४');
+		});
+
+		it('keeps the digits of escaped strings', () => {
+			const result = format(new Date(2014, 6, 2), "'1:' d", {
+				numberingSystem: 'thai',
+			});
+			assert(result === '1: ๒');
+		});
+
+		it('uses `localize.numeral` of the locale', () => {
+			const result = format(new Date(2014, 6, 2), 'd.M.yyyy', {
+				locale: {
+					...enUS,
+					localize: {
+						...enUS.localize,
+						numeral: (value: string) => value.replace(/\d/g, '#'),
+					},
+				},
+			});
+			assert(result === '#.#.####');
+		});
+
+		it('throws `RangeError` if the numbering system is not supported', () => {
+			assert.throws(
+				() => format(new Date(2014, 6, 2), 'd', { numberingSystem: 'xxxx' }),
+				RangeError,
+			);
+		});
+	});
+
+	it('uses the options of each call with the same format string', () => {
+		const locale = {
+			...enUS,
+			formatLong: {
+				...enUS.formatLong,
+				date: () => 'yyyy-MM-dd',
+			},
+		};
+		assert.strictEqual(format(date, 'P'), '04/04/1986');
+		assert.strictEqual(format(date, 'P', { locale }), '1986-04-04');
+		assert.strictEqual(
+			format(date, 'P', { numberingSystem: 'arab' }),
+			'٠٤/٠٤/١٩٨٦',
+		);
+		assert.strictEqual(format(date, 'P'), '04/04/1986');
+	});
+
+	it('follows the changes of the locale object', () => {
+		const formatLong = { ...enUS.formatLong };
+		const localize = { ...enUS.localize };
+		const locale = { ...enUS, formatLong, localize };
+		const dateCopy = new Date(1986, 3 /* Apr */, 4, 10, 32);
+		assert.strictEqual(format(dateCopy, 'P d', { locale }), '04/04/1986 4');
+		formatLong.date = () => 'yyyy-MM-dd';
+		localize.numeral = (value: string) => value.replace(/\d/g, '#');
+		assert.strictEqual(format(dateCopy, 'P d', { locale }), '####-##-## #');
+	});
+
+	it('mentions the input in the protected token errors', () => {
+		format(date, 'YYYY', { useAdditionalWeekYearTokens: true });
+		assert.throws(
+			() => format(date, 'YYYY'),
+			(error: Error) => error.message.includes(`to the input \`${date}\``),
+		);
+	});
+
 	it('throws RangeError exception if the format string contains an unescaped latin alphabet character', () => {
 		assert.throws(format.bind(null, date, 'yyyy-MM-dd-nnnn'), RangeError);
 	});
 
+	describe('LDML tokens', () => {
+		const ldmlDate = new Date(1986, 3 /* Apr */, 13, 10, 32, 55, 123);
+
+		it('cyclic year', () => {
+			const result = format(ldmlDate, 'U UU UUUU');
+			assert.strictEqual(result, '1986 86 1986');
+		});
+
+		it('related Gregorian year', () => {
+			const result = format(ldmlDate, 'r rr rrrrr');
+			assert.strictEqual(result, '1986 1986 01986');
+		});
+
+		it('week of month', () => {
+			const result = format(ldmlDate, 'W', {
+				useAdditionalWeekOfMonthTokens: true,
+			});
+			assert.strictEqual(result, '3');
+			const mondayResult = format(ldmlDate, 'W', {
+				useAdditionalWeekOfMonthTokens: true,
+				weekStartsOn: 1,
+			});
+			assert.strictEqual(mondayResult, '2');
+			assert.strictEqual(ldmlDate.getDate(), 13);
+		});
+
+		it('day of week in month', () => {
+			const result = format(ldmlDate, 'F FF');
+			assert.strictEqual(result, '2 02');
+		});
+
+		it('modified Julian day', () => {
+			const result = format(ldmlDate, 'g ggggggg');
+			assert.strictEqual(result, '46533 0046533');
+			assert.strictEqual(format(new Date(1858, 10, 17, 23), 'g'), '0');
+		});
+
+		it('milliseconds in day', () => {
+			const result = format(ldmlDate, 'A AAAAAAAAA', {
+				useAdditionalMillisecondsInDayTokens: true,
+			});
+			assert.strictEqual(result, '37975123 037975123');
+		});
+
+		it('generic non-location timezone', () => {
+			const result = format(ldmlDate, 'v vvvv');
+			assert.strictEqual(
+				result,
+				`${timezoneShortGenericName} ${timezoneLongGenericName}`,
+			);
+		});
+
+		it('location timezone', () => {
+			const result = format(ldmlDate, 'V VV');
+			assert.strictEqual(
+				result,
+				`unk ${Intl.DateTimeFormat().resolvedOptions().timeZone}`,
+			);
+		});
+
+		it('timezone aliases', () => {
+			const result = format(ldmlDate, 'Z ZZ ZZZ ZZZZ ZZZZZ');
+			assert.strictEqual(
+				result,
+				[
+					timezoneShort,
+					timezoneShort,
+					timezoneShort,
+					timezoneGMT,
+					timezoneWithZ,
+				].join(' '),
+			);
+		});
+
+		it('throws an error if A token is used', () => {
+			assert.throws(
+				() => format(ldmlDate, 'h:mm A'),
+				(error: Error) =>
+					error instanceof RangeError &&
+					error.message.startsWith('Use `a` instead of `A`'),
+			);
+		});
+
+		it('throws an error if W and WW tokens are used', () => {
+			assert.throws(
+				() => format(ldmlDate, 'W'),
+				(error: Error) =>
+					error instanceof RangeError &&
+					error.message.startsWith('Use `I` instead of `W`'),
+			);
+			assert.throws(
+				() => format(ldmlDate, 'WW'),
+				(error: Error) =>
+					error instanceof RangeError &&
+					error.message.startsWith('Use `II` instead of `WW`'),
+			);
+		});
+	});
+
+	describe('custom tokens', () => {
+		const shiftDate = new Date(1986, 3 /* Apr */, 4, 10, 32, 55, 123);
+		const shift = (dirtyDate: Date) =>
+			['A', 'B', 'C'][Math.floor(dirtyDate.getHours() / 8)];
+
+		it('formats the custom tokens', () => {
+			const result = format(shiftDate, "yyyy-MM-dd 'shift' f", {
+				formatters: { f: shift },
+			});
+			assert.strictEqual(result, '1986-04-04 shift B');
+		});
+
+		it('passes the token, localize and the options to the formatter', () => {
+			const formatter = sinon.fake.returns('3');
+			format(shiftDate, 'ff', {
+				formatters: { f: formatter },
+				weekStartsOn: 1,
+			});
+			const [
+				formatterDate,
+				token,
+				localize,
+				options,
+			] = formatter.firstCall.args;
+			assert.strictEqual(formatterDate.getTime(), shiftDate.getTime());
+			assert.strictEqual(token, 'ff');
+			assert.strictEqual(localize, enUS.localize);
+			assert.strictEqual(options.weekStartsOn, 1);
+			assert.strictEqual(options.firstWeekContainsDate, 1);
+			assert.strictEqual(options.locale, enUS);
+		});
+
+		it('escapes the custom tokens', () => {
+			const result = format(shiftDate, "'f' f", { formatters: { f: shift } });
+			assert.strictEqual(result, 'f B');
+		});
+
+		it('replaces the digits of the custom tokens', () => {
+			const result = format(shiftDate, 'f', {
+				formatters: { f: () => '12' },
+				numberingSystem: 'arab',
+			});
+			assert.strictEqual(result, '١٢');
+		});
+
+		it('uses the formatters of each call with the same format string', () => {
+			assert.strictEqual(
+				format(shiftDate, 'f', { formatters: { f: shift } }),
+				'B',
+			);
+			assert.strictEqual(
+				format(shiftDate, 'f', { formatters: { f: () => 'X' } }),
+				'X',
+			);
+			assert.throws(() => format(shiftDate, 'f'), RangeError);
+		});
+
+		it('follows the changes of the formatters object', () => {
+			const formatters: { [letter: string]: () => string } = { f: () => 'A' };
+			assert.strictEqual(
+				format(shiftDate, "'mutated' f", { formatters }),
+				'mutated A',
+			);
+			formatters.f = () => 'Z';
+			assert.strictEqual(
+				format(shiftDate, "'mutated' f", { formatters }),
+				'mutated Z',
+			);
+		});
+
+		it('compiles the format string once for the new objects with the same formatters', () => {
+			format(shiftDate, "'inline' f", { formatters: { f: shift } });
+			const compileTokensSpy = sinon.spy(compile, 'compileTokens');
+			try {
+				format(shiftDate, "'inline' f", { formatters: { f: shift } });
+				format(shiftDate, "'inline' f", { formatters: { f: shift } });
+				assert.strictEqual(compileTokensSpy.callCount, 0);
+			} finally {
+				compileTokensSpy.restore();
+			}
+		});
+
+		it('throws RangeError if the letter is used by format', () => {
+			assert.throws(
+				() => format(shiftDate, 'd', { formatters: { d: shift } }),
+				RangeError,
+			);
+			assert.throws(
+				() => format(shiftDate, 'P', { formatters: { P: shift } }),
+				RangeError,
+			);
+		});
+
+		it('throws RangeError if the key is not a single latin letter', () => {
+			assert.throws(
+				() => format(shiftDate, 'ff', { formatters: { ff: shift } }),
+				RangeError,
+			);
+			assert.throws(
+				() => format(shiftDate, '1', { formatters: { 1: shift } }),
+				RangeError,
+			);
+		});
+	});
+
 	describe('useAdditionalWeekYearTokens and useAdditionalDayOfYearTokens options', () => {
 		it('throws an error if D token is used', () => {
 			try {
@@ -273,6 +273,15 @@ describe('formatDistance', () => {
 		);
 	});
 
+	it('allows to set the numbering system', () => {
+		const result = formatDistance(
+			new Date(1986, 3, 4, 10, 32, 0),
+			new Date(1986, 3, 4, 15, 32, 0),
+			{ numberingSystem: 'arab', addSuffix: true },
+		);
+		assert(result === 'about ٥ hours ago');
+	});
+
 	it('throws RangeError if the both dates are `Invalid Date`', () => {
 		assert.throws(
 			formatDistance.bind(null, new Date(NaN), new Date(NaN)),
@@ -76,4 +76,11 @@ describe('formatDuration', () => {
 				'9 months, 2 days',
 		);
 	});
+
+	it('allows to set the numbering system', () => {
+		assert(
+			formatDuration({ years: 2, days: 13 }, { numberingSystem: 'deva' }) ===
+				'२ years १३ days',
+		);
+	});
 });
@@ -3,6 +3,7 @@
 import assert from 'assert';
 import sinon from 'sinon';
 import formatISO from '.';
+import parseISO from '../parseISO/index';
 import { generateOffset } from '../_lib/test';
 
 describe('formatISO', () => {
@@ -71,6 +72,91 @@ describe('formatISO', () => {
 		);
 	});
 
+	it('formats the date with the given offset', () => {
+		const date = new Date(Date.UTC(2019, 8, 18, 19, 0, 52));
+		assert.strictEqual(
+			formatISO(date, { offset: 330 }),
+			'2019-09-19T00:30:52+05:30',
+		);
+		assert.strictEqual(
+			formatISO(date, { offset: -480, format: 'basic' }),
+			'20190918T110052-08:00',
+		);
+		assert.strictEqual(formatISO(date, { offset: 0 }), '2019-09-18T19:00:52Z');
+	});
+
+	it('restores the string parsed by parseISO with keepOffset', () => {
+		const { date, offset } = parseISO('2024-03-01T12:00:00+05:30', {
+			keepOffset: true,
+		});
+		assert.strictEqual(
+			formatISO(date, { offset }),
+			'2024-03-01T12:00:00+05:30',
+		);
+	});
+
+	it('throws RangeError if the offset is invalid', () => {
+		const date = new Date(2019, 8, 18);
+		assert.throws(() => formatISO(date, { offset: 1440 }), RangeError);
+		assert.throws(() => formatISO(date, { offset: 1.5 }), RangeError);
+	});
+
+	describe('expandedYear', () => {
+		const date = new Date(Date.UTC(2000, 2 /* Mar */, 15, 12, 30));
+		date.setUTCFullYear(-43);
+
+		it('formats the signed expanded year', () => {
+			assert.strictEqual(
+				formatISO(date, { expandedYear: true, offset: 0 }),
+				'-000043-03-15T12:30:00Z',
+			);
+			assert.strictEqual(
+				formatISO(new Date(2024, 0, 1), {
+					expandedYear: true,
+					representation: 'date',
+				}),
+				'+002024-01-01',
+			);
+			assert.strictEqual(
+				formatISO(date, {
+					expandedYear: true,
+					additionalDigits: 0,
+					format: 'basic',
+					offset: 0,
+				}),
+				'-00430315T123000Z',
+			);
+		});
+
+		it('round-trips with parseISO with the same additionalDigits', () => {
+			for (const additionalDigits of [0, 1, 2] as const) {
+				const result = formatISO(date, {
+					expandedYear: true,
+					additionalDigits,
+					offset: 0,
+				});
+				assert.deepStrictEqual(parseISO(result, { additionalDigits }), date);
+			}
+			const yearZero = new Date(Date.UTC(2000, 0, 1));
+			yearZero.setUTCFullYear(0);
+			assert.deepStrictEqual(
+				parseISO(formatISO(yearZero, { expandedYear: true, offset: 0 })),
+				yearZero,
+			);
+		});
+
+		it('throws RangeError if the year does not fit in the digits', () => {
+			assert.throws(
+				() =>
+					formatISO(new Date(12345, 0, 1), {
+						expandedYear: true,
+						additionalDigits: 0,
+					}),
+				RangeError,
+			);
+		});
+	});
+
 	it('throws RangeError if the time value is invalid', () => {
 		assert.throws(formatISO.bind(null, new Date(NaN)), RangeError);
 	});
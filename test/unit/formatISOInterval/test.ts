@@ -0,0 +1,90 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import parseISOInterval from '../parseISOInterval/index';
+import formatISOInterval from './index';
+
+describe('formatISOInterval', () => {
+	const start = new Date(2024, 1, 10, 9);
+	const end = new Date(2024, 1, 15, 17);
+
+	it('formats the start and the end', () => {
+		assert.strictEqual(
+			formatISOInterval({ start, end }, { representation: 'date' }),
+			'2024-02-10/2024-02-15',
+		);
+		assert.strictEqual(
+			formatISOInterval(
+				{ start, end },
+				{ representation: 'date', format: 'basic' },
+			),
+			'20240210/20240215',
+		);
+	});
+
+	it('formats the start and the duration', () => {
+		assert.strictEqual(
+			formatISOInterval(
+				{ start, duration: { months: 1, weeks: 1 } },
+				{ representation: 'date' },
+			),
+			'2024-02-10/P0Y1M7DT0H0M0S',
+		);
+	});
+
+	it('formats the duration and the end', () => {
+		assert.strictEqual(
+			formatISOInterval(
+				{ duration: { days: 5 }, end },
+				{ representation: 'date' },
+			),
+			'P0Y0M5DT0H0M0S/2024-02-15',
+		);
+	});
+
+	it('abbreviates the end', () => {
+		const options = { representation: 'date', abbreviated: true } as const;
+		assert.strictEqual(
+			formatISOInterval({ start, end }, options),
+			'2024-02-10/15',
+		);
+		assert.strictEqual(
+			formatISOInterval({ start, end: new Date(2024, 2, 1) }, options),
+			'2024-02-10/03-01',
+		);
+		assert.strictEqual(
+			formatISOInterval({ start, end: new Date(2025, 1, 10) }, options),
+			'2024-02-10/2025-02-10',
+		);
+		assert.strictEqual(
+			formatISOInterval({ start, end }, { ...options, format: 'basic' }),
+			'20240210/15',
+		);
+	});
+
+	it('round-trips with parseISOInterval', () => {
+		assert.deepStrictEqual(
+			parseISOInterval(formatISOInterval({ start, end })),
+			{ start, end },
+		);
+		assert.deepStrictEqual(
+			parseISOInterval(
+				formatISOInterval({ start, end }, { abbreviated: true }),
+			),
+			{ start, end },
+		);
+		assert.deepStrictEqual(
+			parseISOInterval(
+				formatISOInterval({ start, duration: { days: 5, hours: 8 } }),
+			),
+			{ start, end },
+		);
+	});
+
+	it('throws RangeError if a date is invalid', () => {
+		assert.throws(
+			() => formatISOInterval({ start, end: new Date(NaN) }),
+			RangeError,
+		);
+	});
+});
@@ -0,0 +1,51 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import sinon from 'sinon';
+import formatRFC2822 from './index';
+
+describe('formatRFC2822', () => {
+	const date = new Date(Date.UTC(2019, 8, 18, 19, 0, 52));
+
+	it('formats RFC-2822 date string in the local time zone', () => {
+		const getTimezoneOffsetStub = sinon.stub(
+			Date.prototype,
+			'getTimezoneOffset',
+		);
+
+		getTimezoneOffsetStub.returns(0);
+		assert.strictEqual(formatRFC2822(date), 'Wed, 18 Sep 2019 19:00:52 +0000');
+
+		getTimezoneOffsetStub.returns(-330);
+		assert.strictEqual(formatRFC2822(date), 'Thu, 19 Sep 2019 00:30:52 +0530');
+
+		getTimezoneOffsetStub.restore();
+	});
+
+	it('allows to specify the offset', () => {
+		assert.strictEqual(
+			formatRFC2822(date, { offset: -300 }),
+			'Wed, 18 Sep 2019 14:00:52 -0500',
+		);
+		assert.strictEqual(
+			formatRFC2822(date, { offset: 0 }),
+			'Wed, 18 Sep 2019 19:00:52 +0000',
+		);
+	});
+
+	it('accepts a timestamp', () => {
+		assert.strictEqual(
+			formatRFC2822(Date.UTC(2019, 9, 4, 12, 30, 13), { offset: 60 }),
+			'Fri, 04 Oct 2019 13:30:13 +0100',
+		);
+	});
+
+	it('throws RangeError if the time value is invalid', () => {
+		assert.throws(formatRFC2822.bind(null, new Date(NaN)), RangeError);
+	});
+
+	it('throws RangeError if the offset is invalid', () => {
+		assert.throws(() => formatRFC2822(date, { offset: 1440 }), RangeError);
+		assert.throws(() => formatRFC2822(date, { offset: 1.5 }), RangeError);
+	});
+});
@@ -50,6 +50,18 @@ describe('formatRFC3339', () => {
 		);
 	});
 
+	it('formats the signed expanded year', () => {
+		const date = new Date(2024, 0 /* Jan */, 1, 12);
+		assert(
+			formatRFC3339(date, { expandedYear: true }) ===
+				`+002024-01-01T12:00:00${generateOffset(date)}`,
+		);
+		assert(
+			formatRFC3339(date, { expandedYear: true, additionalDigits: 1 }) ===
+				`+02024-01-01T12:00:00${generateOffset(date)}`,
+		);
+	});
+
 	it('throws RangeError if the time value is invalid', () => {
 		assert.throws(formatRFC3339.bind(null, new Date(NaN)), RangeError);
 	});
@@ -0,0 +1,114 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import format from '../format/index';
+import type { FormatPart } from '../types';
+import formatToParts from './index';
+
+describe('formatToParts', () => {
+	const date = new Date(1986, 3 /* Apr */, 4, 10, 32, 55, 123);
+
+	it('returns the typed parts of the formatted date', () => {
+		const result = formatToParts(date, "EEEE, do 'of' MMMM yyyy");
+		assert.deepStrictEqual(result, [
+			{ type: 'weekday', token: 'EEEE', value: 'Friday' },
+			{ type: 'literal', token: ', ', value: ', ' },
+			{ type: 'day', token: 'do', value: '4th' },
+			{ type: 'literal', token: " 'of' ", value: ' of ' },
+			{ type: 'month', token: 'MMMM', value: 'April' },
+			{ type: 'literal', token: ' ', value: ' ' },
+			{ type: 'year', token: 'yyyy', value: '1986' },
+		]);
+	});
+
+	it('returns the parts that are joined into the result of format', () => {
+		const formatStr =
+			"G Q w DDD e a B h:mm:ss.SSS xxx t T 'It''s' PPpp R-II-i ''";
+		const result = formatToParts(new Date(date.getTime()), formatStr);
+		assert.strictEqual(
+			result.map((part: FormatPart) => part.value).join(''),
+			format(new Date(date.getTime()), formatStr),
+		);
+		assert.deepStrictEqual(
+			result
+				.filter((part: FormatPart) => part.type !== 'literal')
+				.map((part: FormatPart) => part.type),
+			[
+				'era',
+				'quarter',
+				'week',
+				'dayOfYear',
+				'weekday',
+				'dayPeriod',
+				'dayPeriod',
+				'hour',
+				'minute',
+				'second',
+				'fractionalSecond',
+				'timeZoneName',
+				'timestamp',
+				'timestamp',
+				'month',
+				'day',
+				'year',
+				'hour',
+				'minute',
+				'second',
+				'dayPeriod',
+				'year',
+				'week',
+				'weekday',
+			],
+		);
+	});
+
+	it('types the LDML day and time fields', () => {
+		const result = formatToParts(date, 'F g A W', {
+			useAdditionalMillisecondsInDayTokens: true,
+			useAdditionalWeekOfMonthTokens: true,
+		});
+		assert.deepStrictEqual(
+			result
+				.filter((part: FormatPart) => part.type !== 'literal')
+				.map((part: FormatPart) => part.type),
+			['dayOfWeekInMonth', 'modifiedJulianDay', 'millisecondsInDay', 'week'],
+		);
+	});
+
+	it('applies the options', () => {
+		const result = formatToParts(date, 'yyyy', { numberingSystem: 'arab' });
+		assert.deepStrictEqual(result, [
+			{ type: 'year', token: 'yyyy', value: '١٩٨٦' },
+		]);
+	});
+
+	it('returns the custom type for the custom tokens', () => {
+		const result = formatToParts(date, "'shift' f", {
+			formatters: { f: () => 'B' },
+		});
+		assert.deepStrictEqual(result, [
+			{ type: 'literal', token: "'shift' ", value: 'shift ' },
+			{ type: 'custom', token: 'f', value: 'B' },
+		]);
+	});
+
+	it('accepts a timestamp', () => {
+		const result = formatToParts(date.getTime(), 'MM');
+		assert.deepStrictEqual(result, [
+			{ type: 'month', token: 'MM', value: '04' },
+		]);
+	});
+
+	it('throws RangeError if the time value is invalid', () => {
+		assert.throws(() => formatToParts(new Date(NaN), 'MM'), RangeError);
+	});
+
+	it('throws RangeError if the protected tokens are used', () => {
+		assert.throws(() => formatToParts(date, 'YYYY'), RangeError);
+		assert.throws(() => formatToParts(date, 'DD'), RangeError);
+	});
+
+	it('throws RangeError if the format string contains an unescaped latin alphabet character', () => {
+		assert.throws(() => formatToParts(date, 'yyyy-nn'), RangeError);
+	});
+});
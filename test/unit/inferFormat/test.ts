@@ -0,0 +1,95 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import extendLocale from '../extendLocale/index';
+import enUS from '../locale/en-US/index';
+import parse from '../parse/index';
+import inferFormat from './index';
+import type { InferredFormat } from './index';
+
+describe('inferFormat', () => {
+	const enGB = extendLocale(enUS, {
+		code: 'en-GB',
+		formatLong: { date: { short: 'dd/MM/yyyy' } },
+	});
+
+	const inferFormats = (samples: string[], locales = [enUS]) =>
+		inferFormat(samples, { locales }).map(
+			(result: InferredFormat) => result.format,
+		);
+
+	it('infers ISO 8601 and RFC formats', () => {
+		assert.strictEqual(
+			inferFormats(['2024-03-01T10:00:00+05:30', '2024-03-02T10:00:00Z'])[0],
+			"yyyy-MM-dd'T'HH:mm:ssXXX",
+		);
+		assert.strictEqual(inferFormats(['2024-03-01'])[0], 'yyyy-MM-dd');
+		assert.deepStrictEqual(inferFormats(['Wed, 18 Sep 2019 19:00:52 +0200']), [
+			'EEE, dd MMM yyyy HH:mm:ss xx',
+		]);
+	});
+
+	it('eliminates the readings that do not fit a sample', () => {
+		const formats = inferFormats(['03/04/2024', '13/04/2024']);
+		assert.strictEqual(formats[0], 'dd/MM/yyyy');
+		assert(formats.indexOf('MM/dd/yyyy') === -1);
+	});
+
+	it('prefers the order of the locale for the ambiguous samples', () => {
+		assert.deepStrictEqual(inferFormats(['03/04/2024']).slice(0, 2), [
+			'MM/dd/yyyy',
+			'dd/MM/yyyy',
+		]);
+		assert.deepStrictEqual(inferFormats(['03/04/2024'], [enGB]).slice(0, 2), [
+			'dd/MM/yyyy',
+			'MM/dd/yyyy',
+		]);
+	});
+
+	it('prefers the formats that produce the same strings', () => {
+		assert.strictEqual(inferFormats(['3/4/24', '12/25/24'])[0], 'M/d/yy');
+		assert.strictEqual(
+			inferFormats(['05.03.2024 17:30'])[0],
+			'MM.dd.yyyy HH:mm',
+		);
+	});
+
+	it('infers the 12 hour time', () => {
+		assert.strictEqual(
+			inferFormats(['03/14/2024 5:30 PM', '03/15/2024 11:05 am'])[0],
+			'MM/dd/yyyy h:mm a',
+		);
+	});
+
+	it('infers the times without the dates', () => {
+		assert.strictEqual(inferFormats(['10:30 PM', '9:05 am'])[0], 'h:mm a');
+		assert.strictEqual(inferFormats(['22:30', '09:05'])[0], 'HH:mm');
+		assert.strictEqual(inferFormats(['22:30:15'])[0], 'HH:mm:ss');
+		assert.strictEqual(inferFormats(['9:30:15 PM'])[0], 'h:mm:ss a');
+	});
+
+	it('infers the localized month names', () => {
+		assert.strictEqual(
+			inferFormats(['Mar 5, 2024', 'Dec 25, 2024'])[0],
+			'MMM d, yyyy',
+		);
+		assert.strictEqual(
+			inferFormats(['Friday, March 8, 2024'])[0],
+			'EEEE, MMMM d, yyyy',
+		);
+	});
+
+	it('returns the formats usable by parse with their locales', () => {
+		const [result] = inferFormat(['13/04/2024'], { locales: [enUS, enGB] });
+		assert.strictEqual(result.locale, enGB);
+		assert.deepStrictEqual(
+			parse('13/04/2024', result.format, new Date(), { locale: result.locale }),
+			new Date(2024, 3, 13),
+		);
+	});
+
+	it('returns an empty array if nothing fits', () => {
+		assert.deepStrictEqual(inferFormat(['garbage']), []);
+		assert.deepStrictEqual(inferFormat([]), []);
+	});
+});
@@ -0,0 +1,50 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import intlFormat from '../intlFormat/index';
+import intlFormatToParts from './index';
+
+describe('intlFormatToParts', () => {
+	const date = new Date(2019, 9 /* Oct */, 4, 12, 30, 13, 456);
+
+	it('returns the parts of the result of intlFormat', () => {
+		const formatOptions: Intl.DateTimeFormatOptions = {
+			year: 'numeric',
+			month: 'long',
+			day: 'numeric',
+		};
+		const localeOptions = { locale: 'en-US' };
+		const result = intlFormatToParts(date, formatOptions, localeOptions);
+		assert.deepStrictEqual(result, [
+			{ type: 'month', value: 'October' },
+			{ type: 'literal', value: ' ' },
+			{ type: 'day', value: '4' },
+			{ type: 'literal', value: ', ' },
+			{ type: 'year', value: '2019' },
+		]);
+		assert.strictEqual(
+			result.map((part: Intl.DateTimeFormatPart) => part.value).join(''),
+			intlFormat(date, formatOptions, localeOptions),
+		);
+	});
+
+	it("works with only locale's options", () => {
+		const result = intlFormatToParts(date, { locale: 'en-US' });
+		assert.strictEqual(
+			result.map((part: Intl.DateTimeFormatPart) => part.value).join(''),
+			intlFormat(date, { locale: 'en-US' }),
+		);
+	});
+
+	it("works with only format's options", () => {
+		const result = intlFormatToParts(date, { year: 'numeric' });
+		assert.strictEqual(
+			result.map((part: Intl.DateTimeFormatPart) => part.value).join(''),
+			intlFormat(date, { year: 'numeric' }),
+		);
+	});
+
+	it('throws RangeError if the date value is invalid', () => {
+		assert.throws(() => intlFormatToParts(new Date(NaN)), RangeError);
+	});
+});
@@ -2,7 +2,7 @@
 
 import assert from 'assert';
 import isMatch from './index';
-import eo from '../locale/eo';
+import enUS from '../locale/en-US/index';
 
 describe('isMatch', () => {
 	it('accepts a dd-MM-yyyy format against 22-02-1998', () => {
@@ -13,10 +13,15 @@ describe('isMatch', () => {
 		assert(!isMatch('22-02-1998', 'yyyy-dd-MM'));
 	});
 
+	it('rejects the dates that do not exist', () => {
+		assert(!isMatch('2023-02-30', 'yyyy-MM-dd'));
+		assert(!isMatch('2023-02-28 24:00', 'yyyy-MM-dd HH:mm'));
+	});
+
 	it('accepts a date & format with locale', () => {
 		assert(
-			isMatch('28-a de februaro', "do 'de' MMMM", {
-				locale: eo,
+			isMatch('28th of February', "do 'of' MMMM", {
+				locale: enUS,
 			}),
 		);
 	});
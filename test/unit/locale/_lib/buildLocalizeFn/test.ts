@@ -0,0 +1,58 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import buildLocalizeFn from './index';
+
+describe('buildLocalizeFn', () => {
+	const localizeMonth = buildLocalizeFn<number>({
+		values: {
+			narrow: ['J', 'F'],
+			wide: ['January', 'February'],
+		},
+		defaultWidth: 'wide',
+		formattingValues: {
+			wide: ['of January', 'of February'],
+		},
+		defaultFormattingWidth: 'wide',
+	});
+
+	it('returns the value of the requested width', () => {
+		assert.strictEqual(localizeMonth(1, { width: 'narrow' }), 'F');
+	});
+
+	it('falls back to the default width', () => {
+		assert.strictEqual(localizeMonth(0), 'January');
+		assert.strictEqual(localizeMonth(0, { width: 'short' }), 'January');
+	});
+
+	it('uses the formatting values in the formatting context', () => {
+		assert.strictEqual(
+			localizeMonth(1, { width: 'wide', context: 'formatting' }),
+			'of February',
+		);
+		assert.strictEqual(
+			localizeMonth(1, { width: 'narrow', context: 'formatting' }),
+			'of February',
+		);
+	});
+
+	it('uses the stand-alone values when there are no formatting values', () => {
+		const localizeEra = buildLocalizeFn<number>({
+			values: { wide: ['Before Christ', 'Anno Domini'] },
+			defaultWidth: 'wide',
+		});
+		assert.strictEqual(
+			localizeEra(1, { context: 'formatting' }),
+			'Anno Domini',
+		);
+	});
+
+	it('maps the value with `argumentCallback`', () => {
+		const localizeQuarter = buildLocalizeFn<number>({
+			values: { abbreviated: ['Q1', 'Q2', 'Q3', 'Q4'] },
+			defaultWidth: 'abbreviated',
+			argumentCallback: (quarter) => quarter - 1,
+		});
+		assert.strictEqual(localizeQuarter(4), 'Q4');
+	});
+});
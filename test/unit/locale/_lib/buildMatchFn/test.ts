@@ -0,0 +1,52 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import buildMatchFn from './index';
+
+describe('buildMatchFn', () => {
+	const matchMonth = buildMatchFn<number>({
+		matchPatterns: {
+			abbreviated: /^(jan|feb|mar)/i,
+			wide: /^(january|february|march)/i,
+		},
+		defaultMatchWidth: 'wide',
+		parsePatterns: {
+			any: [/^ja/i, /^f/i, /^m/i],
+		},
+		defaultParseWidth: 'any',
+		valueCallback: (index) => index as number,
+	});
+
+	it('matches the value at the start of the string', () => {
+		assert.deepStrictEqual(matchMonth('February 3'), {
+			value: 1,
+			rest: ' 3',
+		});
+	});
+
+	it('uses the patterns of the requested width', () => {
+		assert.deepStrictEqual(matchMonth('Mar 3', { width: 'abbreviated' }), {
+			value: 2,
+			rest: ' 3',
+		});
+	});
+
+	it('returns null if the string does not match', () => {
+		assert.strictEqual(matchMonth('Mar 3'), null);
+	});
+
+	it('applies `options.valueCallback` to the value', () => {
+		const result = matchMonth('january', { valueCallback: (v) => v + 1 });
+		assert.deepStrictEqual(result, { value: 1, rest: '' });
+	});
+
+	it('parses keyed patterns', () => {
+		const matchDayPeriod = buildMatchFn<string, 'am' | 'pm'>({
+			matchPatterns: { any: /^[ap]\.?m\.?/i },
+			defaultMatchWidth: 'any',
+			parsePatterns: { any: { am: /^a/i, pm: /^p/i } },
+			defaultParseWidth: 'any',
+		});
+		assert.deepStrictEqual(matchDayPeriod('p.m.'), { value: 'pm', rest: '' });
+	});
+});
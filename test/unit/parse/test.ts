@@ -0,0 +1,154 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import { resetDefaultOptions } from '../_lib/test/index';
+import setDefaultOptions from '../setDefaultOptions/index';
+import parse from './index';
+
+describe('parse', () => {
+	const referenceDate = new Date(1986, 3 /* Apr */, 4, 10, 32, 0, 900);
+
+	afterEach(() => {
+		resetDefaultOptions();
+	});
+
+	it('parses numeric date and time tokens', () => {
+		const result = parse(
+			'2014-02-11 14:05:59.123',
+			'yyyy-MM-dd HH:mm:ss.SSS',
+			referenceDate,
+		);
+		assert.deepStrictEqual(result, new Date(2014, 1, 11, 14, 5, 59, 123));
+	});
+
+	it('takes the missing values from the reference date', () => {
+		const result = parse('February 11th', 'MMMM do', referenceDate);
+		assert.deepStrictEqual(result, new Date(1986, 1, 11));
+	});
+
+	it('does not change the reference date', () => {
+		const date = new Date(referenceDate.getTime());
+		parse('11', 'd', date);
+		assert.deepStrictEqual(date, referenceDate);
+	});
+
+	it('parses the localized names and day periods', () => {
+		const result = parse(
+			'Tuesday, Feb 11, 2014 at 2:05 PM',
+			"EEEE, MMM d, yyyy 'at' h:mm a",
+			referenceDate,
+		);
+		assert.deepStrictEqual(result, new Date(2014, 1, 11, 14, 5));
+	});
+
+	it('parses the long localized formats', () => {
+		const result = parse('02/11/2014, 2:05 PM', 'Pp', referenceDate);
+		assert.deepStrictEqual(result, new Date(2014, 1, 11, 14, 5));
+	});
+
+	it('guesses the century of two-digit years', () => {
+		const base = new Date(2018, 0, 1);
+		assert.strictEqual(parse('50', 'yy', base).getFullYear(), 2050);
+		assert.strictEqual(parse('75', 'yy', base).getFullYear(), 1975);
+		assert.strictEqual(parse('75', 'uu', base).getFullYear(), 75);
+	});
+
+	it('parses B.C. years with the era', () => {
+		const result = parse('44 BC', 'y G', referenceDate);
+		const expected = new Date(0);
+		expected.setFullYear(-43, 0, 1);
+		expected.setHours(0, 0, 0, 0);
+		assert.deepStrictEqual(result, expected);
+	});
+
+	it('parses the ISO week-numbering tokens', () => {
+		const result = parse('2020-W53-5', "RRRR-'W'II-i", referenceDate);
+		assert.deepStrictEqual(result, new Date(2021, 0, 1));
+	});
+
+	it('parses the local week-numbering tokens', () => {
+		const result = parse('2019 01 2', 'YYYY ww e', referenceDate, {
+			useAdditionalWeekYearTokens: true,
+			weekStartsOn: 1,
+			firstWeekContainsDate: 4,
+		});
+		assert.deepStrictEqual(result, new Date(2019, 0, 1));
+	});
+
+	it('uses the week options of the default options', () => {
+		setDefaultOptions({ weekStartsOn: 1 });
+		const result = parse('1', 'e', new Date(2014, 8, 3));
+		assert.deepStrictEqual(result, new Date(2014, 8, 1));
+	});
+
+	it('parses the time zone offset', () => {
+		const result = parse(
+			'2014-02-11T14:05:00+05:30',
+			"yyyy-MM-dd'T'HH:mm:ssXXX",
+			referenceDate,
+		);
+		assert.deepStrictEqual(result, new Date(Date.UTC(2014, 1, 11, 8, 35)));
+	});
+
+	it('parses the timestamps', () => {
+		assert.deepStrictEqual(
+			parse('512969520', 't', referenceDate),
+			new Date(512969520000),
+		);
+		assert.deepStrictEqual(
+			parse('512969520900', 'T', referenceDate),
+			new Date(512969520900),
+		);
+	});
+
+	it('matches the escaped strings', () => {
+		const result = parse("5 o'clock", "h 'o''clock'", referenceDate);
+		assert.deepStrictEqual(result, new Date(1986, 3, 4, 5));
+	});
+
+	it('returns the reference date for an empty format and string', () => {
+		const result = parse('', '', referenceDate);
+		assert.deepStrictEqual(result, referenceDate);
+		assert(result !== referenceDate);
+	});
+
+	it('returns Invalid Date if the string does not match', () => {
+		assert(isNaN(parse('2014-02', 'yyyy-MM-dd', referenceDate).getTime()));
+		assert(isNaN(parse('2014-02-11 x', 'yyyy-MM-dd', referenceDate).getTime()));
+		assert(isNaN(parse('abc', '', referenceDate).getTime()));
+	});
+
+	it('allows the trailing whitespace', () => {
+		const result = parse('2014-02-11  ', 'yyyy-MM-dd', referenceDate);
+		assert.deepStrictEqual(result, new Date(2014, 1, 11));
+	});
+
+	it('returns Invalid Date for the values out of range', () => {
+		assert(isNaN(parse('2014-02-30', 'yyyy-MM-dd', referenceDate).getTime()));
+		assert(isNaN(parse('2014-13-01', 'yyyy-MM-dd', referenceDate).getTime()));
+		assert(isNaN(parse('25:00', 'HH:mm', referenceDate).getTime()));
+	});
+
+	it('throws RangeError for the incompatible tokens', () => {
+		assert.throws(
+			() => parse('23 AM', 'HH a', referenceDate),
+			/RangeError: The format string mustn't contain `HH` and `a` at the same time/,
+		);
+		assert.throws(
+			() => parse('1 512969520', 'd t', referenceDate),
+			/RangeError: The format string mustn't contain `d` and `t` at the same time/,
+		);
+	});
+
+	it('throws RangeError for the protected tokens', () => {
+		assert.throws(() => parse('2016', 'YYYY', referenceDate), RangeError);
+		assert.throws(() => parse('5', 'D', referenceDate), RangeError);
+	});
+
+	it('throws RangeError for an unescaped latin character', () => {
+		assert.throws(
+			() => parse('2016 j', 'yyyy j', referenceDate),
+			/RangeError: Format string contains an unescaped latin alphabet character `j`/,
+		);
+	});
+});
@@ -354,6 +354,64 @@ describe('parseISO', () => {
 		});
 	});
 
+	describe('dateOnly', () => {
+		it('parses the date-only string as the local midnight by default', () => {
+			assert.deepStrictEqual(parseISO('2024-03-01'), new Date(2024, 2, 1));
+			assert.deepStrictEqual(
+				parseISO('2024-03-01', { dateOnly: 'local' }),
+				new Date(2024, 2, 1),
+			);
+		});
+
+		it('parses the date-only string as the UTC midnight', () => {
+			assert.deepStrictEqual(
+				parseISO('2024-03-01', { dateOnly: 'utc' }),
+				new Date(Date.UTC(2024, 2, 1)),
+			);
+			assert.deepStrictEqual(
+				parseISO('2024-W09-5', { dateOnly: 'utc' }),
+				new Date(Date.UTC(2024, 2, 1)),
+			);
+		});
+
+		it('keeps the local time of the strings with the time', () => {
+			assert.deepStrictEqual(
+				parseISO('2024-03-01T10:00', { dateOnly: 'utc' }),
+				new Date(2024, 2, 1, 10),
+			);
+		});
+	});
+
+	describe('keepOffset', () => {
+		it('returns the date and the offset in minutes', () => {
+			assert.deepStrictEqual(
+				parseISO('2024-03-01T12:00:00+05:30', { keepOffset: true }),
+				{ date: new Date(Date.UTC(2024, 2, 1, 6, 30)), offset: 330 },
+			);
+			assert.deepStrictEqual(
+				parseISO('2024-03-01T12:00:00-0800', { keepOffset: true }),
+				{ date: new Date(Date.UTC(2024, 2, 1, 20)), offset: -480 },
+			);
+			assert.deepStrictEqual(
+				parseISO('2024-03-01T12:00:00Z', { keepOffset: true }),
+				{ date: new Date(Date.UTC(2024, 2, 1, 12)), offset: 0 },
+			);
+		});
+
+		it('returns undefined offset if the string has no offset', () => {
+			assert.deepStrictEqual(
+				parseISO('2024-03-01T12:00:00', { keepOffset: true }),
+				{ date: new Date(2024, 2, 1, 12), offset: undefined },
+			);
+		});
+
+		it('returns Invalid Date if the string is invalid', () => {
+			const { date, offset } = parseISO('abc', { keepOffset: true });
+			assert(isNaN(date.getTime()));
+			assert.strictEqual(offset, undefined);
+		});
+	});
+
 	describe('invalid argument', () => {
 		it('returns Invalid Date if argument is non-date string', () => {
 			const result = parseISO('abc');
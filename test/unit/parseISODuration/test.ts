@@ -0,0 +1,125 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import { add } from '../add-functions';
+import formatDuration from '../formatDuration/index';
+import formatISODuration from '../formatISODuration/index';
+import parseISODuration from './index';
+
+describe('parseISODuration', () => {
+	it('parses the components with designators', () => {
+		assert.deepStrictEqual(parseISODuration('P39Y2M20DT7H5M0S'), {
+			years: 39,
+			months: 2,
+			days: 20,
+			hours: 7,
+			minutes: 5,
+			seconds: 0,
+		});
+	});
+
+	it('returns only the present components', () => {
+		assert.deepStrictEqual(parseISODuration('P1M'), { months: 1 });
+		assert.deepStrictEqual(parseISODuration('PT1M'), { minutes: 1 });
+		assert.deepStrictEqual(parseISODuration('P2DT12H'), {
+			days: 2,
+			hours: 12,
+		});
+	});
+
+	it('parses the weeks', () => {
+		assert.deepStrictEqual(parseISODuration('P3W'), { weeks: 3 });
+		assert.deepStrictEqual(parseISODuration('P1W2D'), { weeks: 1, days: 2 });
+	});
+
+	it('parses the fraction of the lowest component', () => {
+		assert.deepStrictEqual(parseISODuration('PT1.5H'), { hours: 1.5 });
+		assert.deepStrictEqual(parseISODuration('PT1M0,25S'), {
+			minutes: 1,
+			seconds: 0.25,
+		});
+	});
+
+	it('throws RangeError if a higher component has a fraction', () => {
+		assert.throws(() => parseISODuration('PT1.5H30M'), RangeError);
+	});
+
+	it('throws RangeError if a calendar component has a fraction', () => {
+		assert.throws(() => parseISODuration('P0.5Y'), RangeError);
+		assert.throws(() => parseISODuration('P1.5M'), RangeError);
+		assert.throws(() => parseISODuration('P1,5W'), RangeError);
+		assert.throws(() => parseISODuration('P1Y0.5D'), RangeError);
+	});
+
+	it('parses the negative durations', () => {
+		assert.deepStrictEqual(parseISODuration('-P1DT0H'), {
+			days: -1,
+			hours: 0,
+		});
+		assert.deepStrictEqual(parseISODuration('+P1D'), { days: 1 });
+	});
+
+	it('parses the alternative format', () => {
+		const expected = {
+			years: 1,
+			months: 2,
+			days: 3,
+			hours: 4,
+			minutes: 5,
+			seconds: 6,
+		};
+		assert.deepStrictEqual(parseISODuration('P0001-02-03T04:05:06'), expected);
+		assert.deepStrictEqual(parseISODuration('P00010203T040506'), expected);
+		assert.deepStrictEqual(parseISODuration('-P0001-02-03'), {
+			years: -1,
+			months: -2,
+			days: -3,
+		});
+	});
+
+	it('throws RangeError if the alternative format components exceed their carry-over points', () => {
+		assert.throws(() => parseISODuration('P0001-13-00'), RangeError);
+		assert.throws(() => parseISODuration('P0000-00-00T00:60:00'), RangeError);
+	});
+
+	it('round-trips with formatISODuration', () => {
+		const duration = {
+			years: 1,
+			months: 2,
+			days: 3,
+			hours: 4,
+			minutes: 5,
+			seconds: 6,
+		};
+		assert.deepStrictEqual(
+			parseISODuration(formatISODuration(duration)),
+			duration,
+		);
+	});
+
+	it('returns the duration accepted by add and formatDuration', () => {
+		const date = new Date(2020, 0, 31, 12);
+		const duration = parseISODuration('P1M1W');
+		assert.deepStrictEqual(add(date, duration), new Date(2020, 2, 7, 12));
+		assert.strictEqual(formatDuration(duration), '1 month 1 week');
+	});
+
+	it('throws RangeError for the invalid strings', () => {
+		[
+			'',
+			'P',
+			'PT',
+			'P1YT',
+			'1Y',
+			'P1H',
+			'P1D2Y',
+			'P0001-02-03T04:05',
+			'P-1D',
+		].forEach((durationString) => {
+			assert.throws(
+				() => parseISODuration(durationString),
+				/RangeError: Invalid ISO 8601 duration/,
+			);
+		});
+	});
+});
@@ -0,0 +1,90 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import parseISOInterval from './index';
+
+describe('parseISOInterval', () => {
+	const start = new Date(Date.UTC(2024, 1, 10, 9));
+	const end = new Date(Date.UTC(2024, 1, 11, 17));
+
+	it('parses the start and the end', () => {
+		assert.deepStrictEqual(
+			parseISOInterval('2024-02-10T09:00:00Z/2024-02-11T17:00:00Z'),
+			{ start, end },
+		);
+	});
+
+	it('parses the start and the duration', () => {
+		assert.deepStrictEqual(parseISOInterval('2024-02-10T09:00:00Z/PT32H'), {
+			start,
+			end,
+		});
+		assert.deepStrictEqual(parseISOInterval('2024-01-31T00:00:00/P1M'), {
+			start: new Date(2024, 0, 31),
+			end: new Date(2024, 1, 29),
+		});
+	});
+
+	it('parses the duration and the end', () => {
+		assert.deepStrictEqual(parseISOInterval('P1DT8H/2024-02-11T17:00:00Z'), {
+			start,
+			end,
+		});
+	});
+
+	it('parses the abbreviated end', () => {
+		assert.deepStrictEqual(parseISOInterval('2024-02-10/15'), {
+			start: new Date(2024, 1, 10),
+			end: new Date(2024, 1, 15),
+		});
+		assert.deepStrictEqual(parseISOInterval('2024-02-10/03-01'), {
+			start: new Date(2024, 1, 10),
+			end: new Date(2024, 2, 1),
+		});
+		assert.deepStrictEqual(parseISOInterval('2024-02-10T09:00Z/11T17:00'), {
+			start,
+			end,
+		});
+		assert.deepStrictEqual(parseISOInterval('20240210T0900Z/11T1700Z'), {
+			start,
+			end,
+		});
+	});
+
+	it('parses the abbreviated end time in the time zone of the start', () => {
+		assert.deepStrictEqual(parseISOInterval('2024-02-10T09:00+01:00/17:00'), {
+			start: new Date(Date.UTC(2024, 1, 10, 8)),
+			end: new Date(Date.UTC(2024, 1, 10, 16)),
+		});
+	});
+
+	it('accepts the alternative designator', () => {
+		assert.deepStrictEqual(
+			parseISOInterval('2024-02-10T09:00:00Z--2024-02-11T17:00:00Z'),
+			{ start, end },
+		);
+	});
+
+	it('throws RangeError for the invalid intervals', () => {
+		[
+			'2024-02-10',
+			'2024-02-10/',
+			'P1D/P2D',
+			'2024-02-10/P1X',
+			'2024-02-10/2024-02-30',
+			'2024-02-10/2024-02-11/2024-02-12',
+		].forEach((intervalString) => {
+			assert.throws(
+				() => parseISOInterval(intervalString),
+				/RangeError: Invalid ISO 8601 interval/,
+			);
+		});
+	});
+
+	it('throws RangeError if the start is after the end', () => {
+		assert.throws(
+			() => parseISOInterval('2024-02-10/09'),
+			/RangeError: The start of an interval cannot be after its end/,
+		);
+	});
+});
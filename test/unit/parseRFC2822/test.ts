@@ -0,0 +1,104 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import formatRFC2822 from '../formatRFC2822/index';
+import parseRFC2822 from './index';
+
+describe('parseRFC2822', () => {
+	const expected = new Date(Date.UTC(2019, 8, 18, 19, 0, 52));
+
+	it('parses RFC-2822 date string', () => {
+		assert.deepStrictEqual(
+			parseRFC2822('Wed, 18 Sep 2019 21:00:52 +0200'),
+			expected,
+		);
+		assert.deepStrictEqual(
+			parseRFC2822('18 Sep 2019 15:30:52 -0330'),
+			expected,
+		);
+	});
+
+	it('round-trips with formatRFC2822', () => {
+		assert.deepStrictEqual(
+			parseRFC2822(formatRFC2822(expected, { offset: 345 })),
+			expected,
+		);
+	});
+
+	it('parses the obsolete zone names', () => {
+		assert.deepStrictEqual(
+			parseRFC2822('Wed, 18 Sep 2019 14:00:52 EST'),
+			expected,
+		);
+		assert.deepStrictEqual(
+			parseRFC2822('Wed, 18 Sep 2019 12:00:52 PDT'),
+			expected,
+		);
+		assert.deepStrictEqual(
+			parseRFC2822('Wed, 18 Sep 2019 19:00:52 GMT'),
+			expected,
+		);
+		assert.deepStrictEqual(parseRFC2822('18 Sep 2019 19:00:52 UT'), expected);
+	});
+
+	it('treats the military zones as -0000', () => {
+		assert.deepStrictEqual(parseRFC2822('18 Sep 2019 19:00:52 Z'), expected);
+		assert.deepStrictEqual(parseRFC2822('18 Sep 2019 19:00:52 A'), expected);
+		assert(isNaN(parseRFC2822('18 Sep 2019 19:00:52 J').getTime()));
+	});
+
+	it('ignores the comments and the folding whitespace', () => {
+		assert.deepStrictEqual(
+			parseRFC2822(
+				'Wed (Wednesday), 18 Sep 2019\r\n 21:00:52 +0200 (CEST \\) (nested))',
+			),
+			expected,
+		);
+		assert.deepStrictEqual(
+			parseRFC2822('Wed ,18 Sep 2019 21 : 00 : 52 +0200'),
+			expected,
+		);
+	});
+
+	it('parses the obsolete years', () => {
+		assert.deepStrictEqual(parseRFC2822('18 Sep 19 19:00:52 +0000'), expected);
+		assert.strictEqual(
+			parseRFC2822('1 Jan 50 00:00 +0000').getUTCFullYear(),
+			1950,
+		);
+		assert.strictEqual(
+			parseRFC2822('1 Jan 119 00:00 +0000').getUTCFullYear(),
+			2019,
+		);
+	});
+
+	it('allows to omit the seconds', () => {
+		assert.deepStrictEqual(
+			parseRFC2822('wed, 18 sep 2019 19:00 gmt'),
+			new Date(Date.UTC(2019, 8, 18, 19, 0)),
+		);
+	});
+
+	it('treats the leap second as 59', () => {
+		assert.deepStrictEqual(
+			parseRFC2822('Sat, 31 Dec 2016 23:59:60 +0000'),
+			new Date(Date.UTC(2016, 11, 31, 23, 59, 59)),
+		);
+	});
+
+	it('returns Invalid Date for the invalid strings', () => {
+		const invalid = [
+			'Thu, 18 Sep 2019 19:00:52 +0000',
+			'31 Apr 2019 19:00:52 +0000',
+			'18 Sep 2019 24:00:52 +0000',
+			'18 Sep 2019 19:00:52 +0060',
+			'18 Sep 2019 19:00:52 CET',
+			'18 Sep 2019 19:00:52',
+			'18 Sep 2019 19:00:52 +0000 (unbalanced',
+			'2019-09-18T19:00:52Z',
+		];
+		invalid.forEach((dateString) => {
+			assert(isNaN(parseRFC2822(dateString).getTime()), dateString);
+		});
+	});
+});
@@ -0,0 +1,70 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import sinon from 'sinon';
+import formatRFC7231 from '../formatRFC7231/index';
+import parseRFC7231 from './index';
+
+describe('parseRFC7231', () => {
+	it('parses the IMF-fixdate', () => {
+		const result = parseRFC7231('Sun, 06 Nov 1994 08:49:37 GMT');
+		assert.deepStrictEqual(result, new Date(Date.UTC(1994, 10, 6, 8, 49, 37)));
+	});
+
+	it('parses the RFC 850 date', () => {
+		const result = parseRFC7231('Sunday, 06-Nov-94 08:49:37 GMT');
+		assert.deepStrictEqual(result, new Date(Date.UTC(1994, 10, 6, 8, 49, 37)));
+	});
+
+	it('parses the asctime() date', () => {
+		const result = parseRFC7231('Sun Nov  6 08:49:37 1994');
+		assert.deepStrictEqual(result, new Date(Date.UTC(1994, 10, 6, 8, 49, 37)));
+		assert.deepStrictEqual(
+			parseRFC7231('Sat Nov 26 08:49:37 1994'),
+			new Date(Date.UTC(1994, 10, 26, 8, 49, 37)),
+		);
+	});
+
+	describe('two-digit RFC 850 years', () => {
+		let clock: sinon.SinonFakeTimers;
+		beforeEach(() => {
+			clock = sinon.useFakeTimers(Date.UTC(2030, 0, 1));
+		});
+
+		afterEach(() => {
+			clock.restore();
+		});
+
+		it('treats the years up to 50 years in the future as future years', () => {
+			const result = parseRFC7231('Monday, 01-Jan-80 00:00:00 GMT');
+			assert.deepStrictEqual(result, new Date(Date.UTC(2080, 0, 1)));
+		});
+
+		it('treats the years more than 50 years in the future as past years', () => {
+			const result = parseRFC7231('Thursday, 01-Jan-81 00:00:00 GMT');
+			assert.deepStrictEqual(result, new Date(Date.UTC(1981, 0, 1)));
+		});
+	});
+
+	it('round-trips with formatRFC7231', () => {
+		const date = new Date(Date.UTC(2019, 8, 18, 19, 0, 52));
+		assert.deepStrictEqual(parseRFC7231(formatRFC7231(date)), date);
+	});
+
+	it('returns Invalid Date for the dates that do not exist', () => {
+		assert(isNaN(parseRFC7231('Thu, 31 Apr 2020 00:00:00 GMT').getTime()));
+		assert(isNaN(parseRFC7231('Fri, 01 May 2020 24:00:00 GMT').getTime()));
+	});
+
+	it('returns Invalid Date if the day name does not match the date', () => {
+		assert(isNaN(parseRFC7231('Mon, 06 Nov 1994 08:49:37 GMT').getTime()));
+		assert(isNaN(parseRFC7231('Sun, 06-Nov-94 08:49:37 GMT').getTime()));
+	});
+
+	it('returns Invalid Date for the other formats', () => {
+		assert(isNaN(parseRFC7231('Sun, 06 Nov 1994 08:49:37 UTC').getTime()));
+		assert(isNaN(parseRFC7231('sun, 06 nov 1994 08:49:37 GMT').getTime()));
+		assert(isNaN(parseRFC7231('1994-11-06T08:49:37Z').getTime()));
+		assert(isNaN(parseRFC7231('').getTime()));
+	});
+});
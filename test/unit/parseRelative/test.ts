@@ -0,0 +1,137 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import createIntlLocale from '../createIntlLocale/index';
+import extendLocale from '../extendLocale/index';
+import enUS from '../locale/en-US/index';
+import parseRelative from './index';
+
+describe('parseRelative', () => {
+	// Wednesday
+	const baseDate = new Date(2024, 2 /* Mar */, 6, 10, 15);
+
+	const parseValue = (text: string) => parseRelative(text, baseDate)?.value;
+
+	it('parses the days', () => {
+		assert.deepStrictEqual(parseValue('now'), baseDate);
+		assert.deepStrictEqual(parseValue('today'), new Date(2024, 2, 6));
+		assert.deepStrictEqual(parseValue('tomorrow'), new Date(2024, 2, 7));
+		assert.deepStrictEqual(parseValue('Yesterday'), new Date(2024, 2, 5));
+	});
+
+	it('parses the days of the week', () => {
+		assert.deepStrictEqual(parseValue('friday'), new Date(2024, 2, 8));
+		assert.deepStrictEqual(parseValue('this wednesday'), new Date(2024, 2, 6));
+		assert.deepStrictEqual(parseValue('next wednesday'), new Date(2024, 2, 13));
+		assert.deepStrictEqual(parseValue('last fri'), new Date(2024, 2, 1));
+	});
+
+	it('parses the durations', () => {
+		assert.deepStrictEqual(
+			parseValue('in 3 business days'),
+			new Date(2024, 2, 11, 10, 15),
+		);
+		assert.deepStrictEqual(
+			parseValue('2 weeks ago'),
+			new Date(2024, 1, 21, 10, 15),
+		);
+		assert.deepStrictEqual(
+			parseValue('three days from now'),
+			new Date(2024, 2, 9, 10, 15),
+		);
+		assert.deepStrictEqual(
+			parseValue('in a couple of months'),
+			new Date(2024, 4, 6, 10, 15),
+		);
+	});
+
+	it('parses the boundaries of the periods', () => {
+		assert.deepStrictEqual(
+			parseValue('end of month'),
+			new Date(2024, 2, 31, 23, 59, 59, 999),
+		);
+		assert.deepStrictEqual(
+			parseValue('start of next week'),
+			new Date(2024, 2, 10),
+		);
+		assert.deepStrictEqual(
+			parseValue('end of the quarter'),
+			new Date(2024, 2, 31, 23, 59, 59, 999),
+		);
+	});
+
+	it('parses the periods as the intervals', () => {
+		assert.deepStrictEqual(parseValue('last week'), {
+			start: new Date(2024, 1, 25),
+			end: new Date(2024, 2, 2, 23, 59, 59, 999),
+		});
+		assert.deepStrictEqual(
+			parseRelative('next week', baseDate, { weekStartsOn: 1 })?.value,
+			{
+				start: new Date(2024, 2, 11),
+				end: new Date(2024, 2, 17, 23, 59, 59, 999),
+			},
+		);
+	});
+
+	it('parses the time of the day', () => {
+		assert.deepStrictEqual(
+			parseValue('next friday at 5pm'),
+			new Date(2024, 2, 8, 17),
+		);
+		assert.deepStrictEqual(
+			parseValue('at 9:30 am tomorrow'),
+			new Date(2024, 2, 7, 9, 30),
+		);
+		assert.deepStrictEqual(parseValue('noon'), new Date(2024, 2, 6, 12));
+		assert.deepStrictEqual(parseValue('17:30'), new Date(2024, 2, 6, 17, 30));
+		assert.strictEqual(parseValue('13pm'), undefined);
+	});
+
+	it('reports the matched span and the confidence', () => {
+		const result = parseRelative('lunch next friday please', baseDate);
+		assert.deepStrictEqual(result, {
+			value: new Date(2024, 2, 8),
+			index: 6,
+			match: 'next friday',
+			confidence: 10 / 21,
+		});
+		assert.strictEqual(parseRelative('next friday', baseDate)?.confidence, 1);
+	});
+
+	it('returns null if no phrase is found', () => {
+		assert.strictEqual(parseRelative('no dates here', baseDate), null);
+		assert.strictEqual(parseRelative('tomorrow', new Date(NaN)), null);
+	});
+
+	it('does not change the base date', () => {
+		const date = new Date(baseDate.getTime());
+		parseRelative('end of next month', date);
+		parseRelative('in 3 business days', date);
+		assert.deepStrictEqual(date, baseDate);
+	});
+
+	it('uses the vocabulary of the locale', () => {
+		const locale = extendLocale(enUS, {
+			relative: { days: { manana: 1 }, futurePrefixes: ['within'] },
+		});
+		assert.deepStrictEqual(
+			parseRelative('manana', baseDate, { locale })?.value,
+			new Date(2024, 2, 7),
+		);
+		assert.deepStrictEqual(
+			parseRelative('within 2 days', baseDate, { locale })?.value,
+			new Date(2024, 2, 8, 10, 15),
+		);
+		assert.strictEqual(parseRelative('tomorrow', baseDate, { locale }), null);
+	});
+
+	it('falls back to the English vocabulary if the locale has none', () => {
+		const locale = createIntlLocale('de');
+		assert(!locale.relative);
+		assert.deepStrictEqual(
+			parseRelative('next friday', baseDate, { locale })?.value,
+			new Date(2024, 2, 8),
+		);
+	});
+});
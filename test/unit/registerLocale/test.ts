@@ -0,0 +1,36 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import extendLocale from '../extendLocale/index';
+import format from '../format/index';
+import enUS from '../locale/en-US/index';
+import resolveLocale from '../resolveLocale/index';
+import { resetLocaleRegistry } from '../_lib/localeRegistry/index';
+import registerLocale from './index';
+
+describe('registerLocale', () => {
+	afterEach(resetLocaleRegistry);
+
+	const fr = extendLocale(enUS, {
+		code: 'fr',
+		localize: { day: () => 'mercredi' },
+	});
+
+	it('registers a locale object', () => {
+		registerLocale('fr', fr);
+		assert(
+			format(new Date(2014, 6, 2), 'EEEE', { locale: 'fr-CA' }) === 'mercredi',
+		);
+	});
+
+	it('replaces the locale registered for the same tag', async () => {
+		const otherFr = extendLocale(fr, {});
+		registerLocale('fr', fr);
+		registerLocale('FR', () => Promise.resolve(otherFr));
+		assert((await resolveLocale('fr')) === otherFr);
+	});
+
+	it('throws `RangeError` if the tag is invalid', () => {
+		assert.throws(() => registerLocale('not a tag', fr), RangeError);
+	});
+});
@@ -0,0 +1,96 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import extendLocale from '../extendLocale/index';
+import format from '../format/index';
+import formatDistance from '../formatDistance/index';
+import enUS from '../locale/en-US/index';
+import registerLocale from '../registerLocale/index';
+import { resetLocaleRegistry } from '../_lib/localeRegistry/index';
+import resolveLocale from './index';
+
+describe('resolveLocale', () => {
+	afterEach(resetLocaleRegistry);
+
+	const de = extendLocale(enUS, {
+		code: 'de',
+		localize: { day: () => 'Mittwoch' },
+	});
+	const deCH = extendLocale(de, { code: 'de-CH' });
+	const zhHant = extendLocale(enUS, { code: 'zh-Hant' });
+	const zhHans = extendLocale(enUS, { code: 'zh-Hans' });
+
+	it('resolves the default locale', async () => {
+		assert((await resolveLocale('en-US')) === enUS);
+		assert((await resolveLocale('en')) === enUS);
+	});
+
+	it('resolves the registered tag', async () => {
+		registerLocale('de', () => Promise.resolve(de));
+		assert((await resolveLocale('de')) === de);
+	});
+
+	it('uses the default export of the loaded module', async () => {
+		registerLocale('de', () => Promise.resolve({ default: de }));
+		assert((await resolveLocale('de')) === de);
+	});
+
+	it('resolves the tag with the prefix of the tag', async () => {
+		registerLocale('de', () => Promise.resolve(de));
+		registerLocale('de-CH', () => Promise.resolve(deCH));
+		assert((await resolveLocale('de-AT')) === de);
+		assert((await resolveLocale('de-CH-u-ca-gregory')) === deCH);
+	});
+
+	it('resolves the tag with its likely script', async () => {
+		registerLocale('zh-Hans', () => Promise.resolve(zhHans));
+		registerLocale('zh-Hant', () => Promise.resolve(zhHant));
+		assert((await resolveLocale('zh-TW')) === zhHant);
+		assert((await resolveLocale('zh-CN')) === zhHans);
+	});
+
+	it('resolves the tag with another region of the same language', async () => {
+		registerLocale('de-CH', () => Promise.resolve(deCH));
+		assert((await resolveLocale('de')) === deCH);
+		await assert.rejects(resolveLocale('fr'), RangeError);
+	});
+
+	it('loads the locale once', async () => {
+		let calls = 0;
+		registerLocale('de', () => {
+			calls++;
+			return Promise.resolve(de);
+		});
+		await Promise.all([resolveLocale('de'), resolveLocale('de-AT')]);
+		await resolveLocale('de-DE');
+		assert(calls === 1);
+	});
+
+	it('loads the locale again after a failure', async () => {
+		let calls = 0;
+		registerLocale('de', () =>
+			calls++ === 0
+				? Promise.reject(new Error('offline'))
+				: Promise.resolve(de),
+		);
+		await assert.rejects(resolveLocale('de'), /offline/);
+		assert((await resolveLocale('de')) === de);
+	});
+
+	it('allows to pass the tag of the resolved locale in `options.locale`', async () => {
+		registerLocale('de', () => Promise.resolve(de));
+		const date = new Date(2014, 6, 2);
+
+		assert.throws(() => format(date, 'EEEE', { locale: 'de' }), RangeError);
+
+		await resolveLocale('de');
+		assert(format(date, 'EEEE', { locale: 'de-AT' }) === 'Mittwoch');
+		assert(
+			formatDistance(date, new Date(2014, 6, 3), { locale: 'de' }) === '1 day',
+		);
+	});
+
+	it('rejects with `RangeError` if the tag is invalid', async () => {
+		await assert.rejects(resolveLocale('not a tag'), RangeError);
+	});
+});
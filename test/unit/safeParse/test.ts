@@ -0,0 +1,81 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import safeParse from './index';
+
+describe('safeParse', () => {
+	const referenceDate = new Date(1986, 3, 4, 10, 32, 0, 900);
+
+	it('returns the date and the offset of the valid string', () => {
+		assert.deepStrictEqual(
+			safeParse(
+				'02/11/2014 10:30 +01:00',
+				'MM/dd/yyyy HH:mm XXX',
+				referenceDate,
+			),
+			{
+				ok: true,
+				date: new Date(Date.UTC(2014, 1, 11, 9, 30)),
+				offset: 60,
+			},
+		);
+	});
+
+	it('returns undefined offset if the format has no offset tokens', () => {
+		const result = safeParse('02/11/2014', 'MM/dd/yyyy', referenceDate);
+		assert(result.ok);
+		assert.deepStrictEqual(result.date, new Date(2014, 1, 11));
+		assert.strictEqual(result.offset, undefined);
+	});
+
+	it('reports the value that cannot be matched', () => {
+		assert.deepStrictEqual(
+			safeParse('02/xx/2014', 'MM/dd/yyyy', referenceDate),
+			{
+				ok: false,
+				error: { code: 'invalidValue', index: 3, expected: 'dd' },
+			},
+		);
+	});
+
+	it('reports the value out of range', () => {
+		assert.deepStrictEqual(
+			safeParse('02/30/2014', 'MM/dd/yyyy', referenceDate),
+			{
+				ok: false,
+				error: { code: 'valueOutOfRange', index: 3, expected: 'dd' },
+			},
+		);
+	});
+
+	it('reports the literal mismatch', () => {
+		assert.deepStrictEqual(
+			safeParse('02-11-2014', 'MM/dd/yyyy', referenceDate),
+			{
+				ok: false,
+				error: { code: 'literalMismatch', index: 2, expected: '/' },
+			},
+		);
+	});
+
+	it('reports the trailing characters', () => {
+		assert.deepStrictEqual(
+			safeParse('02/11/2014 10:30', 'MM/dd/yyyy', referenceDate),
+			{
+				ok: false,
+				error: {
+					code: 'trailingCharacters',
+					index: 11,
+					expected: 'the end of the string',
+				},
+			},
+		);
+	});
+
+	it('throws on the invalid format string', () => {
+		assert.throws(
+			() => safeParse('2014 j', 'yyyy j', referenceDate),
+			/unescaped latin alphabet character/,
+		);
+	});
+});
@@ -0,0 +1,65 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import safeParseISO from './index';
+
+describe('safeParseISO', () => {
+	it('returns the date and the offset of the valid string', () => {
+		assert.deepStrictEqual(safeParseISO('2014-02-11T11:30:30+01:00'), {
+			ok: true,
+			date: new Date(Date.UTC(2014, 1, 11, 10, 30, 30)),
+			offset: 60,
+		});
+		assert.deepStrictEqual(safeParseISO('2014-02-11T11:30:30Z'), {
+			ok: true,
+			date: new Date(Date.UTC(2014, 1, 11, 11, 30, 30)),
+			offset: 0,
+		});
+	});
+
+	it('returns undefined offset if the string has no offset', () => {
+		const result = safeParseISO('2014-02-11T11:30:30');
+		assert(result.ok);
+		assert.deepStrictEqual(result.date, new Date(2014, 1, 11, 11, 30, 30));
+		assert.strictEqual(result.offset, undefined);
+	});
+
+	it('reports the invalid year', () => {
+		assert.deepStrictEqual(safeParseISO('14-02-11'), {
+			ok: false,
+			error: { code: 'invalidYear', index: 0, expected: 'YYYY or ±YYYYYY' },
+		});
+	});
+
+	it('reports the month out of range', () => {
+		assert.deepStrictEqual(safeParseISO('2014-13-11'), {
+			ok: false,
+			error: { code: 'monthOutOfRange', index: 5, expected: '01-12' },
+		});
+	});
+
+	it('reports the day and the week out of range', () => {
+		const dayResult = safeParseISO('2014-02-30');
+		assert(!dayResult.ok);
+		assert.strictEqual(dayResult.error.code, 'dayOutOfRange');
+		assert.strictEqual(dayResult.error.index, 8);
+
+		const weekResult = safeParseISO('2014-W54');
+		assert(!weekResult.ok);
+		assert.strictEqual(weekResult.error.code, 'weekOutOfRange');
+	});
+
+	it('reports the bad time', () => {
+		const result = safeParseISO('2014-02-11T25:30');
+		assert(!result.ok);
+		assert.strictEqual(result.error.code, 'invalidTime');
+		assert.strictEqual(result.error.index, 11);
+	});
+
+	it('reports the unparseable offset', () => {
+		const result = safeParseISO('2014-02-11T11:30+1:00');
+		assert(!result.ok);
+		assert.strictEqual(result.error.code, 'invalidOffset');
+		assert.strictEqual(result.error.expected, 'Z or ±hh:mm');
+	});
+});
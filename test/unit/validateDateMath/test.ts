@@ -0,0 +1,52 @@
+/* eslint-env mocha */
+
+import assert from 'assert';
+import validateDateMath from './index';
+
+describe('validateDateMath', () => {
+	it('returns null for the valid expressions', () => {
+		assert.strictEqual(validateDateMath('now'), null);
+		assert.strictEqual(validateDateMath('now-7d/d'), null);
+		assert.strictEqual(
+			validateDateMath('2024-01-01T10:00:00+01:00||+1M/d'),
+			null,
+		);
+	});
+
+	it('reports the missing anchor', () => {
+		assert.deepStrictEqual(validateDateMath('-7d'), {
+			code: 'invalidFormat',
+			index: 0,
+			expected: '`now` or a date followed by `||`',
+		});
+	});
+
+	it('reports the unknown operator', () => {
+		assert.deepStrictEqual(validateDateMath('now-1d*2'), {
+			code: 'invalidFormat',
+			index: 6,
+			expected: '+, - or /',
+		});
+	});
+
+	it('reports the missing number and unit', () => {
+		assert.deepStrictEqual(validateDateMath('now+d'), {
+			code: 'invalidFormat',
+			index: 4,
+			expected: 'a number',
+		});
+		assert.deepStrictEqual(validateDateMath('now/1d'), {
+			code: 'invalidFormat',
+			index: 4,
+			expected: 'y, M, w, d, h, H, m or s',
+		});
+	});
+
+	it('reports the invalid date', () => {
+		assert.deepStrictEqual(validateDateMath('2024-13-01||+1d'), {
+			code: 'monthOutOfRange',
+			index: 5,
+			expected: '01-12',
+		});
+	});
+});